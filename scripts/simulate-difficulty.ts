@@ -0,0 +1,142 @@
+// Run thousands of obstacle spawn sequences headlessly and report how a difficulty profile plays
+//
+// Usage: npm run simulate:difficulty -- [--difficulty chill|normal|degen] [--profile file.json]
+//                                        [--runs 1000] [--duration 120] [--seed 1]
+import fs from 'fs';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PRESETS,
+  DifficultyProfile,
+  getDifficultyProfile,
+  isDifficultyPreset,
+  parseDifficultyProfile
+} from '../src/core/Difficulty';
+import {
+  SpawnReport,
+  SpawnedObstacle,
+  buildHistogram,
+  getPlayerJumpArcs,
+  simulateSpawns,
+  summarizeSpawns
+} from '../src/core/SpawnSimulator';
+import { runQuietly } from '../src/core/Simulation';
+
+// Command line options
+interface Options {
+  name: string;
+  profile: DifficultyProfile;
+  runs: number;
+  duration: number;  // Seconds per run
+  seed: number;      // Seed of the first run - each run after it uses the next seed
+}
+
+const BAR_WIDTH = 40;
+
+// Read the value after a flag (e.g. --runs 500)
+function getFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+// Read a whole number flag, or fail with a message
+function getNumberFlag(args: string[], flag: string, fallback: number): number {
+  const value = getFlag(args, flag);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${flag} must be a whole number (got "${value}")`);
+  }
+  return parsed;
+}
+
+function parseOptions(args: string[]): Options {
+  const profilePath = getFlag(args, '--profile');
+  const difficulty = getFlag(args, '--difficulty') || DEFAULT_DIFFICULTY;
+
+  let name: string;
+  let profile: DifficultyProfile | null;
+  if (profilePath) {
+    name = profilePath;
+    profile = parseDifficultyProfile(fs.readFileSync(profilePath, 'utf8'));
+    if (!profile) throw new Error(`${profilePath} is not a valid difficulty profile`);
+  } else if (isDifficultyPreset(difficulty)) {
+    name = DIFFICULTY_LABELS[difficulty];
+    profile = getDifficultyProfile(difficulty);
+  } else {
+    throw new Error(`Unknown difficulty "${difficulty}" (use ${DIFFICULTY_PRESETS.join(', ')} or --profile)`);
+  }
+
+  return {
+    name,
+    profile,
+    runs: Math.max(1, getNumberFlag(args, '--runs', 1000)),
+    duration: Math.max(1, getNumberFlag(args, '--duration', 120)),
+    seed: getNumberFlag(args, '--seed', 1)
+  };
+}
+
+// Format a count as a share of a total
+function percent(count: number, total: number): string {
+  return `${total > 0 ? (count / total * 100).toFixed(1) : '0.0'}%`.padStart(6);
+}
+
+// Draw one line of a bar chart
+function bar(label: string, count: number, total: number, largest: number): string {
+  const length = largest > 0 ? Math.round(count / largest * BAR_WIDTH) : 0;
+  return `  ${label.padEnd(10)} ${percent(count, total)}  ${'#'.repeat(length)}`;
+}
+
+function printReport(options: Options, report: SpawnReport): void {
+  const { obstacles } = report;
+  const perMinute = obstacles / report.runs / (report.duration / 60000);
+
+  console.log(`\n${options.name} difficulty - ${report.runs} runs of ${options.duration}s (seeds ${options.seed}-${options.seed + report.runs - 1})`);
+  console.log(`${obstacles} obstacles, ${(obstacles / report.runs).toFixed(1)} per run (${perMinute.toFixed(1)} per minute)`);
+
+  console.log('\nObstacle types');
+  const largestType = Math.max(...Object.values(report.types));
+  Object.entries(report.types).forEach(([type, count]) => {
+    console.log(bar(type, count, obstacles, largestType));
+  });
+
+  console.log('\nGap to the previous obstacle (px)');
+  const histogram = buildHistogram(report.gaps, 200, 10);
+  const largestGap = Math.max(...histogram.map(bucket => bucket.count));
+  histogram.forEach(bucket => {
+    console.log(bar(bucket.label, bucket.count, report.gaps.length, largestGap));
+  });
+
+  console.log('\nStacks');
+  console.log(`  stacked    ${percent(report.stacked, obstacles)}  (${report.stacked})`);
+  console.log(`  triple     ${percent(report.tripleStacked, obstacles)}  (${report.tripleStacked})`);
+
+  console.log('\nDouble-jump obstacles');
+  console.log(`  spawned    ${percent(report.doubleJump, obstacles)}  (${report.doubleJump})`);
+
+  console.log('\nClearable by jumping over at cruising speed');
+  console.log(`  jump       ${percent(report.clearance.jump, obstacles)}  (${report.clearance.jump})`);
+  console.log(`  double     ${percent(report.clearance.doubleJump, obstacles)}  (${report.clearance.doubleJump})`);
+  console.log(`  impossible ${percent(report.clearance.impossible, obstacles)}  (${report.clearance.impossible})`);
+}
+
+function main(): void {
+  const options = parseOptions(process.argv.slice(2));
+
+  // The game logs every spawn - keep the report readable
+  const runs: SpawnedObstacle[][] = runQuietly(() => {
+    const arcs = getPlayerJumpArcs();
+    return Array.from({ length: options.runs }, (_, i) =>
+      simulateSpawns(options.profile, options.seed + i, options.duration * 1000, arcs));
+  });
+
+  printReport(options, summarizeSpawns(runs, options.duration * 1000));
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('Error simulating difficulty:', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
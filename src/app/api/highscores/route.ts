@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
 import { Redis } from '@upstash/redis';
+import { getDailyKey, getDailySeed } from '../../../utils/daily';
+import { parseRecording } from '../../../core/InputRecorder';
+import { SIMULATION_TIMESTEP, simulateRecording } from '../../../core/Simulation';
+import { DEFAULT_DIFFICULTY, DifficultyPreset, isDifficultyPreset } from '../../../core/Difficulty';
 
 // Define the high score data structure
 type HighScore = {
@@ -9,6 +12,8 @@ type HighScore = {
   score: number;
   name: string;
   date: string;
+  seed?: number; // Course the run was played on - Classic players pick their own, so it's kept to
+                 // spot scores from courses shopped for being easy (missing on older entries)
 };
 
 // Initialize Redis client
@@ -17,32 +22,55 @@ const redis = new Redis({
   token: process.env.KV_REST_API_TOKEN || '',
 });
 
-// Key for high scores in Redis
+// Key for high scores in Redis (the Normal difficulty board - other difficulties get their own key)
 const HIGH_SCORES_KEY = 'stanskate:highscores';
 
-// Secret key for sats verification
-// In a production app, this would be an environment variable
-const SATS_SECRET_KEY = 'skatewithbitcoin-secure-score-key-do-not-share';
+// Daily Run scores live next to the all-time board, one key per UTC day
+const DAILY_HIGH_SCORES_PREFIX = 'stanskate:highscores:daily';
 
-// Generate a verification hash for sats
-function generateScoreHash(score: number, deviceId: string, timestamp: string) {
-  const data = `${score}:${deviceId}:${timestamp}:${SATS_SECRET_KEY}`;
-  return crypto.createHash('sha256').update(data).digest('hex');
-}
+// Keep daily boards around for a week so recent days can still be looked up
+const DAILY_HIGH_SCORES_TTL_SECONDS = 7 * 24 * 60 * 60;
 
-// Verify that a sats hash is valid
-function verifyScoreHash(score: number, deviceId: string, timestamp: string, hash: string) {
-  const expectedHash = generateScoreHash(score, deviceId, timestamp);
-  return crypto.timingSafeEqual(
-    Buffer.from(expectedHash, 'hex'),
-    Buffer.from(hash, 'hex')
-  );
-}
+// Get the Redis key for a difficulty's all-time leaderboard
+const getHighScoresKey = (difficulty: DifficultyPreset) =>
+  difficulty === DEFAULT_DIFFICULTY ? HIGH_SCORES_KEY : `${HIGH_SCORES_KEY}:${difficulty}`;
+
+// Get the Redis key for a day's Daily Run leaderboard at a difficulty
+const getDailyHighScoresKey = (day: string, difficulty: DifficultyPreset) =>
+  difficulty === DEFAULT_DIFFICULTY ? `${DAILY_HIGH_SCORES_PREFIX}:${day}` : `${DAILY_HIGH_SCORES_PREFIX}:${difficulty}:${day}`;
+
+// Longest run we'll re-simulate (30 minutes of update ticks) - keeps verification cheap
+const MAX_REPLAY_FRAMES = 30 * 60 * 60;
+
+// Read a day's Daily Run scores from Redis (no default entries - every day starts empty)
+const getDailyHighScores = async (day: string, difficulty: DifficultyPreset): Promise<HighScore[]> => {
+  try {
+    const highScores = await redis.get<HighScore[]>(getDailyHighScoresKey(day, difficulty));
+    return highScores || [];
+  } catch (error) {
+    console.error(`Error reading daily ${difficulty} high scores for ${day}:`, error);
+    return [];
+  }
+};
 
-// Read high scores from Redis
-const getHighScores = async (): Promise<HighScore[]> => {
+// Save a day's Daily Run scores to Redis
+const saveDailyHighScores = async (day: string, difficulty: DifficultyPreset, highScores: HighScore[]): Promise<void> => {
   try {
-    const highScores = await redis.get<HighScore[]>(HIGH_SCORES_KEY);
+    await redis.set(getDailyHighScoresKey(day, difficulty), highScores, { ex: DAILY_HIGH_SCORES_TTL_SECONDS });
+  } catch (error) {
+    console.error(`Error saving daily ${difficulty} high scores for ${day}:`, error);
+  }
+};
+
+// Read a difficulty's high scores from Redis
+const getHighScores = async (difficulty: DifficultyPreset): Promise<HighScore[]> => {
+  try {
+    const highScores = await redis.get<HighScore[]>(getHighScoresKey(difficulty));
+    
+    // Only the original (Normal) board is seeded with example scores
+    if (!highScores && difficulty !== DEFAULT_DIFFICULTY) {
+      return [];
+    }
     
     if (!highScores) {
       // Create with some default data if no scores exist
@@ -66,29 +94,38 @@ const getHighScores = async (): Promise<HighScore[]> => {
           date: new Date().toISOString()
         }
       ];
-      await saveHighScores(defaultData);
+      await saveHighScores(difficulty, defaultData);
       return defaultData;
     }
     
     return highScores;
   } catch (error) {
-    console.error('Error reading high scores:', error);
+    console.error(`Error reading ${difficulty} high scores:`, error);
     return [];
   }
 };
 
-// Save high scores to Redis
-const saveHighScores = async (highScores: HighScore[]): Promise<void> => {
+// Save a difficulty's high scores to Redis
+const saveHighScores = async (difficulty: DifficultyPreset, highScores: HighScore[]): Promise<void> => {
   try {
-    await redis.set(HIGH_SCORES_KEY, highScores);
+    await redis.set(getHighScoresKey(difficulty), highScores);
   } catch (error) {
-    console.error('Error saving high scores:', error);
+    console.error(`Error saving ${difficulty} high scores:`, error);
   }
 };
 
 // Get top high scores - only returns top 10
-export async function GET() {
-  const highScores = await getHighScores();
+// Pass ?mode=daily to get today's Daily Run leaderboard instead of the all-time one, and
+// ?difficulty=chill|normal|degen for a difficulty's board (Normal if unset)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const isDaily = searchParams.get('mode') === 'daily';
+  const difficultyParam = searchParams.get('difficulty');
+  const difficulty = isDifficultyPreset(difficultyParam) ? difficultyParam : DEFAULT_DIFFICULTY;
+  
+  const highScores = isDaily
+    ? await getDailyHighScores(getDailyKey(), difficulty)
+    : await getHighScores(difficulty);
   
   // Sort by score (descending) and take top 10
   const topScores = highScores
@@ -101,43 +138,60 @@ export async function GET() {
 // Add a new high score
 export async function POST(request: Request) {
   try {
-    const { score, name = 'Anonymous', deviceId = uuidv4(), timestamp, scoreHash } = await request.json();
+    const { score, name = 'Anonymous', deviceId = uuidv4(), mode = 'classic', day, replay } = await request.json();
     
-    // Basic validation
-    if (!score) {
+    // Every submission has to carry the replay of the run it claims
+    const recording = parseRecording(replay, MAX_REPLAY_FRAMES);
+    if (!recording) {
       return NextResponse.json(
-        { error: 'Sats amount is required' },
+        { error: 'A valid replay is required' },
         { status: 400 }
       );
     }
     
-    // Prevent extremely large scores (likely fake)
-    const numericScore = Number(score);
-    if (isNaN(numericScore) || numericScore < 0 || numericScore > 99999) {
+    // Physics depend on the timestep, so only runs played at the game's own rate can be verified
+    if (Math.abs(recording.timestep - SIMULATION_TIMESTEP) > 1e-6) {
       return NextResponse.json(
-        { error: 'Invalid sats value' },
+        { error: 'Invalid replay timestep' },
         { status: 400 }
       );
     }
     
-    // Verify score hash if provided
-    if (timestamp && scoreHash) {
-      try {
-        const isValid = verifyScoreHash(numericScore, deviceId, timestamp, scoreHash);
-        if (!isValid) {
-          console.error(`[API] Invalid sats hash for score ${score} from ${deviceId}`);
-          return NextResponse.json(
-            { error: 'Sats verification failed' },
-            { status: 403 }
-          );
-        }
-      } catch (error) {
-        console.error(`[API] Error verifying sats hash:`, error);
-        return NextResponse.json(
-          { error: 'Sats verification failed' },
-          { status: 403 }
-        );
-      }
+    // Daily Run scores only count for the day they were played on
+    const isDaily = mode === 'daily';
+    const today = getDailyKey();
+    if (isDaily && day !== today) {
+      return NextResponse.json(
+        { error: 'This Daily Run has ended' },
+        { status: 400 }
+      );
+    }
+    
+    // Daily Run replays must be played on the course of the day
+    if (isDaily && recording.seed !== getDailySeed(new Date(today))) {
+      return NextResponse.json(
+        { error: 'Replay is not from today\'s Daily Run' },
+        { status: 400 }
+      );
+    }
+    
+    // Scores go on the board of the difficulty the replay was played at
+    const difficulty = recording.difficulty;
+    
+    // Re-run the game headlessly (without its per-jump and per-spawn logging, so replays can't
+    // flood the server log) - the simulated score is the only one we trust
+    const simulation = simulateRecording(recording, true);
+    const numericScore = simulation.sats;
+    
+    if (score !== undefined && Number(score) !== numericScore) {
+      console.warn(`[API] Claimed ${score} sats from ${deviceId} on seed ${recording.seed} but replay produced ${numericScore}`);
+    }
+    
+    if (numericScore <= 0) {
+      return NextResponse.json(
+        { error: 'Replay did not earn any sats' },
+        { status: 400 }
+      );
     }
     
     // Sanitize name input
@@ -145,8 +199,10 @@ export async function POST(request: Request) {
       ? name.trim().slice(0, 20).replace(/[<>]/g, '')
       : 'Anonymous';
     
-    // Get existing high scores
-    const highScores = await getHighScores();
+    // Get existing high scores for the board this run belongs to
+    const highScores = isDaily
+      ? await getDailyHighScores(today, difficulty)
+      : await getHighScores(difficulty);
     
     // Check if this device already has a high score
     const existingScoreIndex = highScores.findIndex(s => s.id === deviceId);
@@ -157,6 +213,7 @@ export async function POST(request: Request) {
       score: numericScore,
       name: sanitizedName,
       date: new Date().toISOString(),
+      seed: recording.seed,
     };
     
     // If this device already has a score, update it if the new score is higher
@@ -179,11 +236,17 @@ export async function POST(request: Request) {
     const rank = highScores.findIndex(item => item.id === deviceId) + 1;
     
     // Save the updated high scores
-    await saveHighScores(highScores);
+    if (isDaily) {
+      await saveDailyHighScores(today, difficulty, highScores);
+    } else {
+      await saveHighScores(difficulty, highScores);
+    }
     
     return NextResponse.json({
       topScores,
       rank,
+      score: numericScore,
+      difficulty,
       message: 'Sats saved successfully'
     });
   } catch (error) {
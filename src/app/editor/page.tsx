@@ -0,0 +1,17 @@
+'use client';
+
+import React from 'react';
+import dynamic from 'next/dynamic';
+
+// Use dynamic import to avoid SSR issues with Canvas
+const CourseEditor = dynamic(() => import('@/components/Editor/CourseEditor'), {
+  ssr: false,
+});
+
+export default function EditorPage() {
+  return (
+    <div className="flex min-h-screen flex-col bg-gray-900">
+      <CourseEditor />
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SIMULATION_TIMESTEP, createPlayer } from '../../core/Simulation';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PRESETS,
+  DifficultyPreset,
+  getDifficultyProfile
+} from '../../core/Difficulty';
+import { COURSE_LEAD_IN, COURSE_SCROLL_FACTOR, ObstacleType } from '../../entities/ObstacleManager';
+import { CRUISE_SPEED } from '../../entities/Player';
+import { getJumpArcs, getJumpPhysics } from '../../entities/JumpArc';
+import { PatternObstacle } from '../../entities/ObstaclePatterns';
+import {
+  Course,
+  createEmptyCourse,
+  findUnclearableObstacles,
+  getCourseLength,
+  parseCourse,
+  serializeCourse,
+  validateCourse
+} from '../../entities/Course';
+import { loadCourseDraft, saveCourseDraft } from '../../utils/course';
+import { loadDifficulty } from '../../utils/difficulty';
+import CoursePlaytest from './CoursePlaytest';
+
+// What a click on the course does
+type EditorTool = 'select' | 'box' | 'ramp' | 'rail' | 'powerUp';
+
+// Selected obstacle (piece is the index in its stack, null for the bottom one) or power-up
+type Selection =
+  | { kind: 'obstacle'; index: number; piece: number | null }
+  | { kind: 'powerUp'; index: number }
+  | null;
+
+// Something drawn on the course, in course px across and screen px down
+interface Shape {
+  selection: NonNullable<Selection>;
+  type: ObstacleType | 'powerUp';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Drawing area - the ground and player match the game
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 500;
+const GROUND_Y = 400;
+const PLAYER_SCREEN_X = 100;  // Where the player stands on screen
+const RULER_HEIGHT = 30;      // Click the ruler to move the playhead
+const POWER_UP_SIZE = 44;
+const MAX_POWER_UP_HEIGHT = 350;
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'select', label: '🖱️ Select' },
+  { tool: 'box', label: '📦 Box' },
+  { tool: 'ramp', label: '📐 Ramp' },
+  { tool: 'rail', label: '🛤️ Rail' },
+  { tool: 'powerUp', label: '⭐ Power-up' }
+];
+
+// Size of a newly placed obstacle, and of one stacked on another
+const NEW_OBSTACLE_SIZES: Record<ObstacleType, { width: number; height: number }> = {
+  box: { width: 60, height: 45 },
+  ramp: { width: 90, height: 45 },
+  rail: { width: 200, height: 20 }
+};
+const NEW_STACK_SIZES: Record<ObstacleType, { width: number; height: number }> = {
+  box: { width: 45, height: 30 },
+  ramp: { width: 60, height: 30 },
+  rail: { width: 45, height: 30 }
+};
+
+const SHAPE_COLORS: Record<Shape['type'], string> = {
+  box: '#F7931A',
+  ramp: '#60A5FA',
+  rail: '#9CA3AF',
+  powerUp: '#FBBF24'
+};
+
+const SNAP_OPTIONS = [0, 10, 25, 50, 100];
+
+// Shared look of the toolbar buttons
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+  color: 'white',
+  padding: '6px 12px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: 'bold',
+  border: '1px solid rgba(255,255,255,0.1)',
+  cursor: 'pointer'
+};
+
+const activeButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  backgroundColor: 'rgba(124, 58, 237, 0.85)'
+};
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(17, 24, 39, 0.9)',
+  color: 'white',
+  padding: '4px 8px',
+  borderRadius: '6px',
+  border: '1px solid rgba(255,255,255,0.2)',
+  fontSize: '13px'
+};
+
+// Lay out every obstacle, stacked piece and power-up of a course
+const getShapes = (course: Course): Shape[] => {
+  const shapes: Shape[] = [];
+
+  course.obstacles.forEach((obstacle, index) => {
+    let top = GROUND_Y - obstacle.height;
+    shapes.push({ selection: { kind: 'obstacle', index, piece: null }, type: obstacle.type, x: obstacle.at, y: top, width: obstacle.width, height: obstacle.height });
+
+    (obstacle.stack || []).forEach((piece, pieceIndex) => {
+      top -= piece.height;
+      shapes.push({ selection: { kind: 'obstacle', index, piece: pieceIndex }, type: piece.type, x: obstacle.at + piece.offset, y: top, width: piece.width, height: piece.height });
+    });
+  });
+
+  course.powerUps.forEach((powerUp, index) => {
+    shapes.push({ selection: { kind: 'powerUp', index }, type: 'powerUp', x: powerUp.at, y: GROUND_Y - powerUp.height, width: POWER_UP_SIZE, height: POWER_UP_SIZE });
+  });
+
+  return shapes;
+};
+
+const isSameSelection = (a: Selection, b: Selection): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Speed obstacles close in at once the easy start of a difficulty is over (px/s)
+const getCruiseApproachSpeed = (difficulty: DifficultyPreset): number => {
+  const { startSpeed, gracePeriodSpeedBoost, easyModeSpeedBoost } = getDifficultyProfile(difficulty);
+  return COURSE_SCROLL_FACTOR * CRUISE_SPEED * (startSpeed + gracePeriodSpeedBoost + easyModeSpeedBoost);
+};
+
+const CourseEditor: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [course, setCourse] = useState<Course>(createEmptyCourse);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [tool, setTool] = useState<EditorTool>('box');
+  const [selection, setSelection] = useState<Selection>(null);
+  const [snap, setSnap] = useState<number>(25);
+  const [scrollX, setScrollX] = useState<number>(0);
+  const [playhead, setPlayhead] = useState<number>(0);
+  const [difficulty, setDifficulty] = useState<DifficultyPreset>(DEFAULT_DIFFICULTY);
+  const [playtestStart, setPlaytestStart] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Item being dragged and where on it it was grabbed
+  const dragRef = useRef<{ selection: NonNullable<Selection>; grabX: number; grabY: number } | null>(null);
+
+  // Pick up where the last editing session left off
+  useEffect(() => {
+    setCourse(loadCourseDraft());
+    setDifficulty(loadDifficulty());
+    setLoaded(true);
+  }, []);
+
+  // Keep the course saved while editing
+  useEffect(() => {
+    if (loaded) saveCourseDraft(course);
+  }, [course, loaded]);
+
+  // Obstacles the player can't get over at the chosen difficulty's cruising speed
+  const arcs = useMemo(() => getJumpArcs(getJumpPhysics(createPlayer(), SIMULATION_TIMESTEP)), []);
+  const unclearable = useMemo(
+    () => findUnclearableObstacles(course, getCruiseApproachSpeed(difficulty), arcs),
+    [course, difficulty, arcs]
+  );
+
+  const shapes = useMemo(() => getShapes(course), [course]);
+  const courseLength = getCourseLength(course);
+  const timelineLength = Math.max(3000, courseLength + VIEW_WIDTH);
+
+  const snapValue = useCallback((value: number) => {
+    return snap > 0 ? Math.round(value / snap) * snap : Math.round(value);
+  }, [snap]);
+
+  // Change one obstacle of the course
+  const updateObstacle = useCallback((index: number, change: (obstacle: PatternObstacle) => PatternObstacle) => {
+    setCourse(current => ({
+      ...current,
+      obstacles: current.obstacles.map((obstacle, i) => i === index ? change(obstacle) : obstacle)
+    }));
+  }, []);
+
+  const deleteSelection = useCallback(() => {
+    if (!selection) return;
+
+    if (selection.kind === 'powerUp') {
+      setCourse(current => ({ ...current, powerUps: current.powerUps.filter((_, i) => i !== selection.index) }));
+    } else if (selection.piece === null) {
+      setCourse(current => ({ ...current, obstacles: current.obstacles.filter((_, i) => i !== selection.index) }));
+    } else {
+      // Taking a piece out of a stack drops everything above it onto the piece below
+      const piece = selection.piece;
+      updateObstacle(selection.index, obstacle => ({
+        ...obstacle,
+        stack: (obstacle.stack || []).filter((_, i) => i !== piece)
+      }));
+    }
+    setSelection(null);
+  }, [selection, updateObstacle]);
+
+  // Keyboard shortcuts (ignored while typing in a field)
+  useEffect(() => {
+    if (playtestStart !== null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+
+      if (e.code === 'Delete' || e.code === 'Backspace') {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.code === 'Escape') {
+        setSelection(null);
+      } else if (e.code === 'ArrowLeft') {
+        setScrollX(x => Math.max(0, x - 200));
+      } else if (e.code === 'ArrowRight') {
+        setScrollX(x => Math.min(timelineLength, x + 200));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [playtestStart, deleteSelection, timelineLength]);
+
+  // Draw the course
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    try {
+      const toScreenX = (x: number) => x - scrollX + PLAYER_SCREEN_X;
+
+      ctx.fillStyle = '#1E293B';
+      ctx.fillRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+      ctx.fillStyle = '#374151';
+      ctx.fillRect(0, GROUND_Y, VIEW_WIDTH, VIEW_HEIGHT - GROUND_Y);
+
+      // Snap grid
+      if (snap >= 25) {
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+        ctx.lineWidth = 1;
+        for (let x = Math.floor(scrollX / snap) * snap - PLAYER_SCREEN_X; x < scrollX + VIEW_WIDTH; x += snap) {
+          ctx.beginPath();
+          ctx.moveTo(toScreenX(x), RULER_HEIGHT);
+          ctx.lineTo(toScreenX(x), GROUND_Y);
+          ctx.stroke();
+        }
+      }
+
+      // Ruler along the top
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+      ctx.fillRect(0, 0, VIEW_WIDTH, RULER_HEIGHT);
+      ctx.fillStyle = '#9CA3AF';
+      ctx.strokeStyle = '#9CA3AF';
+      ctx.font = '11px Arial';
+      ctx.textAlign = 'left';
+      for (let x = Math.max(0, Math.floor((scrollX - PLAYER_SCREEN_X) / 100) * 100); x < scrollX + VIEW_WIDTH; x += 100) {
+        ctx.beginPath();
+        ctx.moveTo(toScreenX(x), RULER_HEIGHT - (x % 500 === 0 ? 12 : 6));
+        ctx.lineTo(toScreenX(x), RULER_HEIGHT);
+        ctx.stroke();
+        if (x % 500 === 0) ctx.fillText(`${x}`, toScreenX(x) + 3, 12);
+      }
+
+      // Empty track a test run from the playhead starts on
+      ctx.fillStyle = 'rgba(167, 139, 250, 0.08)';
+      ctx.fillRect(toScreenX(playhead - COURSE_LEAD_IN), RULER_HEIGHT, COURSE_LEAD_IN, GROUND_Y - RULER_HEIGHT);
+
+      shapes.forEach(shape => {
+        const x = toScreenX(shape.x);
+        if (x + shape.width < 0 || x > VIEW_WIDTH) return;
+
+        ctx.fillStyle = SHAPE_COLORS[shape.type];
+        ctx.beginPath();
+        if (shape.type === 'ramp') {
+          ctx.moveTo(x, shape.y + shape.height);
+          ctx.lineTo(x + shape.width, shape.y);
+          ctx.lineTo(x + shape.width, shape.y + shape.height);
+          ctx.closePath();
+        } else if (shape.type === 'powerUp') {
+          ctx.arc(x + shape.width / 2, shape.y + shape.height / 2, shape.width / 2, 0, Math.PI * 2);
+        } else {
+          ctx.rect(x, shape.y, shape.width, shape.height);
+        }
+        ctx.fill();
+
+        // Outline what's selected, and obstacles the player can't get over in red
+        const isUnclearable = shape.selection.kind === 'obstacle' && unclearable.includes(shape.selection.index);
+        if (isSameSelection(shape.selection, selection) || isUnclearable) {
+          ctx.strokeStyle = isSameSelection(shape.selection, selection) ? 'white' : '#EF4444';
+          ctx.lineWidth = 3;
+          ctx.stroke();
+        }
+      });
+
+      // Playhead - test runs can start from here
+      const playheadX = toScreenX(playhead);
+      ctx.strokeStyle = '#A78BFA';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(playheadX, 0);
+      ctx.lineTo(playheadX, GROUND_Y);
+      ctx.stroke();
+      ctx.fillStyle = '#A78BFA';
+      ctx.fillText(`▶ ${playhead}`, playheadX + 4, RULER_HEIGHT - 4);
+    } catch (err) {
+      console.error('Error in CourseEditor draw:', err);
+    }
+  }, [shapes, scrollX, snap, selection, playhead, unclearable, playtestStart]);
+
+  // Position of a mouse event in course px across and screen px down
+  const getPointer = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (VIEW_WIDTH / rect.width) + scrollX - PLAYER_SCREEN_X,
+      y: (e.clientY - rect.top) * (VIEW_HEIGHT / rect.height)
+    };
+  };
+
+  const findShapeAt = (x: number, y: number): Shape | undefined => {
+    return [...shapes].reverse().find(shape =>
+      x >= shape.x && x <= shape.x + shape.width && y >= shape.y && y <= shape.y + shape.height);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    try {
+      const { x, y } = getPointer(e);
+
+      // The ruler moves the playhead
+      if (y < RULER_HEIGHT) {
+        setPlayhead(Math.max(0, snapValue(x)));
+        return;
+      }
+
+      const shape = findShapeAt(x, y);
+
+      if (tool === 'select') {
+        setSelection(shape ? shape.selection : null);
+        if (shape) {
+          dragRef.current = { selection: shape.selection, grabX: x - shape.x, grabY: y - shape.y };
+        }
+        return;
+      }
+
+      if (tool === 'powerUp') {
+        const height = Math.min(MAX_POWER_UP_HEIGHT, Math.max(POWER_UP_SIZE, snapValue(GROUND_Y - y + POWER_UP_SIZE / 2)));
+        const powerUp = { at: Math.max(0, snapValue(x - POWER_UP_SIZE / 2)), height };
+        setCourse(current => ({ ...current, powerUps: [...current.powerUps, powerUp] }));
+        setSelection({ kind: 'powerUp', index: course.powerUps.length });
+        return;
+      }
+
+      // Boxes and ramps dropped on an obstacle go on top of its stack
+      if (shape && shape.selection.kind === 'obstacle' && tool !== 'rail') {
+        const index = shape.selection.index;
+        const base = course.obstacles[index];
+        const size = NEW_STACK_SIZES[tool];
+        const offset = Math.max(0, snapValue(x - base.at - size.width / 2));
+        updateObstacle(index, obstacle => ({
+          ...obstacle,
+          stack: [...(obstacle.stack || []), { type: tool, width: size.width, height: size.height, offset }]
+        }));
+        setSelection({ kind: 'obstacle', index, piece: (base.stack || []).length });
+        return;
+      }
+
+      const size = NEW_OBSTACLE_SIZES[tool];
+      const obstacle: PatternObstacle = { at: Math.max(0, snapValue(x - size.width / 2)), type: tool, width: size.width, height: size.height };
+      setCourse(current => ({ ...current, obstacles: [...current.obstacles, obstacle] }));
+      setSelection({ kind: 'obstacle', index: course.obstacles.length, piece: null });
+    } catch (err) {
+      console.error('Error in CourseEditor.handleMouseDown:', err);
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const { x, y } = getPointer(e);
+    const left = snapValue(x - drag.grabX);
+
+    if (drag.selection.kind === 'powerUp') {
+      const index = drag.selection.index;
+      const height = Math.min(MAX_POWER_UP_HEIGHT, Math.max(POWER_UP_SIZE, snapValue(GROUND_Y - (y - drag.grabY))));
+      setCourse(current => ({
+        ...current,
+        powerUps: current.powerUps.map((powerUp, i) => i === index ? { at: Math.max(0, left), height } : powerUp)
+      }));
+    } else if (drag.selection.piece === null) {
+      updateObstacle(drag.selection.index, obstacle => ({ ...obstacle, at: Math.max(0, left) }));
+    } else {
+      // Stacked pieces slide along the obstacle they're on
+      const piece = drag.selection.piece;
+      updateObstacle(drag.selection.index, obstacle => ({
+        ...obstacle,
+        stack: (obstacle.stack || []).map((p, i) => i === piece ? { ...p, offset: Math.max(0, left - obstacle.at) } : p)
+      }));
+    }
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+    setScrollX(x => Math.min(timelineLength, Math.max(0, x + delta)));
+  };
+
+  // Size fields of the selected item
+  const selected = (() => {
+    if (!selection) return null;
+    if (selection.kind === 'powerUp') {
+      const powerUp = course.powerUps[selection.index];
+      return powerUp ? { label: 'Power-up', fields: { at: powerUp.at, height: powerUp.height } } : null;
+    }
+    const obstacle = course.obstacles[selection.index];
+    if (!obstacle) return null;
+    if (selection.piece === null) {
+      return { label: `${obstacle.type} on the ground`, fields: { at: obstacle.at, width: obstacle.width, height: obstacle.height } };
+    }
+    const piece = (obstacle.stack || [])[selection.piece];
+    return piece ? { label: `stacked ${piece.type}`, fields: { offset: piece.offset, width: piece.width, height: piece.height } } : null;
+  })();
+
+  const updateSelectedField = (field: string, value: number) => {
+    if (!selection || !Number.isFinite(value)) return;
+    const min = field === 'width' || field === 'height' ? 1 : 0;
+    const clamped = Math.max(min, value);
+
+    if (selection.kind === 'powerUp') {
+      setCourse(current => ({
+        ...current,
+        powerUps: current.powerUps.map((powerUp, i) => i === selection.index ? { ...powerUp, [field]: clamped } : powerUp)
+      }));
+    } else if (selection.piece === null) {
+      updateObstacle(selection.index, obstacle => ({ ...obstacle, [field]: clamped }));
+    } else {
+      const piece = selection.piece;
+      updateObstacle(selection.index, obstacle => ({
+        ...obstacle,
+        stack: (obstacle.stack || []).map((p, i) => i === piece ? { ...p, [field]: clamped } : p)
+      }));
+    }
+  };
+
+  // Replace the course with one read from a file or pasted in
+  const importCourse = (data: string) => {
+    try {
+      const parsed = JSON.parse(data);
+      const errors = validateCourse(parsed);
+      if (errors.length > 0) {
+        setMessage(`That course could not be loaded: ${errors.slice(0, 3).join(', ')}`);
+        return;
+      }
+      const imported = parseCourse(parsed);
+      if (!imported) return;
+
+      setCourse(imported);
+      setSelection(null);
+      setScrollX(0);
+      setPlayhead(0);
+      setMessage(`Loaded "${imported.name}"`);
+    } catch (err) {
+      console.error('Error importing course:', err);
+      setMessage('That course could not be loaded: it is not valid JSON');
+    }
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      importCourse(await file.text());
+    } catch (err) {
+      console.error('Error reading course file:', err);
+    }
+  };
+
+  const pasteCourse = () => {
+    const data = window.prompt('Paste a course to load it:');
+    if (data) importCourse(data);
+  };
+
+  const downloadCourse = () => {
+    try {
+      const blob = new Blob([serializeCourse(course)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${course.name.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'course'}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading course:', err);
+    }
+  };
+
+  const copyCourse = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeCourse(course));
+      setMessage('Course copied to clipboard');
+    } catch (err) {
+      console.error('Error copying course to clipboard:', err);
+    }
+  };
+
+  const clearCourse = () => {
+    if (!window.confirm('Start a new course? The current one will be lost unless you exported it.')) return;
+    setCourse(createEmptyCourse());
+    setSelection(null);
+    setScrollX(0);
+    setPlayhead(0);
+  };
+
+  const exitPlaytest = useCallback(() => setPlaytestStart(null), []);
+
+  if (playtestStart !== null) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '12px', padding: '16px' }}>
+        <CoursePlaytest course={course} startAt={playtestStart} difficulty={difficulty} onExit={exitPlaytest} />
+        <button style={buttonStyle} onClick={exitPlaytest}>✏️ Back to editing (Esc)</button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', padding: '16px', color: 'white', maxWidth: `${VIEW_WIDTH + 32}px`, margin: '0 auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h1 style={{ fontSize: '22px', fontWeight: 'bold' }}>Course Editor</h1>
+        <a href="/" style={{ color: '#A78BFA', fontSize: '14px' }}>← Back to the game</a>
+      </div>
+
+      {/* Tools, snapping and test runs */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center' }}>
+        {TOOLS.map(item => (
+          <button key={item.tool} style={tool === item.tool ? activeButtonStyle : buttonStyle} onClick={() => setTool(item.tool)}>
+            {item.label}
+          </button>
+        ))}
+
+        <label style={{ fontSize: '13px', marginLeft: '8px' }}>
+          Snap{' '}
+          <select style={inputStyle} value={snap} onChange={e => setSnap(Number(e.target.value))}>
+            {SNAP_OPTIONS.map(option => (
+              <option key={option} value={option}>{option === 0 ? 'Off' : `${option}px`}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ fontSize: '13px' }}>
+          Difficulty{' '}
+          <select style={inputStyle} value={difficulty} onChange={e => setDifficulty(e.target.value as DifficultyPreset)}>
+            {DIFFICULTY_PRESETS.map(preset => (
+              <option key={preset} value={preset}>{DIFFICULTY_LABELS[preset]}</option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ flexGrow: 1 }} />
+        <button style={buttonStyle} onClick={() => setPlaytestStart(0)}>▶ Play from start</button>
+        <button style={activeButtonStyle} onClick={() => setPlaytestStart(playhead)}>▶ Play from {playhead}px</button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={VIEW_WIDTH}
+        height={VIEW_HEIGHT}
+        style={{ display: 'block', width: '100%', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.1)', cursor: tool === 'select' ? 'default' : 'crosshair' }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onWheel={handleWheel}
+      />
+
+      {/* Scroll along the course */}
+      <input
+        type="range"
+        min={0}
+        max={timelineLength}
+        value={scrollX}
+        onChange={e => setScrollX(Number(e.target.value))}
+        style={{ width: '100%' }}
+      />
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', fontSize: '13px' }}>
+        <input
+          style={inputStyle}
+          value={course.name}
+          onChange={e => setCourse(current => ({ ...current, name: e.target.value }))}
+          aria-label="Course name"
+        />
+        <span style={{ color: '#9CA3AF' }}>
+          {course.obstacles.length} obstacles, {course.powerUps.length} power-ups, {courseLength}px long
+        </span>
+        <div style={{ flexGrow: 1 }} />
+        <button style={buttonStyle} onClick={() => fileInputRef.current?.click()}>📂 Import</button>
+        <button style={buttonStyle} onClick={pasteCourse}>📋 Paste</button>
+        <button style={buttonStyle} onClick={downloadCourse}>💾 Export</button>
+        <button style={buttonStyle} onClick={copyCourse}>📋 Copy</button>
+        <button style={{ ...buttonStyle, backgroundColor: 'rgba(239, 68, 68, 0.85)' }} onClick={clearCourse}>🗑️ New</button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileImport} style={{ display: 'none' }} />
+      </div>
+
+      {unclearable.length > 0 && (
+        <div style={{ color: '#FCA5A5', fontSize: '13px' }}>
+          {unclearable.length} obstacle{unclearable.length === 1 ? '' : 's'} (outlined in red) can&apos;t be cleared at {DIFFICULTY_LABELS[difficulty]} cruising speed - too big to jump, or too close to the one before
+        </div>
+      )}
+
+      {message && <div style={{ color: '#A78BFA', fontSize: '13px' }}>{message}</div>}
+
+      {/* Size and position of the selected item */}
+      {selection && selected && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', fontSize: '13px', backgroundColor: 'rgba(30, 41, 59, 0.95)', padding: '10px', borderRadius: '8px' }}>
+          <strong style={{ textTransform: 'capitalize' }}>{selected.label}</strong>
+          {Object.entries(selected.fields).map(([field, value]) => (
+            <label key={field}>
+              {field}{' '}
+              <input
+                type="number"
+                style={{ ...inputStyle, width: '80px' }}
+                value={value}
+                onChange={e => updateSelectedField(field, Number(e.target.value))}
+              />
+            </label>
+          ))}
+          <button style={{ ...buttonStyle, backgroundColor: 'rgba(239, 68, 68, 0.85)' }} onClick={deleteSelection}>Delete</button>
+        </div>
+      )}
+
+      <div style={{ color: '#6B7280', fontSize: '12px' }}>
+        Click the ground to place the chosen obstacle, or an obstacle to stack on it. Drag things around with Select, Delete removes them.
+        Click the ruler to move the playhead, scroll with the mouse wheel or the arrow keys.
+      </div>
+    </div>
+  );
+};
+
+export default CourseEditor;
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import GameLoop from '../../core/GameLoop';
+import InputManager from '../../core/InputManager';
+import { SIMULATION_TIMESTEP, createPlayer, resetRun, stepSimulation } from '../../core/Simulation';
+import { DifficultyPreset, getDifficultyProfile } from '../../core/Difficulty';
+import ObstacleManager from '../../entities/ObstacleManager';
+import { Course } from '../../entities/Course';
+import PlayerRenderer from '../../render/PlayerRenderer';
+import ObstacleRenderer from '../../render/ObstacleRenderer';
+import { getPrimaryKeyLabel, loadKeyBindings } from '../../utils/keyBindings';
+
+interface CoursePlaytestProps {
+  course: Course;
+  startAt: number;  // Position along the course the run starts at (px)
+  difficulty: DifficultyPreset;
+  onExit: () => void;
+  width?: number;
+  height?: number;
+}
+
+// Plays a course from the editor - a bare game with no scores, replays or music, restarted from
+// the same spot after every crash or once the end of the course is reached
+const CoursePlaytest: React.FC<CoursePlaytestProps> = ({
+  course,
+  startAt,
+  difficulty,
+  onExit,
+  width = 1000,
+  height = 500
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Escape goes back to the editor
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onExit]);
+
+  // Set up the game engine
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) {
+      console.error('Failed to get playtest canvas context');
+      return;
+    }
+
+    const keyBindings = loadKeyBindings();
+    const inputManager = new InputManager(keyBindings);
+    const obstacleManager = new ObstacleManager(undefined, getDifficultyProfile(difficulty));
+    const player = createPlayer();
+    const playerRenderer = new PlayerRenderer();
+    const obstacleRenderer = new ObstacleRenderer();
+    const gameLoop = new GameLoop({ fps: 1000 / SIMULATION_TIMESTEP });
+
+    // Every attempt starts from the same spot on the course
+    let complete = false;
+    const beginRun = () => {
+      resetRun(player, obstacleManager);
+      obstacleManager.loadCourse(course, startAt);
+      complete = false;
+    };
+    beginRun();
+    inputManager.bindKeys();
+
+    gameLoop.setUpdateCallback((deltaTime: number) => {
+      try {
+        if (player.crashed || complete) {
+          if (inputManager.wasJustPressed('jump')) beginRun();
+        } else {
+          stepSimulation(player, obstacleManager, inputManager, Math.min(deltaTime, 100));
+          complete = !player.crashed && obstacleManager.isCourseComplete();
+        }
+        inputManager.update();
+      } catch (err) {
+        console.error('Error in CoursePlaytest update:', err);
+      }
+    });
+
+    gameLoop.setRenderCallback(() => {
+      try {
+        // Sky and ground
+        ctx.fillStyle = '#1E293B';
+        ctx.fillRect(0, 0, width, height);
+        ctx.fillStyle = '#374151';
+        ctx.fillRect(0, obstacleManager.groundY, width, height - obstacleManager.groundY);
+
+        obstacleRenderer.draw(ctx, obstacleManager);
+        playerRenderer.draw(ctx, player, obstacleManager.cameraOffset);
+        playerRenderer.drawHUD(ctx, player, width, height);
+
+        // Where along the course the player is
+        ctx.fillStyle = '#A78BFA';
+        ctx.font = '14px Arial';
+        ctx.textAlign = 'right';
+        ctx.fillText(`TEST RUN ${Math.round(obstacleManager.getCourseProgress())}px`, width - 10, 25);
+
+        if (player.crashed || complete) {
+          const title = complete ? 'Course complete!' : player.bailed ? 'Bailed!' : 'Crashed!';
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+          ctx.fillRect(width / 2 - 200, 150, 400, 120);
+          ctx.fillStyle = complete ? '#A78BFA' : 'white';
+          ctx.textAlign = 'center';
+          ctx.font = '28px Arial';
+          ctx.fillText(title, width / 2, 195);
+          ctx.fillStyle = 'white';
+          ctx.font = '16px Arial';
+          ctx.fillText(`Press ${getPrimaryKeyLabel(keyBindings, 'jump')} to try again, Esc to edit`, width / 2, 235);
+        }
+      } catch (err) {
+        console.error('Error in CoursePlaytest render:', err);
+      }
+    });
+
+    gameLoop.start();
+
+    return () => {
+      gameLoop.dispose();
+      inputManager.dispose();
+    };
+  }, [course, startAt, difficulty, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{ display: 'block', maxWidth: '100%', borderRadius: '8px', border: '1px solid rgba(255,255,255,0.1)' }}
+    />
+  );
+};
+
+export default CoursePlaytest;
@@ -2,17 +2,44 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import GameLoop from '../../core/GameLoop';
-import InputManager from '../../core/InputManager';
-import SoundManager from '../../core/SoundManager';
+import InputManager, { DEFAULT_KEY_BINDINGS, KeyBinding } from '../../core/InputManager';
+import GestureRecognizer from '../../core/GestureRecognizer';
+import InputRecorder, { InputRecording, parseRecording, serializeRecording } from '../../core/InputRecorder';
+import PlaybackInputManager from '../../core/PlaybackInputManager';
+import SoundManager, { AudioSettings, DEFAULT_AUDIO_SETTINGS } from '../../core/SoundManager';
 import Player from '../../entities/Player';
-import ObstacleManager, { CollisionResult } from '../../entities/ObstacleManager';
+import ObstacleManager from '../../entities/ObstacleManager';
+import { SIMULATION_TIMESTEP, createPlayer, resetRun, stepSimulation } from '../../core/Simulation';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_PRESETS,
+  DifficultyPreset,
+  getDifficultyProfile
+} from '../../core/Difficulty';
+import PlayerRenderer from '../../render/PlayerRenderer';
+import ObstacleRenderer from '../../render/ObstacleRenderer';
+import HitboxRenderer from '../../render/HitboxRenderer';
 import HighScores from './HighScores';
+import SettingsPanel from './SettingsPanel';
+import { loadAudioSettings, saveAudioSettings } from '../../utils/audioSettings';
+import { GameMode, getDailyKey, getDailySeed, loadDailyBest, saveDailyBest } from '../../utils/daily';
+import { loadDifficulty, saveDifficulty } from '../../utils/difficulty';
+import { getDeviceOrientation, isMobileDevice } from '../../utils/device';
+import {
+  formatActionKeys,
+  getPrimaryKeyLabel,
+  loadKeyBindings,
+  resetKeyBindings,
+  saveKeyBindings
+} from '../../utils/keyBindings';
 
 // Define game window properties
 interface GameProps {
   width?: number;
   height?: number;
   debug?: boolean;
+  seed?: number; // Fixed course seed - every run (and restart) replays the same course
 }
 
 declare global {
@@ -31,6 +58,9 @@ interface FloatingScore {
   maxLife: number;
 }
 
+// Game states - 'paused' freezes the run until it's resumed
+type GameState = 'playing' | 'crashed' | 'idle' | 'highScoreShown' | 'paused';
+
 // Background image type definitions
 interface BackgroundImages {
   sky: HTMLImageElement | null;
@@ -42,6 +72,7 @@ interface BackgroundImages {
 export const Canvas: React.FC<GameProps> = ({ 
   width = 1000, 
   height = 500,
+  seed,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [fps, setFps] = useState(0);
@@ -51,16 +82,55 @@ export const Canvas: React.FC<GameProps> = ({
   const [gameStarted, setGameStarted] = useState<boolean>(false);
   const [isGameOver, setIsGameOver] = useState(false);
   const [debug, setDebug] = useState<boolean>(false);
-  const [soundEnabled, setSoundEnabled] = useState<boolean>(true);
+  // Player's volumes and mute state - the ref lets the game engine read them without being rebuilt
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const audioSettingsRef = useRef<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const soundEnabled = !audioSettings.muted;
   const [isHighScoresOpen, setIsHighScoresOpen] = useState<boolean>(false);
   const [isMobile, setIsMobile] = useState<boolean>(false);
   const [modalCooldown, setModalCooldown] = useState<boolean>(false);
-  const [gameState, setGameState] = useState<'playing' | 'crashed' | 'idle' | 'highScoreShown'>('idle');
+  const [gameState, setGameState] = useState<GameState>('idle');
   const [deviceId, setDeviceId] = useState<string | null>(null);
   // Add state for orientation handling
   const [isPortrait, setIsPortrait] = useState<boolean>(false);
   const [showOrientationPrompt, setShowOrientationPrompt] = useState<boolean>(false);
-  const [touchControlsVisible, setTouchControlsVisible] = useState<boolean>(false);
+  // Daily Run state - everyone gets the same course for the UTC day
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  const [dailyKey, setDailyKey] = useState<string>(() => getDailyKey());
+  // Difficulty preset new runs are played at (scores go on that difficulty's leaderboard)
+  const [difficulty, setDifficulty] = useState<DifficultyPreset>(DEFAULT_DIFFICULTY);
+  // Replay state - when set, the game plays back this recording instead of reading the keyboard
+  const [replayRecording, setReplayRecording] = useState<InputRecording | null>(null);
+  const [hasRecording, setHasRecording] = useState<boolean>(false);
+  // Settings panel (opened from the pause menu or the footer)
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  // Player's key bindings - the ref lets the game engine read them without being rebuilt
+  const [keyBindings, setKeyBindings] = useState<KeyBinding[]>(DEFAULT_KEY_BINDINGS);
+  const keyBindingsRef = useRef<KeyBinding[]>(DEFAULT_KEY_BINDINGS);
+  const isSettingsOpenRef = useRef<boolean>(false);
+  // Whether a controller is connected (shows the controller glyphs on the start screen)
+  const [gamepadConnected, setGamepadConnected] = useState<boolean>(false);
+  
+  // On-screen buttons are shown during a run on a touch device held sideways - the ref lets the
+  // game engine read it without being rebuilt
+  const touchControlsVisible = isMobile && gameStarted && !showOrientationPrompt;
+  const touchControlsVisibleRef = useRef<boolean>(false);
+  
+  // Collision shape overlay, toggled with the ` key (always on in debug mode)
+  const showHitboxesRef = useRef<boolean>(false);
+  
+  // Element the game is drawn in (touch buttons are added to it) and the footer bar below it
+  const gameContainerRef = useRef<HTMLDivElement>(null);
+  const footerRef = useRef<HTMLDivElement>(null);
+  
+  // Replays run on the course they were recorded on, daily runs use the shared course of the day,
+  // classic runs use the seed prop (random if unset)
+  const courseSeed = replayRecording
+    ? replayRecording.seed
+    : gameMode === 'daily' ? getDailySeed(new Date(dailyKey)) : seed;
+  
+  // Replays run at the difficulty they were recorded at
+  const courseDifficulty = replayRecording ? replayRecording.difficulty : difficulty;
   
   // Background image references
   const backgroundImagesRef = useRef<BackgroundImages>({
@@ -227,18 +297,43 @@ export const Canvas: React.FC<GameProps> = ({
     console.log('isHighScoresOpen state changed:', isHighScoresOpen);
   }, [isHighScoresOpen]);
   
+  // Keys pressed in the settings must not start or restart a run
+  useEffect(() => {
+    isSettingsOpenRef.current = isSettingsOpen;
+  }, [isSettingsOpen]);
+  
   // Add high score ref to track the latest value
   const highScoreRef = useRef<number>(0);
   
+  // Best Daily Run score of the day on this device
+  const dailyBestRef = useRef<number>(0);
+  
   // References to game objects
   const gameLoopRef = useRef<GameLoop | null>(null);
   const playerRef = useRef<Player | null>(null);
   const inputManagerRef = useRef<InputManager | null>(null);
+  const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
   const obstacleManagerRef = useRef<ObstacleManager | null>(null);
   const cameraOffsetRef = useRef<number>(0);
   const floatingScoresRef = useRef<FloatingScore[]>([]);
   const soundManagerRef = useRef<SoundManager | null>(null);
   
+  // Input recording of the current run and the last finished one
+  const inputRecorderRef = useRef<InputRecorder>(new InputRecorder());
+  const lastRecordingRef = useRef<InputRecording | null>(null);
+  
+  // Resets the player, course and recording for a new run (set up by the game engine effect)
+  const beginRunRef = useRef<(() => void) | null>(null);
+  
+  // Pending timers that outlive a single render - cleared on unmount so nothing fires into a dead game
+  const musicTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const highScoreModalTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Pause tracking - a ref so the game engine sees it without being rebuilt,
+  // plus the game state to go back to on resume
+  const isPausedRef = useRef<boolean>(false);
+  const stateBeforePauseRef = useRef<GameState>('idle');
+  
   // Load high score from localStorage on component mount
   useEffect(() => {
     try {
@@ -253,6 +348,19 @@ export const Canvas: React.FC<GameProps> = ({
         console.log(`[Initial Load] No saved high sats found, using default:`, highScore);
       }
       
+      // Load the player's key bindings before the game engine creates its input manager
+      const savedKeyBindings = loadKeyBindings();
+      keyBindingsRef.current = savedKeyBindings;
+      setKeyBindings(savedKeyBindings);
+      
+      // Same for the audio settings and the sound manager
+      const savedAudioSettings = loadAudioSettings();
+      audioSettingsRef.current = savedAudioSettings;
+      setAudioSettings(savedAudioSettings);
+      
+      // And the difficulty the course is generated at
+      setDifficulty(loadDifficulty());
+      
       // Also load device ID if available
       const savedDeviceId = localStorage.getItem('skatewithbitcoinDeviceId');
       if (savedDeviceId) {
@@ -265,8 +373,8 @@ export const Canvas: React.FC<GameProps> = ({
   
   // Update high score when player's sats changes and manage leaderboard opening
   useEffect(() => {
-    // Only proceed if player reference exists
-    if (!playerRef.current) return;
+    // Only proceed if player reference exists (replays never count towards high scores)
+    if (!playerRef.current || replayRecording) return;
     
     const playerSats = playerRef.current.sats;
     
@@ -292,11 +400,20 @@ export const Canvas: React.FC<GameProps> = ({
       console.log('Player crashed with sats:', playerSats);
       setGameState('crashed');
       
+      // Daily runs compete against today's best instead of the all-time high score
+      const isNewDailyBest = gameMode === 'daily' && playerSats > dailyBestRef.current;
+      if (isNewDailyBest) {
+        dailyBestRef.current = playerSats;
+        saveDailyBest(dailyKey, playerSats);
+      }
+      
       // Only show high scores if this is a new/equal high score
-      if (playerSats > 0 && playerSats >= highScore) {
+      if (playerSats > 0 && (playerSats >= highScore || isNewDailyBest)) {
         console.log('Will show high scores due to new high sats');
         // Delay showing high scores to ensure game over screen is shown first
-        setTimeout(() => {
+        if (highScoreModalTimeoutRef.current) clearTimeout(highScoreModalTimeoutRef.current);
+        highScoreModalTimeoutRef.current = setTimeout(() => {
+          highScoreModalTimeoutRef.current = null;
           if (!isHighScoresOpen && !modalCooldown) {
             console.log('Opening high score modal after crash');
             setIsHighScoresOpen(true);
@@ -305,7 +422,7 @@ export const Canvas: React.FC<GameProps> = ({
         }, 1500);
       }
     }
-  }, [playerRef.current?.sats, playerRef.current?.crashed, highScore, isHighScoresOpen, modalCooldown, gameState]);
+  }, [playerRef.current?.sats, playerRef.current?.crashed, highScore, isHighScoresOpen, modalCooldown, gameState, gameMode, dailyKey, replayRecording]);
   
   // Add an effect to handle the modal cooldown
   useEffect(() => {
@@ -320,10 +437,70 @@ export const Canvas: React.FC<GameProps> = ({
     }
   }, [isHighScoresOpen, modalCooldown]);
   
+  // Apply rebound keys to the running game and remember them
+  const handleKeyBindingsChange = useCallback((bindings: KeyBinding[]) => {
+    keyBindingsRef.current = bindings;
+    setKeyBindings(bindings);
+    saveKeyBindings(bindings);
+    inputManagerRef.current?.setKeyBindings(bindings);
+  }, []);
+  
+  // Apply and save new volumes or mute state
+  const handleAudioSettingsChange = useCallback((settings: AudioSettings) => {
+    audioSettingsRef.current = settings;
+    setAudioSettings(settings);
+    saveAudioSettings(settings);
+    soundManagerRef.current?.applySettings(settings);
+  }, []);
+
+  // Switch to the next difficulty preset - the engine rebuilds the course at the new difficulty
+  const cycleDifficulty = useCallback(() => {
+    const next = DIFFICULTY_PRESETS[(DIFFICULTY_PRESETS.indexOf(difficulty) + 1) % DIFFICULTY_PRESETS.length];
+    console.log(`Difficulty changed to ${next}`);
+    setDifficulty(next);
+    saveDifficulty(next);
+  }, [difficulty]);
+  
+  // Go back to the default controls
+  const handleResetKeyBindings = useCallback(() => {
+    const bindings = resetKeyBindings();
+    keyBindingsRef.current = bindings;
+    setKeyBindings(bindings);
+    inputManagerRef.current?.setKeyBindings(bindings);
+    console.log('Key bindings reset to defaults');
+  }, []);
+  
+  // Start the background music after a short delay (gives the audio context time to get ready)
+  // Only the latest request counts, so overlapping starts don't play the music twice
+  const scheduleMusic = useCallback((delay: number) => {
+    if (musicTimeoutRef.current) clearTimeout(musicTimeoutRef.current);
+    musicTimeoutRef.current = setTimeout(() => {
+      musicTimeoutRef.current = null;
+      soundManagerRef.current?.play('music');
+    }, delay);
+  }, []);
+  
+  // Clear pending timers when the game unmounts
+  useEffect(() => {
+    return () => {
+      if (musicTimeoutRef.current) clearTimeout(musicTimeoutRef.current);
+      if (highScoreModalTimeoutRef.current) clearTimeout(highScoreModalTimeoutRef.current);
+    };
+  }, []);
+  
   // Function to start the game (exposed to UI)
-  const handleStartGame = useCallback(() => {
+  const handleStartGame = useCallback((mode: GameMode = 'classic') => {
     try {
-      console.log('Start button clicked');
+      console.log(`Start button clicked (${mode} mode)`);
+      
+      // Pick up the course of the current UTC day for Daily Runs
+      if (mode === 'daily') {
+        const today = getDailyKey();
+        setDailyKey(today);
+        dailyBestRef.current = loadDailyBest(today);
+      }
+      setGameMode(mode);
+      
       if (playerRef.current && obstacleManagerRef.current) {
         console.log('Starting game from button');
         playerRef.current.state = 'skating';
@@ -337,16 +514,17 @@ export const Canvas: React.FC<GameProps> = ({
         if (soundManagerRef.current && soundEnabled) {
           console.log('Playing background music from start button');
           soundManagerRef.current.stop('music'); // Stop any existing music first to ensure clean start
-          setTimeout(() => soundManagerRef.current?.play('music'), 100); // Small delay to ensure audio context is ready
+          scheduleMusic(100); // Small delay to ensure audio context is ready
         }
         
         // We do this last to ensure all game objects are ready
         setGameStarted(true);
+        setGameState('playing');
       }
     } catch (err) {
       console.error('Error in handleStartGame:', err);
     }
-  }, [debug, soundEnabled]);
+  }, [debug, soundEnabled, scheduleMusic]);
   
   // Handle high score submission - enhanced to ensure callback is passed correctly
   const handleHighScoreSubmit = (name: string) => {
@@ -384,6 +562,14 @@ export const Canvas: React.FC<GameProps> = ({
           // Always show high scores on restart if it's a high score
           if (playerRef.current.sats > 0 && !isHighScoresOpen && !modalCooldown) {
             console.log('[Manual Restart] Showing high scores modal');
+            
+            // End the run here so the replay submitted with the score matches it
+            const recording = inputRecorderRef.current.stop(playerRef.current.sats);
+            if (recording) {
+              lastRecordingRef.current = recording;
+              setHasRecording(true);
+            }
+            
             setIsHighScoresOpen(true);
             return; // Exit early - we'll restart when modal is closed
           }
@@ -391,15 +577,9 @@ export const Canvas: React.FC<GameProps> = ({
         
         // Reset all game state except high score
         setScore(0);
-        floatingScoresRef.current = []; // Clear all floating score indicators
-        
-        // Reset player position and state
-        playerRef.current.reset(100, 300);
-        playerRef.current.state = 'skating';
         
-        // Clear and reset obstacles
-        obstacleManagerRef.current.reset();
-        cameraOffsetRef.current = 0;
+        // Reset player, obstacles and input recording
+        beginRunRef.current?.();
         
         // Re-enable game
         setGameStarted(true);
@@ -413,6 +593,56 @@ export const Canvas: React.FC<GameProps> = ({
     }
   }, [highScore, isHighScoresOpen, modalCooldown]);
   
+  // Watch a recorded run - the game engine is rebuilt around a playback input manager
+  const startReplay = useCallback((recording: InputRecording) => {
+    console.log(`Starting replay of ${recording.frames.length} frames on seed ${recording.seed}`);
+    setScore(0);
+    setGameState('idle'); // Replays never open the high score modal
+    setReplayRecording(recording);
+    setGameStarted(true);
+  }, []);
+  
+  // Leave replay mode and go back to the start screen
+  const exitReplay = useCallback(() => {
+    console.log('Exiting replay');
+    setScore(0);
+    setReplayRecording(null);
+    setGameStarted(false);
+  }, []);
+  
+  // Copy the last finished run to the clipboard so it can be shared
+  const copyLastRecording = useCallback(async () => {
+    if (!lastRecordingRef.current) return;
+    
+    try {
+      await navigator.clipboard.writeText(serializeRecording(lastRecordingRef.current));
+      console.log('Replay copied to clipboard');
+    } catch (err) {
+      console.error('Error copying replay to clipboard:', err);
+    }
+  }, []);
+  
+  // Load a shared run pasted by the player and watch it
+  const loadRecording = useCallback(() => {
+    const data = window.prompt('Paste a replay to watch it:');
+    if (!data) return;
+    
+    const recording = parseRecording(data);
+    if (!recording) {
+      window.alert('That replay could not be read.');
+      return;
+    }
+    
+    startReplay(recording);
+  }, [startReplay]);
+  
+  // Show or hide the touch buttons - declared before the engine effect so a rebuilt engine sees the latest value
+  useEffect(() => {
+    touchControlsVisibleRef.current = touchControlsVisible;
+    inputManagerRef.current?.setTouchControlsVisible(touchControlsVisible);
+    gestureRecognizerRef.current?.setEnabled(touchControlsVisible);
+  }, [touchControlsVisible]);
+  
   // Set up game engine
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -468,14 +698,16 @@ export const Canvas: React.FC<GameProps> = ({
           
           ctx.fillText('Skate with Bitcoin', canvas.width / 2, 150);
           
+          const bindings = keyBindingsRef.current;
+          
           ctx.font = '18px Arial';
-          ctx.fillText('Press SPACE to start', canvas.width / 2, 220);
+          ctx.fillText(`Press ${getPrimaryKeyLabel(bindings, 'jump')} to start`, canvas.width / 2, 220);
           
           ctx.font = '14px Arial';
-          ctx.fillText('SPACE/UP = Jump', canvas.width / 2, 280);
-          ctx.fillText('LEFT = Slow down', canvas.width / 2, 305);
-          ctx.fillText('RIGHT = Speed up', canvas.width / 2, 330);
-          ctx.fillText('ANY KEY (except SPACE) = Use power-up (when available)', canvas.width / 2, 355);
+          ctx.fillText(`${formatActionKeys(bindings, 'jump')} = Jump`, canvas.width / 2, 280);
+          ctx.fillText(`${formatActionKeys(bindings, 'left')} = Slow down`, canvas.width / 2, 305);
+          ctx.fillText(`${formatActionKeys(bindings, 'right')} = Speed up`, canvas.width / 2, 330);
+          ctx.fillText('ANY KEY (except jump) = Use power-up (when available)', canvas.width / 2, 355);
         } catch (err) {
           console.error('Error in drawLoadingScreen:', err);
         }
@@ -484,54 +716,103 @@ export const Canvas: React.FC<GameProps> = ({
       drawLoadingScreen();
       
       // Create sound manager
-      const soundManager = new SoundManager();
+      const soundManager = new SoundManager(audioSettingsRef.current);
       soundManagerRef.current = soundManager;
       console.log('Sound manager created');
       
-      // Create game components
-      const inputManager = new InputManager();
+      // Create game components - replays read input from the recording instead of the keyboard
+      const isReplay = replayRecording !== null;
+      const inputManager: InputManager = replayRecording
+        ? new PlaybackInputManager(replayRecording)
+        : new InputManager(keyBindingsRef.current);
       inputManagerRef.current = inputManager;
       console.log('Input manager created');
       
       // Create obstacle manager
-      const obstacleManager = new ObstacleManager();
+      const obstacleManager = new ObstacleManager(courseSeed, getDifficultyProfile(courseDifficulty));
       obstacleManagerRef.current = obstacleManager;
       console.log('Obstacle manager created');
       
       // Create player with appropriate jump height
       console.log('Setting up player');
-      const player = new Player({
-        x: 100,
-        y: 300, // Adjusted from 330 to align better with the ground level at 400
-        width: 50,
-        height: 100,
-        speed: 100, // Reduced from 200 to 100 for a slower start
-        jumpForce: 500,
-        gravity: 1200
-      });
-      
-      player.debug = debug;
+      const player = createPlayer();
       playerRef.current = player;
       console.log('Player created');
       
+      // Create renderers - the game objects above only hold simulation state
+      const playerRenderer = new PlayerRenderer();
+      playerRenderer.debug = debug;
+      const obstacleRenderer = new ObstacleRenderer();
+      const hitboxRenderer = new HitboxRenderer();
+      console.log('Renderers created');
+      
       // Set up input bindings
       inputManager.bindKeys();
       console.log('Input keys bound');
       
-      if (window.matchMedia('(max-width: 768px)').matches && document.body) {
-        inputManager.bindTouchControls(document.body);
+      // Controllers can be plugged in or unplugged at any time
+      inputManager.setGamepadChangeCallback(setGamepadConnected);
+      inputManager.bindGamepads();
+      setGamepadConnected(inputManager.isGamepadConnected());
+      
+      // On-screen buttons for touch screens (hidden unless the game is played on one)
+      if (gameContainerRef.current) {
+        inputManager.setTouchControlsVisible(touchControlsVisibleRef.current);
+        inputManager.bindTouchControls(gameContainerRef.current);
         console.log('Touch controls bound');
       }
       
-      // Create game loop
+      // Taps and swipes anywhere on the game work as well as the buttons (replays don't read touches)
+      const gestureRecognizer = !isReplay && gameContainerRef.current ? new GestureRecognizer(inputManager) : null;
+      if (gestureRecognizer && gameContainerRef.current) {
+        gestureRecognizer.setEnabled(touchControlsVisibleRef.current);
+        gestureRecognizer.bind(gameContainerRef.current);
+      }
+      gestureRecognizerRef.current = gestureRecognizer;
+      
+      // Create game loop (replays run at the timestep they were recorded with)
       const gameLoop = new GameLoop({
-        fps: 60,
+        fps: 1000 / (replayRecording ? replayRecording.timestep : SIMULATION_TIMESTEP),
         debug: debug
       });
       
       gameLoopRef.current = gameLoop;
       console.log('Game loop created');
       
+      // A run started from the pause menu stays frozen until it's resumed
+      if (isPausedRef.current) {
+        gameLoop.pause();
+      }
+      
+      // Put the player and course back to their starting state - every run (and replay)
+      // starts from exactly the same state so recordings play back frame-for-frame
+      const beginRun = () => {
+        try {
+          floatingScoresRef.current = []; // Clear all floating score indicators
+          
+          resetRun(player, obstacleManager, courseSeed);
+          cameraOffsetRef.current = 0;
+          
+          // Music back to full volume and starting tempo (it was ducked if the last run crashed)
+          soundManager.restoreMusic();
+          soundManager.setMusicIntensity(0);
+          
+          if (inputManager instanceof PlaybackInputManager) {
+            inputManager.rewind();
+          } else {
+            inputRecorderRef.current.start(obstacleManager.getSeed(), gameLoop.getTimestep(), courseDifficulty);
+          }
+        } catch (err) {
+          console.error('Error in beginRun:', err);
+        }
+      };
+      beginRunRef.current = beginRun;
+      
+      // The engine is rebuilt whenever a run starts, so start it from a clean state
+      if (gameStarted) {
+        beginRun();
+      }
+      
       // Debug check for localStorage and high score
       console.log('[Debug] Current high score state:', highScore);
       console.log('[Debug] localStorage high score:', localStorage.getItem('skatewithbitcoinHighScore'));
@@ -557,7 +838,7 @@ export const Canvas: React.FC<GameProps> = ({
             if (soundManagerRef.current && soundEnabled) {
               console.log('Playing background music from spacebar start');
               soundManagerRef.current.stop('music'); // Stop any existing music first
-              setTimeout(() => soundManagerRef.current?.play('music'), 100); // Small delay to ensure audio context is ready
+              scheduleMusic(100); // Small delay to ensure audio context is ready
             }
             
             setGameStarted(true);
@@ -573,7 +854,7 @@ export const Canvas: React.FC<GameProps> = ({
           console.log('[Restart] restartGame function called');
           if (player) {
             // Check if current score is a new high score before resetting
-            if (player.sats > highScoreRef.current) {
+            if (!isReplay && player.sats > highScoreRef.current) {
               console.log(`[Restart] Saving new high sats before restart: ${player.sats} > ${highScoreRef.current}`);
               setHighScore(player.sats);
               highScoreRef.current = player.sats;
@@ -582,19 +863,9 @@ export const Canvas: React.FC<GameProps> = ({
             
             // Reset all game state except high score
             setScore(0);
-            floatingScoresRef.current = []; // Clear all floating score indicators
-            
-            // Reset player position and state
-            player.reset(100, 300); // Adjusted from 330 to align better with the ground level at 400
-            player.state = 'skating';
             
-            // Clear and reset obstacles
-            obstacleManager.reset();
-            
-            // Explicitly reset the powerup system for reliable respawning
-            obstacleManager.resetPowerUpSystem();
-            
-            cameraOffsetRef.current = 0;
+            // Reset player, obstacles and input recording (or rewind the replay)
+            beginRun();
             
             // Resume background music if sound is enabled
             if (soundManagerRef.current && soundEnabled) {
@@ -611,6 +882,26 @@ export const Canvas: React.FC<GameProps> = ({
         }
       };
       
+      // Start the game, or restart it after a crash, from a jump key or button
+      const handleStartInput = () => {
+        console.log('Start/jump input detected, gameStarted:', gameStarted, 'crashed:', player.crashed);
+        
+        // Prevent multiple rapid restarts
+        const now = Date.now();
+        const lastRestartTime = player._lastRestartTime || 0;
+        const cooldownPeriod = 1000; // 1 second cooldown
+        
+        // Only start if not already started
+        if (!gameStarted) {
+          startGame();
+        } 
+        // Only restart if crashed AND cooldown period has passed
+        else if (player.crashed && (now - lastRestartTime > cooldownPeriod)) {
+          player._lastRestartTime = now; // Store timestamp for cooldown
+          restartGame();
+        }
+      };
+      
       // Listen for game start
       const checkForGameStart = (e: KeyboardEvent) => {
         try {
@@ -621,27 +912,15 @@ export const Canvas: React.FC<GameProps> = ({
             return;
           }
           
+          // The settings panel is open on top of the game
+          if (isSettingsOpenRef.current) return;
+          
           console.log('Key pressed:', e.code);
-          if ((e.code === 'Space' || e.code === 'KeyW' || e.code === 'ArrowUp')) {
+          if (keyBindingsRef.current.some(binding => binding.action === 'jump' && binding.code === e.code)) {
             // Prevent default browser behavior (scrolling with space)
             e.preventDefault();
             
-            console.log('Start/jump key detected, gameStarted:', gameStarted, 'crashed:', player.crashed);
-            
-            // Prevent multiple rapid restarts
-            const now = Date.now();
-            const lastRestartTime = player._lastRestartTime || 0;
-            const cooldownPeriod = 1000; // 1 second cooldown
-            
-            // Only start if not already started
-            if (!gameStarted) {
-              startGame();
-            } 
-            // Only restart if crashed AND cooldown period has passed
-            else if (player.crashed && (now - lastRestartTime > cooldownPeriod)) {
-              player._lastRestartTime = now; // Store timestamp for cooldown
-              restartGame();
-            }
+            handleStartInput();
           }
         } catch (err) {
           console.error('Error in checkForGameStart:', err);
@@ -654,20 +933,32 @@ export const Canvas: React.FC<GameProps> = ({
       // Update function
       gameLoop.setUpdateCallback((deltaTime: number) => {
         try {
-          // Skip updates if game hasn't started
-          if (!gameStarted) return;
+          // Skip updates if game hasn't started - but keep reading controllers and touch buttons so they can start it
+          if (!gameStarted) {
+            inputManager.update();
+            if ((inputManager.wasGamepadJustPressed('jump') || inputManager.wasTouchJustPressed('jump')) && !isSettingsOpenRef.current) {
+              handleStartInput();
+            }
+            return;
+          }
           
           // Limit maximum delta time to prevent physics glitches
           const cappedDeltaTime = Math.min(deltaTime, 100);
           
+          // Record this tick's input before anything reads it
+          if (!player.crashed) {
+            inputRecorderRef.current.capture(inputManager);
+          }
+          
           // Check if player just jumped (to play sound)
           const wasJumping = player.state === 'jumping';
           
           // Track trick state before update
           const wasTrickActive = player.currentTrick !== 'none';
+          const tricksLandedBefore = player.tricksLanded;
           
-          // Update player
-          player.update(cappedDeltaTime, inputManager);
+          // Advance the simulation one tick (the server re-runs the same steps to verify scores)
+          const collisionResult = stepSimulation(player, obstacleManager, inputManager, cappedDeltaTime);
           
           // Play jump sound if player just started jumping
           if (player.state === 'jumping' && !wasJumping && soundManagerRef.current) {
@@ -680,72 +971,81 @@ export const Canvas: React.FC<GameProps> = ({
             console.log('Playing trick sound for:', player.currentTrick);
           }
           
+          // Sting when a trick is played out to the end
+          if (player.tricksLanded > tricksLandedBefore && !player.crashed) {
+            soundManagerRef.current?.playSting();
+          }
+          
+          // The music speeds up with the game
+          soundManagerRef.current?.setMusicIntensity(obstacleManager.getSpeedProgress());
+          
           // Update camera to follow player
           cameraOffsetRef.current = Math.max(0, player.x - 100);
           
-          // Update obstacles and check for collisions
-          if (!player.crashed) {
-            const collisionResult = obstacleManager.update(cappedDeltaTime, player);
+          // Handle collisions
+          if (collisionResult.type === 'crash') {
+            console.log(player.bailed ? 'Player bailed a trick' : 'Player crashed into obstacle');
             
-            // Handle collisions
-            if (collisionResult.type === 'crash') {
-              // Ensure we don't double-crash or crash during special states
-              if (!player.crashed) {
-                console.log('Player crashed into obstacle');
-                player.crash();
-                
-                // Play crash sound and pause background music
-                if (soundManagerRef.current) {
-                  soundManagerRef.current.play('crash');
-                  soundManagerRef.current.pause('music');
-                }
+            // The run is over - keep its recording so it can be watched or shared
+            const recording = inputRecorderRef.current.stop(player.sats);
+            if (recording) {
+              lastRecordingRef.current = recording;
+              setHasRecording(true);
+            }
+            
+            // Play crash sound and pull the background music down until the next run
+            if (soundManagerRef.current) {
+              soundManagerRef.current.play('crash');
+              soundManagerRef.current.duckMusic();
+            }
+          } else if (collisionResult.type === 'grind') {
+            // Landed on a rail
+            soundManagerRef.current?.play('trick');
+          } else if (collisionResult.type === 'sats') {
+            if (collisionResult.points) {
+              const satsToAdd = collisionResult.points;
+              // Play score sound
+              if (soundManagerRef.current) {
+                soundManagerRef.current.play('score');
               }
-            } else if (collisionResult.type === 'sats') {
-              if (collisionResult.points) {
-                const satsToAdd = collisionResult.points;
-                // Play score sound
-                if (soundManagerRef.current) {
-                  soundManagerRef.current.play('score');
-                }
+              
+              // Update the component's score state to stay in sync with player.sats
+              setScore(player.sats);
+              
+              // Update high score if needed (replays never count)
+              if (!isReplay && player.sats > highScoreRef.current) {
+                console.log(`[Sats Update] New high sats! ${player.sats} > ${highScoreRef.current}`);
                 
-                // Update the component's score state to stay in sync with player.sats
-                setScore(player.sats);
+                // Update high score state
+                const newHighSats = player.sats;
+                setHighScore(newHighSats);
+                highScoreRef.current = newHighSats;
                 
-                // Update high score if needed
-                if (player.sats > highScoreRef.current) {
-                  console.log(`[Sats Update] New high sats! ${player.sats} > ${highScoreRef.current}`);
-                  
-                  // Update high score state
-                  const newHighSats = player.sats;
-                  setHighScore(newHighSats);
-                  highScoreRef.current = newHighSats;
-                  
-                  // Store in localStorage
-                  try {
-                    localStorage.setItem('skatewithbitcoinHighScore', newHighSats.toString());
-                    console.log(`[Sats Update] High sats saved to localStorage: ${newHighSats}`);
-                  } catch (err) {
-                    console.error('[Sats Update] Error saving high sats to localStorage:', err);
-                  }
-                } else {
-                  console.log(`[Sats Update] Sats updated (${player.sats}), but not higher than high score (${highScoreRef.current})`);
+                // Store in localStorage
+                try {
+                  localStorage.setItem('skatewithbitcoinHighScore', newHighSats.toString());
+                  console.log(`[Sats Update] High sats saved to localStorage: ${newHighSats}`);
+                } catch (err) {
+                  console.error('[Sats Update] Error saving high sats to localStorage:', err);
                 }
+              } else {
+                console.log(`[Sats Update] Sats updated (${player.sats}), but not higher than high score (${highScoreRef.current})`);
+              }
+              
+              // Show a floating score indicator
+              if (collisionResult.obstacle) {
+                const obstacle = collisionResult.obstacle;
+                console.log(`Earned ${satsToAdd} sats for passing obstacle at ${obstacle.x}`);
                 
-                // Show a floating score indicator
-                if (collisionResult.obstacle) {
-                  const obstacle = collisionResult.obstacle;
-                  console.log(`Earned ${satsToAdd} sats for passing obstacle at ${obstacle.x}`);
-                  
-                  // Create floating score indicator
-                  floatingScoresRef.current.push({
-                    value: satsToAdd,
-                    x: obstacle.x + obstacle.width / 2,
-                    y: obstacle.y - 20,
-                    color: '#FFFFFF', // Always white now that sats are always 1
-                    life: 1500, // ms
-                    maxLife: 1500
-                  });
-                }
+                // Create floating score indicator
+                floatingScoresRef.current.push({
+                  value: satsToAdd,
+                  x: obstacle.x + obstacle.width / 2,
+                  y: obstacle.y - 20,
+                  color: '#FFFFFF', // Always white now that sats are always 1
+                  life: 1500, // ms
+                  maxLife: 1500
+                });
               }
             }
           }
@@ -766,6 +1066,11 @@ export const Canvas: React.FC<GameProps> = ({
           
           // Update input manager
           inputManager.update();
+          
+          // Controllers and touch screens restart after a crash with the jump button (the keyboard is handled by checkForGameStart)
+          if (player.crashed && (inputManager.wasGamepadJustPressed('jump') || inputManager.wasTouchJustPressed('jump'))) {
+            handleStartInput();
+          }
         } catch (err) {
           console.error('Error in update callback:', err);
         }
@@ -897,7 +1202,7 @@ export const Canvas: React.FC<GameProps> = ({
           }
           
           // Draw obstacles
-          obstacleManager.draw(ctx);
+          obstacleRenderer.draw(ctx, obstacleManager);
           
           // Draw player with camera offset and tilt based on acceleration
           // Modify the player draw call to include tilt
@@ -925,7 +1230,7 @@ export const Canvas: React.FC<GameProps> = ({
             ctx.translate(-(playerScreenX + player.width / 2), -(playerScreenY + player.height / 2));
             
             // Draw player
-            player.draw(ctx, cameraOffsetRef.current);
+            playerRenderer.draw(ctx, player, cameraOffsetRef.current);
             
             // Restore context to original state
             ctx.restore();
@@ -951,7 +1256,12 @@ export const Canvas: React.FC<GameProps> = ({
             }
           } else {
             // Original player draw if the modified drawing fails
-            player.draw(ctx, cameraOffsetRef.current);
+            playerRenderer.draw(ctx, player, cameraOffsetRef.current);
+          }
+          
+          // Outline the collision shapes
+          if (showHitboxesRef.current || debug) {
+            hitboxRenderer.draw(ctx, player, obstacleManager, cameraOffsetRef.current);
           }
           
           // Draw floating score indicators
@@ -971,7 +1281,7 @@ export const Canvas: React.FC<GameProps> = ({
           });
           
           // Draw HUD
-          player.drawHUD(ctx, canvas.width, canvas.height);
+          playerRenderer.drawHUD(ctx, player, canvas.width, canvas.height);
           
           // Draw high score in top right (more visible now)
           ctx.fillStyle = 'white';
@@ -979,6 +1289,24 @@ export const Canvas: React.FC<GameProps> = ({
           ctx.textAlign = 'right';
           ctx.fillText(`MAX SATS: ${highScoreRef.current}`, canvas.width - 10, 25);
           
+          // Label replays with their playback progress
+          if (inputManager instanceof PlaybackInputManager) {
+            const [frame, totalFrames] = inputManager.getProgress();
+            ctx.fillStyle = '#F87171';
+            ctx.font = '14px Arial';
+            ctx.fillText(`REPLAY ${frame}/${totalFrames}`, canvas.width - 10, 45);
+          } else if (gameMode === 'daily') {
+            // Label Daily Runs so players know they're on the shared course
+            ctx.fillStyle = '#FBBF24';
+            ctx.font = '14px Arial';
+            ctx.fillText(`DAILY RUN ${dailyKey} · ${DIFFICULTY_LABELS[courseDifficulty].toUpperCase()} · BEST: ${dailyBestRef.current}`, canvas.width - 10, 45);
+          } else if (courseDifficulty !== DEFAULT_DIFFICULTY) {
+            // Label runs that aren't on the standard difficulty
+            ctx.fillStyle = '#A78BFA';
+            ctx.font = '14px Arial';
+            ctx.fillText(`${DIFFICULTY_LABELS[courseDifficulty].toUpperCase()} DIFFICULTY`, canvas.width - 10, 45);
+          }
+          
           // Draw game over text
           if (player.crashed) {
             // Semi-transparent overlay
@@ -997,7 +1325,7 @@ export const Canvas: React.FC<GameProps> = ({
             ctx.fillStyle = 'white';
             ctx.font = '32px Arial';
             ctx.textAlign = 'center';
-            ctx.fillText('Game Over', canvas.width / 2, 150);
+            ctx.fillText(player.bailed ? 'Bailed!' : 'Game Over', canvas.width / 2, 150);
             
             // Final score with large prominent display
             ctx.font = '48px Arial';
@@ -1009,7 +1337,7 @@ export const Canvas: React.FC<GameProps> = ({
             ctx.fillText(`Max Sats: ${highScoreRef.current}`, canvas.width / 2, 250);
             
             // New high score indicator
-            if (player.sats >= highScoreRef.current) {
+            if (!isReplay && player.sats >= highScoreRef.current) {
               console.log(`[Game Over] Showing new high sats message: ${player.sats} >= ${highScoreRef.current}`);
               ctx.fillStyle = '#FFD700'; // Gold color
               ctx.font = '24px Arial';
@@ -1021,11 +1349,13 @@ export const Canvas: React.FC<GameProps> = ({
             ctx.font = '18px Arial';
             
             // Show different instructions for mobile vs desktop
-            const isMobileDetected = window.innerWidth <= 768 || /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-            if (isMobileDetected) {
-              ctx.fillText('Tap the restart button below', canvas.width / 2, 320);
+            const jumpKey = getPrimaryKeyLabel(keyBindingsRef.current, 'jump');
+            if (isReplay) {
+              ctx.fillText(`Press ${jumpKey} to watch again`, canvas.width / 2, 320);
+            } else if (isMobileDevice()) {
+              ctx.fillText('Tap JUMP to restart', canvas.width / 2, 320);
             } else {
-              ctx.fillText('Press SPACE to restart', canvas.width / 2, 320);
+              ctx.fillText(`Press ${jumpKey} to restart`, canvas.width / 2, 320);
             }
           }
           
@@ -1041,6 +1371,7 @@ export const Canvas: React.FC<GameProps> = ({
             ctx.fillText(`Camera: ${Math.round(cameraOffsetRef.current)}`, 10, height - 70);
             ctx.fillText(`Player state: ${player.state}`, 10, height - 85);
             ctx.fillText(`Can double jump: ${player.canDoubleJump}`, 10, height - 100);
+            ctx.fillText(`Seed: ${obstacleManager.getSeed()}`, 10, height - 115);
           }
         } catch (err) {
           console.error('Error in render callback:', err);
@@ -1054,8 +1385,16 @@ export const Canvas: React.FC<GameProps> = ({
             // Get the parent container dimensions
             const container = canvas.parentElement;
             if (container) {
+              // Phones have no room to spare - keep the canvas clear of the footer bar and fill the rest
+              const mobile = isMobileDevice();
+              const footerHeight = mobile && footerRef.current ? footerRef.current.offsetHeight : 0;
+              canvas.style.bottom = `${footerHeight}px`;
+              const fillRatio = mobile ? 1 : 0.98;
+              
               // Get available space (with minimal buffers)
-              const availableHeight = window.innerHeight - 20; // Reduced buffer from 30px to 20px
+              const availableHeight = mobile
+                ? container.clientHeight - footerHeight
+                : window.innerHeight - 20; // Reduced buffer from 30px to 20px
               const availableWidth = container.clientWidth;
               
               console.log(`Available space: ${availableWidth}x${availableHeight}`);
@@ -1068,11 +1407,11 @@ export const Canvas: React.FC<GameProps> = ({
               
               if (availableWidth / availableHeight > aspectRatio) {
                 // Container is wider than needed - use most of available height
-                newHeight = availableHeight * 0.98; // Increased from 95% to 98% of available height
+                newHeight = availableHeight * fillRatio; // Increased from 95% to 98% of available height
                 newWidth = newHeight * aspectRatio;
               } else {
                 // Container is taller - use most of available width
-                newWidth = availableWidth * 0.98; // Maintain 98% of available width
+                newWidth = availableWidth * fillRatio; // Maintain 98% of available width
                 newHeight = newWidth / aspectRatio;
               }
               
@@ -1096,26 +1435,30 @@ export const Canvas: React.FC<GameProps> = ({
       window.addEventListener('orientationchange', handleResize);
       
       // Start game loop
-      setTimeout(() => {
+      const startLoopTimeout = setTimeout(() => {
         setIsLoading(false);
         gameLoop.start();
         console.log('Game loop started');
       }, 500);
       
-      // Clean up
+      // Clean up - everything created above is released, so a rebuild (or a React StrictMode
+      // double mount, or navigating away) leaves no listeners, loops or audio behind
       return () => {
         try {
-          gameLoop.stop();
-          inputManager.unbindKeys();
+          // The loop may not have started yet
+          clearTimeout(startLoopTimeout);
           
-          // Stop all sounds
-          if (soundManagerRef.current) {
-            soundManagerRef.current.stop('music');
-            soundManagerRef.current.stop('jump');
-            soundManagerRef.current.stop('crash');
-            soundManagerRef.current.stop('score');
-            soundManagerRef.current.stop('trick');
-          }
+          gameLoop.dispose();
+          inputManager.dispose();
+          gestureRecognizer?.dispose();
+          soundManager.dispose();
+          
+          // Don't let callbacks reach the disposed systems
+          if (gameLoopRef.current === gameLoop) gameLoopRef.current = null;
+          if (inputManagerRef.current === inputManager) inputManagerRef.current = null;
+          if (gestureRecognizerRef.current === gestureRecognizer) gestureRecognizerRef.current = null;
+          if (soundManagerRef.current === soundManager) soundManagerRef.current = null;
+          if (beginRunRef.current === beginRun) beginRunRef.current = null;
           
           // Remove event listeners
           window.removeEventListener('resize', handleResize);
@@ -1133,7 +1476,7 @@ export const Canvas: React.FC<GameProps> = ({
     } catch (e) {
       console.error('Error in game initialization:', e);
     }
-  }, [width, height, debug, gameStarted]);
+  }, [width, height, debug, gameStarted, courseSeed, courseDifficulty, gameMode, dailyKey, replayRecording]);
   
   // Prevent scrolling on the body
   useEffect(() => {
@@ -1162,25 +1505,23 @@ export const Canvas: React.FC<GameProps> = ({
   
   // Toggle sound on/off
   const toggleSound = useCallback(() => {
-    if (soundManagerRef.current) {
-      const newMuted = soundManagerRef.current.toggleMute();
-      setSoundEnabled(!newMuted);
-      
-      // If enabling sound and game is already started, play the music
-      if (!newMuted && gameStarted) {
-        soundManagerRef.current.play('music');
-      }
+    const newMuted = !audioSettingsRef.current.muted;
+    handleAudioSettingsChange({ ...audioSettingsRef.current, muted: newMuted });
+    
+    // If enabling sound and game is already started, play the music (paused games stay quiet)
+    if (!newMuted && gameStarted && !isPausedRef.current) {
+      soundManagerRef.current?.play('music');
     }
-  }, [gameStarted]);
+  }, [gameStarted, handleAudioSettingsChange]);
   
   // Play background music when game starts
   useEffect(() => {
     if (gameStarted && soundManagerRef.current && soundEnabled) {
       console.log('Playing background music from gameStarted state change');
       soundManagerRef.current.stop('music'); // Stop any existing music first
-      setTimeout(() => soundManagerRef.current?.play('music'), 200); // Slightly longer delay for state changes
+      scheduleMusic(200); // Slightly longer delay for state changes
     }
-  }, [gameStarted, soundEnabled]);
+  }, [gameStarted, soundEnabled, scheduleMusic]);
   
   // Function to show high scores
   const showHighScores = useCallback(() => {
@@ -1196,80 +1537,173 @@ export const Canvas: React.FC<GameProps> = ({
     showHighScores();
   }, [showHighScores]);
 
-  // Keep the forced mobile mode toggle for testing
-  const [forceMobileMode, setForceMobileMode] = useState<boolean>(false);
+  // Pause the run - freezes the game loop (and with it the player, obstacles and power-up timers)
+  const pauseGame = useCallback(() => {
+    try {
+      const player = playerRef.current;
+      if (isPausedRef.current || !gameStarted || !player || player.crashed || isHighScoresOpen) return;
+      
+      console.log('Pausing game');
+      isPausedRef.current = true;
+      stateBeforePauseRef.current = gameState;
+      
+      gameLoopRef.current?.pause();
+      soundManagerRef.current?.pause('music');
+      
+      setGameState('paused');
+    } catch (err) {
+      console.error('Error in pauseGame:', err);
+    }
+  }, [gameStarted, gameState, isHighScoresOpen]);
+  
+  // Resume a paused run right where it left off
+  const resumeGame = useCallback(() => {
+    try {
+      if (!isPausedRef.current) return;
+      
+      console.log('Resuming game');
+      isPausedRef.current = false;
+      setIsSettingsOpen(false);
+      
+      // Keys pressed or released while paused must not leak into the run
+      inputManagerRef.current?.clear();
+      gameLoopRef.current?.resume();
+      
+      if (soundManagerRef.current && soundEnabled) {
+        soundManagerRef.current.play('music');
+      }
+      
+      setGameState(stateBeforePauseRef.current);
+    } catch (err) {
+      console.error('Error in resumeGame:', err);
+    }
+  }, [soundEnabled]);
+  
+  // Abandon the paused run and start a new one
+  const restartFromPause = useCallback(() => {
+    console.log('Restarting from pause menu');
+    resumeGame();
+    handleRestartGame();
+  }, [resumeGame, handleRestartGame]);
+  
+  // Open the settings - a run in progress is paused first
+  const openSettings = useCallback(() => {
+    pauseGame();
+    setIsSettingsOpen(true);
+  }, [pauseGame]);
+  
+  // Open the leaderboard without leaving the pause menu
+  const showHighScoresFromPause = useCallback(() => {
+    setIsSettingsOpen(false);
+    showHighScores();
+  }, [showHighScores]);
   
-  // Function to detect mobile devices
-  const detectMobileDevice = useCallback((): boolean => {
-    // Check if window is defined (for SSR)
-    if (typeof window === 'undefined') return false;
+  // Escape/P toggle pause, and losing focus pauses automatically so runs aren't lost when switching tabs
+  useEffect(() => {
+    const handlePauseKey = (e: KeyboardEvent) => {
+      try {
+        if (e.code !== 'Escape' && e.code !== 'KeyP') return;
+        
+        // Ignore keys typed into forms (e.g. the high score name input)
+        if (document.activeElement && 
+            (document.activeElement.tagName === 'INPUT' || 
+             document.activeElement.tagName === 'TEXTAREA')) {
+          return;
+        }
+        
+        if (isSettingsOpen && e.code === 'Escape') {
+          // Escape backs out of the settings panel first
+          setIsSettingsOpen(false);
+        } else if (!isPausedRef.current) {
+          pauseGame();
+        } else if (!isHighScoresOpen) {
+          resumeGame();
+        }
+      } catch (err) {
+        console.error('Error in handlePauseKey:', err);
+      }
+    };
     
-    // Check user agent
-    const userAgentCheck = Boolean(
-      navigator.userAgent.match(/Android/i) ||
-      navigator.userAgent.match(/webOS/i) ||
-      navigator.userAgent.match(/iPhone/i) ||
-      navigator.userAgent.match(/iPad/i) ||
-      navigator.userAgent.match(/iPod/i) ||
-      navigator.userAgent.match(/BlackBerry/i) ||
-      navigator.userAgent.match(/Windows Phone/i)
-    );
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        console.log('Page hidden - pausing game');
+        pauseGame();
+      }
+    };
     
-    // Also consider screen width
-    const smallScreenCheck = window.innerWidth <= 768;
+    const handleBlur = () => {
+      console.log('Window lost focus - pausing game');
+      pauseGame();
+    };
     
-    return userAgentCheck || smallScreenCheck;
-  }, []);
+    window.addEventListener('keydown', handlePauseKey);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    
+    return () => {
+      window.removeEventListener('keydown', handlePauseKey);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [pauseGame, resumeGame, isSettingsOpen, isHighScoresOpen]);
 
-  // Detect mobile device on component mount
+  // The ` key toggles the collision shape overlay
   useEffect(() => {
-    const mobileDevice = detectMobileDevice();
-    setIsMobile(mobileDevice);
-    
-    // Also check on resize
-    const handleResize = () => {
-      setIsMobile(detectMobileDevice());
+    const handleHitboxKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Backquote') return;
+      
+      // Ignore keys typed into forms (e.g. the high score name input)
+      if (document.activeElement && 
+          (document.activeElement.tagName === 'INPUT' || 
+           document.activeElement.tagName === 'TEXTAREA')) {
+        return;
+      }
+      
+      showHitboxesRef.current = !showHitboxesRef.current;
+      console.log(`Hitbox overlay ${showHitboxesRef.current ? 'on' : 'off'}`);
     };
     
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [detectMobileDevice]);
+    window.addEventListener('keydown', handleHitboxKey);
+    return () => window.removeEventListener('keydown', handleHitboxKey);
+  }, []);
 
-  // If mobile device detected, render only the mobile message
-  if (isMobile) {
-    return (
-      <div className="fixed inset-0 bg-black flex flex-col items-center justify-center text-center px-4">
-        <div className="mb-6">
-          <span style={{ fontSize: '64px' }}>💻</span>
-        </div>
-        <h1 className="text-white text-2xl font-bold mb-4">Desktop Only Experience</h1>
-        <p className="text-gray-300 mb-6 max-w-md">
-          Skate with Bitcoin is currently only available on desktop devices.
-          <br /><br />
-          Please visit this site on a desktop computer to play the game.
-        </p>
-        <div className="mt-2">
-          <a 
-            href="https://x.com/jas_jaski" 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="text-blue-500 font-bold hover:text-blue-400 transition-colors"
-          >
-            Follow @jas_jaski for updates
-          </a>
-        </div>
-        <div className="absolute bottom-4 left-0 right-0 text-center text-white text-sm opacity-70">
-          Built with ♥︎ for ₿itcoin
-        </div>
-      </div>
-    );
-  }
+  // Keep the forced mobile mode toggle for testing
+  const [forceMobileMode, setForceMobileMode] = useState<boolean>(false);
+  
+  // Detect touch devices and how they're held on mount, and again whenever the screen changes
+  useEffect(() => {
+    const handleScreenChange = () => {
+      const mobileDevice = isMobileDevice() || forceMobileMode;
+      const portrait = getDeviceOrientation() === 'portrait';
+      
+      setIsMobile(mobileDevice);
+      setIsPortrait(portrait);
+      setShowOrientationPrompt(mobileDevice && portrait);
+    };
+    
+    handleScreenChange();
+    
+    window.addEventListener('resize', handleScreenChange);
+    window.addEventListener('orientationchange', handleScreenChange);
+    return () => {
+      window.removeEventListener('resize', handleScreenChange);
+      window.removeEventListener('orientationchange', handleScreenChange);
+    };
+  }, [forceMobileMode]);
+  
+  // Turning the phone upright mid-run pauses it - the prompt covers the game until it's turned back
+  useEffect(() => {
+    if (showOrientationPrompt && gameState === 'playing') {
+      console.log('Device turned to portrait, pausing');
+      pauseGame();
+    }
+  }, [showOrientationPrompt, gameState, pauseGame]);
 
-  // Desktop implementation - only rendered on desktop devices
+  // Touch devices play the same game with on-screen buttons on top
   return (
-    <div className="fixed inset-0 flex flex-col bg-black overflow-hidden">
+    <div className="fixed inset-0 flex flex-col bg-black overflow-hidden" style={{ touchAction: 'manipulation' }}>
       {/* Main game container */}
-      <div className="flex-grow relative w-full flex items-center justify-center bg-black overflow-hidden">
+      <div ref={gameContainerRef} className="flex-grow relative w-full flex items-center justify-center bg-black overflow-hidden">
         <canvas
           ref={canvasRef}
           className="absolute inset-0 m-auto max-w-full max-h-full"
@@ -1312,7 +1746,9 @@ export const Canvas: React.FC<GameProps> = ({
                   opacity: '0.9'
                 }}
               >
-                Press SPACE or click Start Game to begin
+                {isMobile
+                  ? 'Tap Start Game to begin'
+                  : `Press ${getPrimaryKeyLabel(keyBindings, 'jump')} or click Start Game to begin`}
               </p>
               <div 
                 style={{
@@ -1322,6 +1758,19 @@ export const Canvas: React.FC<GameProps> = ({
                   marginBottom: '16px'
                 }}
               >
+                {isMobile ? (
+                  <p 
+                    style={{
+                      fontSize: '14px',
+                      color: 'white',
+                      opacity: '0.8',
+                      textAlign: 'center'
+                    }}
+                  >
+                    <span style={{ fontWeight: 'bold' }}>JUMP / Tap / Swipe ↑</span> = Jump (swipe ↑ twice to double jump) | <span style={{ fontWeight: 'bold' }}>◀ / ▶</span> = Control Speed | <span style={{ fontWeight: 'bold' }}>⏸</span> = Pause<br/>
+                    <span style={{ fontWeight: 'bold' }}>FLIP / 360 / GRAB</span> or <span style={{ fontWeight: 'bold' }}>Swipe → / ← / ↓</span> = Use power-ups (when available)
+                  </p>
+                ) : (
                 <p 
                   style={{
                     fontSize: '14px',
@@ -1330,19 +1779,34 @@ export const Canvas: React.FC<GameProps> = ({
                     textAlign: 'center'
                   }}
                 >
-                  <span style={{ fontWeight: 'bold' }}>SPACE/UP</span> = Jump | <span style={{ fontWeight: 'bold' }}>LEFT/RIGHT</span> = Control Speed<br/>
-                  <span style={{ fontWeight: 'bold' }}>ANY KEY (except SPACE)</span> = Use power-ups (when available)
+                  <span style={{ fontWeight: 'bold' }}>{formatActionKeys(keyBindings, 'jump')}</span> = Jump | <span style={{ fontWeight: 'bold' }}>{formatActionKeys(keyBindings, 'left')} / {formatActionKeys(keyBindings, 'right')}</span> = Control Speed | <span style={{ fontWeight: 'bold' }}>ESC/P</span> = Pause<br/>
+                  <span style={{ fontWeight: 'bold' }}>ANY KEY (except jump)</span> = Use power-ups (when available)
                 </p>
+                )}
+                {gamepadConnected && (
+                  <p 
+                    style={{
+                      fontSize: '14px',
+                      color: 'white',
+                      opacity: '0.8',
+                      textAlign: 'center',
+                      marginTop: '8px'
+                    }}
+                  >
+                    <span style={{ fontSize: '18px' }}>🎮</span> <span style={{ fontWeight: 'bold' }}>Ⓐ / D-pad ↑</span> = Jump | <span style={{ fontWeight: 'bold' }}>Stick / D-pad / LB RB</span> = Control Speed<br/>
+                    <span style={{ fontWeight: 'bold' }}>Ⓧ Ⓨ Ⓑ</span> = Use power-ups (when available)
+                  </p>
+                )}
               </div>
             </div>
           </div>
         )}
         
-        {/* Start Game button */}
+        {/* Start Game and Daily Run buttons */}
         {!gameStarted && (
-          <div className="absolute bottom-16 left-0 right-0 flex justify-center">
+          <div className="absolute bottom-16 left-0 right-0 flex justify-center" style={{ gap: '12px' }}>
             <button 
-              onClick={handleStartGame}
+              onClick={() => handleStartGame('classic')}
               style={{
                 backgroundColor: 'rgba(22, 163, 74, 0.85)',
                 color: 'white',
@@ -1372,18 +1836,167 @@ export const Canvas: React.FC<GameProps> = ({
             >
               Start Game
             </button>
+            <button 
+              onClick={() => handleStartGame('daily')}
+              style={{
+                backgroundColor: 'rgba(217, 119, 6, 0.85)',
+                color: 'white',
+                padding: '12px 24px',
+                borderRadius: '8px',
+                fontSize: '16px',
+                fontWeight: 'bold',
+                backdropFilter: 'blur(4px)',
+                border: '1px solid rgba(255,255,255,0.1)',
+                boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                opacity: '0.95'
+              }}
+              onMouseOver={(e) => {
+                e.currentTarget.style.transform = 'translateY(-2px)';
+                e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                e.currentTarget.style.backgroundColor = 'rgba(180, 83, 9, 0.85)';
+                e.currentTarget.style.opacity = '1';
+              }}
+              onMouseOut={(e) => {
+                e.currentTarget.style.transform = 'translateY(0)';
+                e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                e.currentTarget.style.backgroundColor = 'rgba(217, 119, 6, 0.85)';
+                e.currentTarget.style.opacity = '0.95';
+              }}
+            >
+              📅 Daily Run
+            </button>
+          </div>
+        )}
+
+        {/* Pause menu and settings - cover the footer too so nothing else can change the run while paused */}
+        {(gameState === 'paused' || isSettingsOpen) && !isHighScoresOpen && (
+          <div
+            style={{
+              position: 'fixed',
+              inset: '0',
+              backgroundColor: 'rgba(0, 0, 0, 0.6)',
+              backdropFilter: 'blur(4px)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              zIndex: 2000
+            }}
+          >
+            {isSettingsOpen ? (
+              <SettingsPanel
+                audioSettings={audioSettings}
+                onAudioSettingsChange={handleAudioSettingsChange}
+                onToggleSound={toggleSound}
+                keyBindings={keyBindings}
+                onKeyBindingsChange={handleKeyBindingsChange}
+                onResetKeyBindings={handleResetKeyBindings}
+                onClose={() => setIsSettingsOpen(false)}
+              />
+            ) : (
+              <div
+                style={{
+                  backgroundColor: 'rgba(0,0,0,0.85)',
+                  borderRadius: '12px',
+                  padding: '32px 40px',
+                  boxShadow: '0 8px 32px rgba(0,0,0,0.4), 0 0 0 2px rgba(255,255,255,0.1) inset',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '12px',
+                  minWidth: '260px'
+                }}
+              >
+                <h1
+                  style={{
+                    fontSize: '36px',
+                    fontWeight: 'bold',
+                    color: 'white',
+                    marginBottom: '8px',
+                    textAlign: 'center',
+                    textShadow: '0 2px 8px rgba(0,0,0,0.5)'
+                  }}
+                >
+                  Paused
+                </h1>
+                {[
+                  { label: '▶ Resume', onClick: resumeGame, color: 'rgba(22, 163, 74, 0.85)' },
+                  { label: '↻ Restart', onClick: restartFromPause, color: 'rgba(55, 65, 81, 0.85)' },
+                  { label: '⚙ Settings', onClick: openSettings, color: 'rgba(55, 65, 81, 0.85)' },
+                  { label: '📊 Leaderboard', onClick: showHighScoresFromPause, color: 'rgba(59, 130, 246, 0.85)' }
+                ].map(item => (
+                  <button
+                    key={item.label}
+                    onClick={item.onClick}
+                    style={{
+                      backgroundColor: item.color,
+                      color: 'white',
+                      padding: '12px 24px',
+                      borderRadius: '8px',
+                      fontSize: '16px',
+                      fontWeight: 'bold',
+                      border: '1px solid rgba(255,255,255,0.1)',
+                      boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                      cursor: 'pointer',
+                      transition: 'all 0.2s ease'
+                    }}
+                    onMouseOver={(e) => {
+                      e.currentTarget.style.transform = 'translateY(-2px)';
+                      e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                    }}
+                    onMouseOut={(e) => {
+                      e.currentTarget.style.transform = 'translateY(0)';
+                      e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                    }}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+                <p style={{ fontSize: '13px', color: 'white', opacity: '0.7', textAlign: 'center' }}>
+                  {isMobile ? 'Tap Resume to keep skating' : 'Press ESC or P to resume'}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Turn-your-phone prompt - the game needs landscape */}
+        {showOrientationPrompt && (
+          <div
+            style={{
+              position: 'fixed',
+              inset: '0',
+              backgroundColor: 'rgba(0, 0, 0, 0.92)',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              textAlign: 'center',
+              padding: '24px',
+              zIndex: 3000
+            }}
+          >
+            <span style={{ fontSize: '64px', marginBottom: '16px' }}>📱↻</span>
+            <h1 style={{ fontSize: '24px', fontWeight: 'bold', color: 'white', marginBottom: '12px' }}>
+              Rotate your device
+            </h1>
+            <p style={{ fontSize: '16px', color: 'white', opacity: '0.8', maxWidth: '320px' }}>
+              Skate with Bitcoin is played in landscape. Turn your phone sideways to {gameStarted ? 'keep skating' : 'start'}.
+            </p>
           </div>
         )}
 
-        {/* Footer bar - always visible */}
+                {/* Footer bar - always visible */}
         <div 
+          ref={footerRef}
           style={{
             position: 'absolute',
             bottom: '0',
             left: '0',
             right: '0',
             backgroundColor: 'rgba(30, 30, 30, 0.85)',
-            padding: '12px',
+            padding: isMobile ? '6px' : '12px',
             display: 'flex',
             justifyContent: 'space-between',
             alignItems: 'center',
@@ -1391,19 +2004,47 @@ export const Canvas: React.FC<GameProps> = ({
             boxShadow: '0 -2px 10px rgba(0,0,0,0.3)'
           }}
         >
-          {/* Attribution message */}
-          <div 
-            style={{
-              color: 'white',
-              fontWeight: 'bold',
-              fontSize: '16px'
-            }}
-          >
-            Built with ♥︎ for ₿itcoin. Follow <a href="https://x.com/jas_jaski" target="_blank" rel="noopener noreferrer" style={{color: '#3b82f6', fontWeight: 800, textDecoration: 'none'}}>@jas_jaski</a>
-          </div>
+          {/* Attribution message - phones need the room for the buttons */}
+          {!isMobile && (
+            <div 
+              style={{
+                color: 'white',
+                fontWeight: 'bold',
+                fontSize: '16px'
+              }}
+            >
+              Built with ♥︎ for ₿itcoin. Follow <a href="https://x.com/jas_jaski" target="_blank" rel="noopener noreferrer" style={{color: '#3b82f6', fontWeight: 800, textDecoration: 'none'}}>@jas_jaski</a>
+            </div>
+          )}
           
           {/* Game control buttons */}
-          <div style={{ display: 'flex', gap: '10px' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'flex-end', gap: '10px', marginLeft: 'auto' }}>
+            {/* Pause Button - touch screens have no ESC key */}
+            {isMobile && gameState === 'playing' && (
+              <button
+                onClick={pauseGame}
+                style={{
+                  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+              >
+                ⏸ Pause
+              </button>
+            )}
+            
             {/* Sound Toggle Button */}
             <button
               onClick={toggleSound}
@@ -1436,6 +2077,242 @@ export const Canvas: React.FC<GameProps> = ({
               {soundEnabled ? '🔊 Sound On' : '🔇 Sound Off'}
             </button>
             
+            {/* Switch between classic runs and today's Daily Run */}
+            {gameStarted && !replayRecording && (
+              <button
+                onClick={() => handleStartGame(gameMode === 'daily' ? 'classic' : 'daily')}
+                style={{
+                  backgroundColor: gameMode === 'daily' ? 'rgba(55, 65, 81, 0.85)' : 'rgba(217, 119, 6, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                {gameMode === 'daily' ? '🎲 Classic Run' : '📅 Daily Run'}
+              </button>
+            )}
+            
+            {/* Cycle through the difficulty presets (restarts a run in progress on the new difficulty) */}
+            {!replayRecording && (
+              <button
+                onClick={cycleDifficulty}
+                style={{
+                  backgroundColor: 'rgba(124, 58, 237, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                🎚️ {DIFFICULTY_LABELS[difficulty]}
+              </button>
+            )}
+            
+            {/* Leave replay mode */}
+            {replayRecording && (
+              <button
+                onClick={exitReplay}
+                style={{
+                  backgroundColor: 'rgba(239, 68, 68, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                ⏹ Exit Replay
+              </button>
+            )}
+            
+            {/* Watch the last finished run again */}
+            {!replayRecording && hasRecording && (
+              <button
+                onClick={() => lastRecordingRef.current && startReplay(lastRecordingRef.current)}
+                style={{
+                  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                📼 Watch Replay
+              </button>
+            )}
+            
+            {/* Copy the last finished run to share it */}
+            {!replayRecording && hasRecording && (
+              <button
+                onClick={copyLastRecording}
+                style={{
+                  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                📋 Copy Replay
+              </button>
+            )}
+            
+            {/* Watch a run someone shared */}
+            {!replayRecording && (
+              <button
+                onClick={loadRecording}
+                style={{
+                  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+                  color: 'white',
+                  padding: '8px 14px',
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                  fontWeight: 'bold',
+                  backdropFilter: 'blur(4px)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                  cursor: 'pointer',
+                  transition: 'all 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px'
+                }}
+                onMouseOver={(e) => {
+                  e.currentTarget.style.transform = 'translateY(-2px)';
+                  e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+                }}
+                onMouseOut={(e) => {
+                  e.currentTarget.style.transform = 'translateY(0)';
+                  e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+                }}
+              >
+                📂 Load Replay
+              </button>
+            )}
+            
+            {/* Settings Button - rebind controls before or during a run */}
+            <button
+              onClick={openSettings}
+              style={{
+                backgroundColor: 'rgba(55, 65, 81, 0.85)',
+                color: 'white',
+                padding: '8px 14px',
+                borderRadius: '8px',
+                fontSize: '14px',
+                fontWeight: 'bold',
+                backdropFilter: 'blur(4px)',
+                border: '1px solid rgba(255,255,255,0.1)',
+                boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '6px'
+              }}
+              onMouseOver={(e) => {
+                e.currentTarget.style.transform = 'translateY(-2px)';
+                e.currentTarget.style.boxShadow = '0 6px 12px rgba(0,0,0,0.3)';
+              }}
+              onMouseOut={(e) => {
+                e.currentTarget.style.transform = 'translateY(0)';
+                e.currentTarget.style.boxShadow = '0 4px 8px rgba(0,0,0,0.2)';
+              }}
+            >
+              ⚙ Settings
+            </button>
+            
             {/* High Scores Button */}
             <button
               id="highscores-toggle-button"
@@ -1489,7 +2366,11 @@ export const Canvas: React.FC<GameProps> = ({
           }}
           currentSats={score}
           playerHighSats={highScore}
+          replay={lastRecordingRef.current}
           onSubmit={handleHighScoreSubmit}
+          mode={gameMode}
+          day={dailyKey}
+          difficulty={courseDifficulty}
         />
       </div>
     </div>
@@ -1,6 +1,9 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
+import { GameMode } from '../../utils/daily';
+import { InputRecording, serializeRecording } from '../../core/InputRecorder';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LABELS, DIFFICULTY_PRESETS, DifficultyPreset } from '../../core/Difficulty';
 
 // Define high score interface
 interface HighScore {
@@ -10,12 +13,19 @@ interface HighScore {
   date: string;
 }
 
+// Leaderboard tabs - the all-time board or today's Daily Run board
+type LeaderboardTab = 'all-time' | 'today';
+
 interface HighScoresProps {
   isOpen: boolean;
   onClose: () => void;
   currentSats: number;
   playerHighSats: number;
   onSubmit?: (name: string) => void;
+  mode?: GameMode;   // Mode of the run being submitted
+  day?: string;      // UTC day key of the run, for Daily Run submissions
+  difficulty?: DifficultyPreset; // Difficulty of the run - each difficulty has its own boards
+  replay?: InputRecording | null; // Recording of the run - the server re-simulates it to verify the score
 }
 
 const HighScores: React.FC<HighScoresProps> = ({
@@ -23,7 +33,11 @@ const HighScores: React.FC<HighScoresProps> = ({
   onClose,
   currentSats,
   playerHighSats,
-  onSubmit
+  onSubmit,
+  mode = 'classic',
+  day,
+  difficulty = DEFAULT_DIFFICULTY,
+  replay
 }) => {
   // Always log when component renders
   console.log('HighScores component rendering with props:', { isOpen, currentSats, playerHighSats });
@@ -37,6 +51,8 @@ const HighScores: React.FC<HighScoresProps> = ({
   const [deviceId, setDeviceId] = useState<string | null>(null);
   const [showNameInput, setShowNameInput] = useState<boolean>(false);
   const [autoSubmitted, setAutoSubmitted] = useState<boolean>(false);
+  const [activeTab, setActiveTab] = useState<LeaderboardTab>(mode === 'daily' ? 'today' : 'all-time');
+  const [activeDifficulty, setActiveDifficulty] = useState<DifficultyPreset>(difficulty);
   const modalRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -59,13 +75,21 @@ const HighScores: React.FC<HighScoresProps> = ({
     }
   }, []);
 
-  // Fetch global high scores when the modal opens
+  // Open on the board the current run belongs to
   useEffect(() => {
-    console.log('HighScores isOpen effect triggered:', isOpen);
+    if (isOpen) {
+      setActiveTab(mode === 'daily' ? 'today' : 'all-time');
+      setActiveDifficulty(difficulty);
+    }
+  }, [isOpen, mode, difficulty]);
+
+  // Fetch global high scores when the modal opens or the tab or difficulty changes
+  useEffect(() => {
+    console.log('HighScores isOpen effect triggered:', isOpen, activeTab, activeDifficulty);
     if (isOpen) {
       fetchHighScores();
     }
-  }, [isOpen]);
+  }, [isOpen, activeTab, activeDifficulty]);
 
   // Auto-submit high score if we have a saved name
   useEffect(() => {
@@ -84,10 +108,13 @@ const HighScores: React.FC<HighScoresProps> = ({
         // We have a SAVED name from before and haven't submitted yet - auto-submit
         console.log('Auto-submitting high score with saved name:', playerName);
         // Add a small delay to ensure component is fully mounted
-        setTimeout(() => {
+        const autoSubmitTimeout = setTimeout(() => {
           submitScore();
           setAutoSubmitted(true);
         }, 700);
+        
+        // Cancel if the modal closes first (or React remounts it) so the score is only submitted once
+        return () => clearTimeout(autoSubmitTimeout);
       } else if (!savedPlayerName) {
         // No saved name, make sure the input form is shown but DON'T auto-submit
         console.log('No saved player name found, showing input form for manual entry');
@@ -185,7 +212,8 @@ const HighScores: React.FC<HighScoresProps> = ({
       setError(null);
       
       // Add a timestamp to bypass cache
-      const response = await fetch(`/api/highscores?t=${Date.now()}`);
+      const modeParam = activeTab === 'today' ? '&mode=daily' : '';
+      const response = await fetch(`/api/highscores?t=${Date.now()}${modeParam}&difficulty=${activeDifficulty}`);
       console.log('API response status:', response.status);
       
       if (!response.ok) {
@@ -222,18 +250,16 @@ const HighScores: React.FC<HighScoresProps> = ({
       localStorage.setItem('skatewithbitcoinPlayerName', playerName);
       console.log('Player name saved to localStorage:', playerName);
       
-      // Generate timestamp for score verification
-      const timestamp = Date.now().toString();
-      
-      // Create a simple client-side hash for score verification
-      const scoreHash = await generateScoreHash(currentSats, deviceId || 'unknown', timestamp);
+      // The server only accepts scores it can reproduce from the run's replay
+      if (!replay) {
+        throw new Error('No replay of this run to verify');
+      }
       
       console.log('Submitting high score:', { 
         score: currentSats, 
         name: playerName, 
         deviceId,
-        timestamp,
-        scoreHash
+        frames: replay.frames.length
       });
       
       try {
@@ -246,8 +272,9 @@ const HighScores: React.FC<HighScoresProps> = ({
             score: currentSats,
             name: playerName,
             deviceId,
-            timestamp,
-            scoreHash
+            mode,
+            day,
+            replay: serializeRecording(replay)
           }),
         });
         
@@ -265,8 +292,9 @@ const HighScores: React.FC<HighScoresProps> = ({
           throw new Error(`Failed to submit high score (HTTP ${response.status})`);
         }
         
-        // Update global scores with the response
-        if (data.topScores) {
+        // Update global scores with the response (only if we're looking at the board it was saved to)
+        const submittedTab: LeaderboardTab = mode === 'daily' ? 'today' : 'all-time';
+        if (data.topScores && submittedTab === activeTab && difficulty === activeDifficulty) {
           setGlobalScores(data.topScores);
         }
         if (data.rank) {
@@ -305,43 +333,6 @@ const HighScores: React.FC<HighScoresProps> = ({
     submitScore();
   };
 
-  // Helper function to generate a hash for score verification
-  // This matches the server-side implementation
-  const generateScoreHash = async (score: number, deviceId: string, timestamp: string) => {
-    // Secret key must match the one used on the server
-    const SATS_SECRET_KEY = 'skatewithbitcoin-secure-score-key-do-not-share';
-    
-    // Create the same data string format as server
-    const data = `${score}:${deviceId}:${timestamp}:${SATS_SECRET_KEY}`;
-    
-    // Use the SubtleCrypto API to generate a SHA-256 hash
-    try {
-      // Convert the string to an array buffer
-      const encoder = new TextEncoder();
-      const dataBuffer = encoder.encode(data);
-      
-      // Generate SHA-256 hash
-      const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-      
-      // Convert hash to hex string
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      
-      return hashHex;
-    } catch (error) {
-      console.error('Error generating score hash:', error);
-      
-      // Fallback for browsers without SubtleCrypto API
-      // This is less secure but better than nothing
-      let hash = 0;
-      for (let i = 0; i < data.length; i++) {
-        hash = ((hash << 5) - hash) + data.charCodeAt(i);
-        hash |= 0;
-      }
-      return Math.abs(hash).toString(16).padStart(8, '0');
-    }
-  };
-
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -667,7 +658,66 @@ const HighScores: React.FC<HighScoresProps> = ({
               }}></span>
               Top Sats
             </h3>
-            
+
+            {/* Switch between the all-time board and today's Daily Run board */}
+            <div style={{
+              display: 'flex',
+              gap: '8px',
+              marginBottom: '16px',
+              backgroundColor: 'rgba(0, 0, 0, 0.2)',
+              padding: '4px',
+              borderRadius: '10px'
+            }}>
+              {(['all-time', 'today'] as LeaderboardTab[]).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  style={{
+                    flex: 1,
+                    padding: '8px 12px',
+                    backgroundColor: activeTab === tab ? '#3b82f6' : 'transparent',
+                    color: activeTab === tab ? 'white' : 'rgba(255, 255, 255, 0.7)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    fontSize: '14px',
+                    fontWeight: 'bold',
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease'
+                  }}
+                >
+                  {tab === 'all-time' ? 'All-Time' : 'Today\'s Daily Run'}
+                </button>
+              ))}
+            </div>
+
+            {/* Each difficulty has its own boards */}
+            <div style={{
+              display: 'flex',
+              gap: '6px',
+              marginBottom: '16px'
+            }}>
+              {DIFFICULTY_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => setActiveDifficulty(preset)}
+                  style={{
+                    flex: 1,
+                    padding: '6px 10px',
+                    backgroundColor: activeDifficulty === preset ? 'rgba(124, 58, 237, 0.85)' : 'rgba(0, 0, 0, 0.2)',
+                    color: activeDifficulty === preset ? 'white' : 'rgba(255, 255, 255, 0.7)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    fontSize: '13px',
+                    fontWeight: 'bold',
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease'
+                  }}
+                >
+                  {DIFFICULTY_LABELS[preset]}
+                </button>
+              ))}
+            </div>
+
             {isLoading ? (
               <div style={{ 
                 textAlign: 'center', 
@@ -725,7 +775,7 @@ const HighScores: React.FC<HighScoresProps> = ({
                 borderRadius: '8px',
                 border: '1px dashed rgba(255, 255, 255, 0.2)'
               }}>
-                <p>No high scores yet. Be the first!</p>
+                <p>{activeTab === 'today' ? 'No Daily Run scores yet today. Be the first!' : 'No high scores yet. Be the first!'}</p>
               </div>
             ) : (
               <div style={{ 
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { INPUT_ACTIONS, InputAction, KeyBinding } from '../../core/InputManager';
+import { AudioSettings } from '../../core/SoundManager';
+import {
+  ACTION_LABELS,
+  RESERVED_KEY_CODES,
+  findKeyConflict,
+  getKeyLabel
+} from '../../utils/keyBindings';
+
+interface SettingsPanelProps {
+  audioSettings: AudioSettings;
+  onAudioSettingsChange: (audioSettings: AudioSettings) => void;
+  onToggleSound: () => void;
+  keyBindings: KeyBinding[];
+  onKeyBindingsChange: (keyBindings: KeyBinding[]) => void;
+  onResetKeyBindings: () => void;
+  onClose: () => void;
+}
+
+// Shared look of the settings rows
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  padding: '12px 0',
+  borderBottom: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+// Volume sliders, in the order they're shown
+const VOLUME_SLIDERS: { key: 'masterVolume' | 'musicVolume' | 'sfxVolume'; label: string }[] = [
+  { key: 'masterVolume', label: 'Master volume' },
+  { key: 'musicVolume', label: 'Music' },
+  { key: 'sfxVolume', label: 'Sound effects' }
+];
+
+// Shared look of the small control buttons
+const smallButtonStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(55, 65, 81, 0.85)',
+  color: 'white',
+  padding: '4px 10px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  fontWeight: 'bold',
+  border: '1px solid rgba(255,255,255,0.1)',
+  cursor: 'pointer'
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  audioSettings,
+  onAudioSettingsChange,
+  onToggleSound,
+  keyBindings,
+  onKeyBindingsChange,
+  onResetKeyBindings,
+  onClose
+}) => {
+  // Action waiting for the player to press the key to bind to it
+  const [listeningAction, setListeningAction] = useState<InputAction | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  
+  // Capture the next key press while rebinding - it must not reach the game or the pause menu
+  useEffect(() => {
+    if (!listeningAction) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      try {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        
+        // Escape cancels rebinding
+        if (e.code === 'Escape') {
+          setListeningAction(null);
+          setMessage(null);
+          return;
+        }
+        
+        const label = getKeyLabel({ code: e.code, key: e.key, action: listeningAction });
+        
+        if (RESERVED_KEY_CODES.includes(e.code)) {
+          setMessage(`${label} is reserved (${e.code === 'Backquote' ? 'hitbox overlay' : 'pausing the game'})`);
+          return;
+        }
+        
+        // Keep listening until the player picks a free key
+        const conflict = findKeyConflict(keyBindings, e.code, listeningAction);
+        if (conflict) {
+          setMessage(`${label} is already bound to ${ACTION_LABELS[conflict]}`);
+          return;
+        }
+        
+        if (!keyBindings.some(binding => binding.code === e.code)) {
+          console.log(`Binding ${e.code} to ${listeningAction}`);
+          onKeyBindingsChange([...keyBindings, { code: e.code, key: e.key, action: listeningAction }]);
+        }
+        
+        setListeningAction(null);
+        setMessage(null);
+      } catch (err) {
+        console.error('Error in SettingsPanel key capture:', err);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listeningAction, keyBindings, onKeyBindingsChange]);
+  
+  const soundEnabled = !audioSettings.muted;
+  
+  // Unbind a key - every action keeps at least one key
+  const removeBinding = (code: string) => {
+    onKeyBindingsChange(keyBindings.filter(binding => binding.code !== code));
+  };
+  
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(30, 41, 59, 0.95)',
+        borderRadius: '16px',
+        padding: '28px',
+        width: '380px',
+        maxWidth: '90%',
+        color: 'white',
+        boxShadow: '0 20px 50px rgba(0, 0, 0, 0.5), 0 0 0 1px rgba(255, 255, 255, 0.1) inset',
+        border: '1px solid rgba(59, 130, 246, 0.3)'
+      }}
+    >
+      <h2
+        style={{
+          fontSize: '24px',
+          fontWeight: 'bold',
+          marginBottom: '12px',
+          textAlign: 'center'
+        }}
+      >
+        Settings
+      </h2>
+
+      {/* Sound */}
+      <div style={rowStyle}>
+        <span style={{ fontSize: '16px' }}>Sound</span>
+        <button
+          onClick={onToggleSound}
+          style={{
+            backgroundColor: soundEnabled ? 'rgba(22, 163, 74, 0.85)' : 'rgba(239, 68, 68, 0.85)',
+            color: 'white',
+            padding: '6px 14px',
+            borderRadius: '8px',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            border: '1px solid rgba(255,255,255,0.1)',
+            cursor: 'pointer'
+          }}
+        >
+          {soundEnabled ? '🔊 On' : '🔇 Off'}
+        </button>
+      </div>
+      
+      {/* Volumes - changes are heard (and saved) straight away */}
+      {VOLUME_SLIDERS.map(slider => (
+        <div key={slider.key} style={rowStyle}>
+          <label htmlFor={`settings-${slider.key}`} style={{ fontSize: '15px' }}>{slider.label}</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <input
+              id={`settings-${slider.key}`}
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={Math.round(audioSettings[slider.key] * 100)}
+              onChange={(e) => onAudioSettingsChange({
+                ...audioSettings,
+                [slider.key]: Number(e.target.value) / 100
+              })}
+              disabled={!soundEnabled}
+              style={{ width: '140px', cursor: soundEnabled ? 'pointer' : 'default', opacity: soundEnabled ? 1 : 0.5 }}
+            />
+            <span style={{ fontSize: '13px', width: '36px', textAlign: 'right', opacity: 0.8 }}>
+              {Math.round(audioSettings[slider.key] * 100)}%
+            </span>
+          </div>
+        </div>
+      ))}
+
+      {/* Controls */}
+      <h3 style={{ fontSize: '18px', fontWeight: 'bold', marginTop: '16px' }}>Controls</h3>
+      {INPUT_ACTIONS.map(action => {
+        const actionBindings = keyBindings.filter(binding => binding.action === action);
+        const isListening = listeningAction === action;
+        
+        return (
+          <div key={action} style={rowStyle}>
+            <span style={{ fontSize: '15px' }}>{ACTION_LABELS[action]}</span>
+            <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'flex-end', gap: '6px' }}>
+              {actionBindings.map(binding => (
+                <span
+                  key={binding.code}
+                  style={{
+                    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+                    borderRadius: '6px',
+                    padding: '4px 8px',
+                    fontSize: '13px',
+                    fontWeight: 'bold',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px'
+                  }}
+                >
+                  {getKeyLabel(binding)}
+                  {actionBindings.length > 1 && (
+                    <button
+                      onClick={() => removeBinding(binding.code)}
+                      title="Unbind"
+                      style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.6)', cursor: 'pointer' }}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+              <button
+                onClick={() => {
+                  setListeningAction(isListening ? null : action);
+                  setMessage(null);
+                }}
+                style={{
+                  ...smallButtonStyle,
+                  backgroundColor: isListening ? 'rgba(217, 119, 6, 0.85)' : smallButtonStyle.backgroundColor
+                }}
+              >
+                {isListening ? 'Press a key…' : '+'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      
+      {/* Rebinding problems (reserved or already bound keys) */}
+      {message && (
+        <p style={{ color: '#F87171', fontSize: '14px', marginTop: '10px', textAlign: 'center' }}>
+          {message}
+        </p>
+      )}
+      
+      <button
+        onClick={() => {
+          setListeningAction(null);
+          setMessage(null);
+          onResetKeyBindings();
+        }}
+        style={{ ...smallButtonStyle, marginTop: '12px' }}
+      >
+        Reset controls to defaults
+      </button>
+
+      <button
+        onClick={onClose}
+        style={{
+          marginTop: '20px',
+          width: '100%',
+          backgroundColor: 'rgba(55, 65, 81, 0.85)',
+          color: 'white',
+          padding: '10px 14px',
+          borderRadius: '8px',
+          fontSize: '16px',
+          fontWeight: 'bold',
+          border: '1px solid rgba(255,255,255,0.1)',
+          cursor: 'pointer'
+        }}
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
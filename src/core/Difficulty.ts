@@ -0,0 +1,170 @@
+/**
+ * Difficulty.ts - Difficulty profiles that tune how the course speeds up and spawns
+ *
+ * Profiles are plain data (difficultyPresets.json), checked once when the game loads. The
+ * high score API simulates replays with the same presets, so a run's preset decides its board.
+ */
+
+import presetData from './difficultyPresets.json';
+
+// Named difficulty presets
+export type DifficultyPreset = 'chill' | 'normal' | 'degen';
+
+export const DIFFICULTY_PRESETS: DifficultyPreset[] = ['chill', 'normal', 'degen'];
+
+// Preset every run uses unless the player picks another
+export const DEFAULT_DIFFICULTY: DifficultyPreset = 'normal';
+
+// Names shown to the player
+export const DIFFICULTY_LABELS: Record<DifficultyPreset, string> = {
+  chill: 'Chill',
+  normal: 'Normal',
+  degen: 'Degen'
+};
+
+// Tuning values for the obstacle manager (times in ms, speeds in px/s)
+export interface DifficultyProfile {
+  // Speed curve
+  initialGameSpeed: number;        // Game speed every run starts at
+  maxGameSpeed: number;            // Game speed stops increasing here
+  speedIncreaseInterval: number;   // Time between speed increases
+  speedIncrease: number;           // Added to the game speed each interval
+  easyModeSpeedIncrease: number;   // Added each interval during the easy start
+  startSpeed: number;              // Player speed at the start of a run
+  gracePeriodSpeedBoost: number;   // Extra player speed built up over the grace period
+  easyModeSpeedBoost: number;      // Further player speed built up over the rest of the easy start
+
+  // Easy start
+  gameStartGracePeriod: number;    // Gentlest part of the start
+  initialObstacleDelay: number;    // Time before the first obstacle
+  easyModeTimer: number;           // Length of the easy start (no double-jump obstacles or surprises)
+  secondObstacleDelay: number;     // Extra wait before the second obstacle
+
+  // Obstacles
+  baseSpawnRate: number;           // Time between obstacles at the starting speed
+  minSpawnRate: number;            // Time between obstacles at top speed
+  spawnRateVariability: number;    // Random spread of the spawn time (fraction of it)
+  rapidSuccessionChance: number;   // Chance of an obstacle coming right after the last one
+  doubleJumpObstacleChance: number; // Chance of an obstacle only a double jump clears
+  stackedObstacleChance: number;   // Base chance of stacking obstacles
+  patternChance: number;           // Chance of a hand-made obstacle pattern instead of a random obstacle
+
+  // Power-ups
+  powerUpInitialDelay: number;     // Time before power-ups can spawn
+  powerUpSpawnChance: number;      // Chance of spawning once the spacing allows it
+  maxPowerUpsPerMinute: number;
+  minPowerUpSpacing: number;       // Minimum time between power-ups
+  minSpatialDistance: number;      // Minimum distance between power-ups (px)
+}
+
+// Allowed range of every profile value - chances and fractions are 0 to 1, the rest just can't be negative
+const PROFILE_RANGES: Record<keyof DifficultyProfile, [number, number]> = {
+  initialGameSpeed: [1, Infinity],
+  maxGameSpeed: [1, Infinity],
+  speedIncreaseInterval: [1, Infinity],
+  speedIncrease: [0, Infinity],
+  easyModeSpeedIncrease: [0, Infinity],
+  startSpeed: [1, Infinity],
+  gracePeriodSpeedBoost: [0, Infinity],
+  easyModeSpeedBoost: [0, Infinity],
+  gameStartGracePeriod: [1, Infinity],
+  initialObstacleDelay: [0, Infinity],
+  easyModeTimer: [1, Infinity],
+  secondObstacleDelay: [0, Infinity],
+  baseSpawnRate: [1, Infinity],
+  minSpawnRate: [1, Infinity],
+  spawnRateVariability: [0, 1],
+  rapidSuccessionChance: [0, 1],
+  doubleJumpObstacleChance: [0, 1],
+  stackedObstacleChance: [0, 1],
+  patternChance: [0, 1],
+  powerUpInitialDelay: [0, Infinity],
+  powerUpSpawnChance: [0, 1],
+  maxPowerUpsPerMinute: [0, Infinity],
+  minPowerUpSpacing: [0, Infinity],
+  minSpatialDistance: [0, Infinity]
+};
+
+/**
+ * Check if a value is the name of a difficulty preset
+ */
+export const isDifficultyPreset = (value: unknown): value is DifficultyPreset => {
+  return typeof value === 'string' && (DIFFICULTY_PRESETS as string[]).includes(value);
+};
+
+/**
+ * Check a difficulty profile - returns a list of problems (empty if the profile is valid)
+ */
+export const validateDifficultyProfile = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object') return ['Profile must be an object'];
+
+  const profile = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  (Object.keys(PROFILE_RANGES) as (keyof DifficultyProfile)[]).forEach(key => {
+    const value = profile[key];
+    const [min, max] = PROFILE_RANGES[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (value < min || value > max) {
+      errors.push(max === Infinity ? `${key} must be at least ${min}` : `${key} must be between ${min} and ${max}`);
+    }
+  });
+
+  Object.keys(profile)
+    .filter(key => !(key in PROFILE_RANGES))
+    .forEach(key => errors.push(`Unknown setting ${key}`));
+
+  if (errors.length > 0) return errors;
+
+  // The speed and spawn curves interpolate between these, so they have to be in order
+  const { initialGameSpeed, maxGameSpeed, gameStartGracePeriod, easyModeTimer, baseSpawnRate, minSpawnRate } =
+    profile as unknown as DifficultyProfile;
+  if (maxGameSpeed <= initialGameSpeed) errors.push('maxGameSpeed must be above initialGameSpeed');
+  if (easyModeTimer <= gameStartGracePeriod) errors.push('easyModeTimer must be longer than gameStartGracePeriod');
+  if (minSpawnRate > baseSpawnRate) errors.push('minSpawnRate must not be above baseSpawnRate');
+
+  return errors;
+};
+
+/**
+ * Parse a difficulty profile from JSON (or an already parsed object)
+ * Returns null (and logs the problems) if the data isn't a valid profile
+ */
+export const parseDifficultyProfile = (data: unknown): DifficultyProfile | null => {
+  try {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    const errors = validateDifficultyProfile(parsed);
+    if (errors.length > 0) {
+      console.error(`Invalid difficulty profile: ${errors.join(', ')}`);
+      return null;
+    }
+    return { ...(parsed as DifficultyProfile) };
+  } catch (err) {
+    console.error('Error parsing difficulty profile:', err);
+    return null;
+  }
+};
+
+// Check every preset once at startup - a broken preset would silently change the game (and
+// every replay check), so refuse to run with one
+const loadPresets = (data: unknown): Record<DifficultyPreset, DifficultyProfile> => {
+  const presets = (data || {}) as Record<string, unknown>;
+
+  return DIFFICULTY_PRESETS.reduce((loaded, preset) => {
+    const profile = parseDifficultyProfile(presets[preset]);
+    if (!profile) {
+      throw new Error(`Difficulty preset "${preset}" is missing or invalid`);
+    }
+    return { ...loaded, [preset]: profile };
+  }, {} as Record<DifficultyPreset, DifficultyProfile>);
+};
+
+const PRESET_PROFILES = loadPresets(presetData);
+
+/**
+ * Get the tuning values of a difficulty preset (each call gets its own copy)
+ */
+export const getDifficultyProfile = (preset: DifficultyPreset = DEFAULT_DIFFICULTY): DifficultyProfile => {
+  return { ...PRESET_PROFILES[preset] };
+};
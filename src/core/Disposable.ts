@@ -0,0 +1,9 @@
+/**
+ * Disposable.ts - Lifecycle contract for game systems that hold browser resources
+ */
+
+// Systems that attach event listeners, run timers or play media release all of it in dispose(),
+// so the game can be torn down and rebuilt (React remounts, route changes) without leaks
+export interface Disposable {
+  dispose(): void;
+}
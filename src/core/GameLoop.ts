@@ -2,6 +2,8 @@
  * GameLoop.ts - Professional game loop with fixed timestep
  */
 
+import { Disposable } from './Disposable';
+
 // Game loop configuration options
 export interface GameLoopOptions {
   fps?: number;
@@ -10,7 +12,7 @@ export interface GameLoopOptions {
   maxUpdatesPerFrame?: number; // Add limit to updates per frame
 }
 
-export default class GameLoop {
+export default class GameLoop implements Disposable {
   // Configuration
   private fps: number;
   private frameDuration: number;
@@ -20,6 +22,7 @@ export default class GameLoop {
   
   // State
   private running: boolean = false;
+  private paused: boolean = false; // Paused loops keep rendering but skip updates
   private frameId: number | null = null;
   private lastFrameTime: number = 0;
   private accumulator: number = 0;
@@ -128,6 +131,55 @@ export default class GameLoop {
     }
   }
   
+  /**
+   * Stop the game loop for good and drop its callbacks
+   */
+  public dispose(): void {
+    this.stop();
+    this.updateCallback = null;
+    this.renderCallback = null;
+    
+    if (this.debug) {
+      console.log('Game loop disposed');
+    }
+  }
+  
+  /**
+   * Pause the game loop - rendering continues but no updates run until resumed
+   */
+  public pause(): void {
+    if (this.paused) return;
+    
+    this.paused = true;
+    this.accumulator = 0;
+    
+    if (this.debug) {
+      console.log('Game loop paused');
+    }
+  }
+  
+  /**
+   * Resume a paused game loop without catching up on the time spent paused
+   */
+  public resume(): void {
+    if (!this.paused) return;
+    
+    this.paused = false;
+    this.lastFrameTime = performance.now();
+    this.accumulator = 0;
+    
+    if (this.debug) {
+      console.log('Game loop resumed');
+    }
+  }
+  
+  /**
+   * Check if the game loop is paused
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+  
   /**
    * The main loop function
    */
@@ -168,8 +220,10 @@ export default class GameLoop {
       }
     }
     
-    // Add frame time to the accumulator
-    this.accumulator += frameTime;
+    // Add frame time to the accumulator (time spent paused is dropped)
+    if (!this.paused) {
+      this.accumulator += frameTime;
+    }
     
     // Fixed timestep updates - limit to prevent spiral of death
     let updateCount = 0;
@@ -203,6 +257,13 @@ export default class GameLoop {
     this.lastRenderDuration = performance.now() - renderStart;
   }
   
+  /**
+   * Get the fixed timestep of each update in ms
+   */
+  public getTimestep(): number {
+    return this.frameDuration;
+  }
+  
   /**
    * Get the current FPS
    */
@@ -219,7 +280,8 @@ export default class GameLoop {
       frameDuration: this.frameDuration,
       updateTime: this.lastUpdateDuration,
       renderTime: this.lastRenderDuration,
-      running: this.running
+      running: this.running,
+      paused: this.paused
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,253 @@
+/**
+ * GestureRecognizer.ts - Turns taps and swipes on the touch screen into game input
+ */
+
+import { Disposable } from './Disposable';
+import InputManager, { InputAction } from './InputManager';
+
+// Gestures the recognizer tells apart
+export type GestureType =
+  'tap' | 'swipeUp' | 'doubleSwipeUp' |
+  'swipeDown' | 'swipeLeft' | 'swipeRight';
+
+// Thresholds deciding what counts as which gesture (distances in CSS pixels, times in milliseconds)
+export interface GestureConfig {
+  minSwipeDistance: number;  // A slow swipe has to travel at least this far
+  minFlickDistance: number;  // A fast flick can be this short...
+  minFlickVelocity: number;  // ...as long as it moves at least this fast (pixels per millisecond)
+  maxSwipeDuration: number;  // Anything slower is a drag, not a swipe
+  maxTapDistance: number;    // A tap can't wander further than this
+  maxTapDuration: number;    // A tap has to be quick
+  doubleSwipeWindow: number; // Two swipes up closer together than this are a double jump
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  minSwipeDistance: 50,
+  minFlickDistance: 20,
+  minFlickVelocity: 0.6,
+  maxSwipeDuration: 500,
+  maxTapDistance: 12,
+  maxTapDuration: 250,
+  doubleSwipeWindow: 400
+};
+
+// Action each gesture presses (null to ignore the gesture) - a double swipe up presses jump
+// again, which the player turns into a double jump while in the air
+export const DEFAULT_GESTURE_ACTIONS: Record<GestureType, InputAction | null> = {
+  tap: 'jump',
+  swipeUp: 'jump',
+  doubleSwipeUp: 'jump',
+  swipeRight: 'trickBlockflip',
+  swipeLeft: 'trickHashSpin',
+  swipeDown: 'trickHodlGrab'
+};
+
+// Where and when a finger touched down
+interface TouchStart {
+  x: number;
+  y: number;
+  time: number;
+}
+
+export default class GestureRecognizer implements Disposable {
+  private inputManager: InputManager;
+  private config: GestureConfig;
+  private gestureActions: Record<GestureType, InputAction | null>;
+  private enabled: boolean = true;
+
+  // Fingers currently down, by touch identifier
+  private touchStarts: Map<number, TouchStart> = new Map();
+
+  // When the last swipe up ended (for spotting double swipes)
+  private lastSwipeUpTime: number = -Infinity;
+
+  // Bound listeners, kept so exactly these can be removed again
+  private element: HTMLElement | null = null;
+  private previousTouchAction: string = '';
+  private handleTouchStart: ((e: TouchEvent) => void) | null = null;
+  private handleTouchEnd: ((e: TouchEvent) => void) | null = null;
+  private handleTouchCancel: ((e: TouchEvent) => void) | null = null;
+
+  constructor(
+    inputManager: InputManager,
+    config: Partial<GestureConfig> = {},
+    gestureActions: Record<GestureType, InputAction | null> = DEFAULT_GESTURE_ACTIONS
+  ) {
+    this.inputManager = inputManager;
+    this.config = { ...DEFAULT_GESTURE_CONFIG, ...config };
+    this.gestureActions = { ...gestureActions };
+    console.log('GestureRecognizer created');
+  }
+
+  /**
+   * Change some of the thresholds
+   */
+  public setConfig(config: Partial<GestureConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get a copy of the current thresholds
+   */
+  public getConfig(): GestureConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Turn recognition on or off (fingers already down are forgotten)
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.touchStarts.clear();
+    }
+  }
+
+  /**
+   * Listen for gestures on an element - touches that start on buttons or links are left to them
+   */
+  public bind(element: HTMLElement): void {
+    // Already listening
+    if (this.element) return;
+
+    this.element = element;
+
+    this.handleTouchStart = (e: TouchEvent) => {
+      if (this.isOnControl(e.target)) return;
+      Array.from(e.changedTouches).forEach(touch => {
+        this.touchStart(touch.identifier, touch.clientX, touch.clientY, e.timeStamp);
+      });
+    };
+
+    this.handleTouchEnd = (e: TouchEvent) => {
+      Array.from(e.changedTouches).forEach(touch => {
+        this.touchEnd(touch.identifier, touch.clientX, touch.clientY, e.timeStamp);
+      });
+    };
+
+    // A cancelled touch (e.g. a system gesture taking over) never counts as a gesture
+    this.handleTouchCancel = (e: TouchEvent) => {
+      Array.from(e.changedTouches).forEach(touch => this.touchCancel(touch.identifier));
+    };
+
+    element.addEventListener('touchstart', this.handleTouchStart);
+    element.addEventListener('touchend', this.handleTouchEnd);
+    element.addEventListener('touchcancel', this.handleTouchCancel);
+
+    // Stop the browser from scrolling or zooming on swipes over the game
+    this.previousTouchAction = element.style.touchAction;
+    element.style.touchAction = 'none';
+
+    console.log('Gesture listeners attached');
+  }
+
+  /**
+   * Stop listening for gestures
+   */
+  public unbind(): void {
+    if (!this.element) return;
+
+    if (this.handleTouchStart) this.element.removeEventListener('touchstart', this.handleTouchStart);
+    if (this.handleTouchEnd) this.element.removeEventListener('touchend', this.handleTouchEnd);
+    if (this.handleTouchCancel) this.element.removeEventListener('touchcancel', this.handleTouchCancel);
+    this.element.style.touchAction = this.previousTouchAction;
+
+    this.handleTouchStart = null;
+    this.handleTouchEnd = null;
+    this.handleTouchCancel = null;
+    this.element = null;
+    this.touchStarts.clear();
+
+    console.log('Gesture listeners removed');
+  }
+
+  /**
+   * A finger touched down
+   */
+  public touchStart(id: number, x: number, y: number, time: number): void {
+    if (!this.enabled) return;
+    this.touchStarts.set(id, { x, y, time });
+  }
+
+  /**
+   * A finger lifted - presses the action of the gesture it made, if any
+   */
+  public touchEnd(id: number, x: number, y: number, time: number): GestureType | null {
+    try {
+      const start = this.touchStarts.get(id);
+      this.touchStarts.delete(id);
+      if (!this.enabled || !start) return null;
+
+      let gesture = this.recognize(x - start.x, y - start.y, time - start.time);
+      if (!gesture) return null;
+
+      // A second swipe up soon after the first is a double jump
+      if (gesture === 'swipeUp') {
+        if (time - this.lastSwipeUpTime <= this.config.doubleSwipeWindow) {
+          gesture = 'doubleSwipeUp';
+          this.lastSwipeUpTime = -Infinity;
+        } else {
+          this.lastSwipeUpTime = time;
+        }
+      }
+
+      const action = this.gestureActions[gesture];
+      console.log(`Gesture recognized: ${gesture}${action ? ` -> ${action}` : ''}`);
+      if (action) {
+        this.inputManager.pressGesture(action);
+      }
+
+      return gesture;
+    } catch (err) {
+      console.error('Error in GestureRecognizer.touchEnd:', err);
+      return null;
+    }
+  }
+
+  /**
+   * A touch was cancelled
+   */
+  public touchCancel(id: number): void {
+    this.touchStarts.delete(id);
+  }
+
+  /**
+   * Work out which gesture a finger movement was (null if it was none of them)
+   */
+  public recognize(dx: number, dy: number, duration: number): GestureType | null {
+    const distance = Math.hypot(dx, dy);
+
+    if (distance <= this.config.maxTapDistance) {
+      return duration <= this.config.maxTapDuration ? 'tap' : null;
+    }
+
+    if (duration > this.config.maxSwipeDuration) return null;
+
+    // Long enough to be a swipe, or short but quick enough to be a flick
+    const velocity = distance / Math.max(duration, 1);
+    const isSwipe = distance >= this.config.minSwipeDistance;
+    const isFlick = distance >= this.config.minFlickDistance && velocity >= this.config.minFlickVelocity;
+    if (!isSwipe && !isFlick) return null;
+
+    // Direction is whichever axis it moved along most (screen y grows downwards)
+    if (Math.abs(dx) > Math.abs(dy)) {
+      return dx > 0 ? 'swipeRight' : 'swipeLeft';
+    }
+    return dy < 0 ? 'swipeUp' : 'swipeDown';
+  }
+
+  // Check if a touch landed on something with its own handling (menu buttons, touch buttons, links)
+  private isOnControl(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return Boolean(element && typeof element.closest === 'function' && element.closest('button, a, .touch-control'));
+  }
+
+  /**
+   * Remove the listeners and forget any fingers down
+   */
+  public dispose(): void {
+    this.unbind();
+    this.touchStarts.clear();
+    console.log('Gesture recognizer disposed');
+  }
+}
@@ -1,68 +1,147 @@
 /**
- * InputManager.ts - Handles keyboard and touch input
+ * InputManager.ts - Handles keyboard, gamepad and touch input
  */
 
+import { Disposable } from './Disposable';
+
 // Define supported input actions
 export type InputAction = 
   'jump' | 'left' | 'right' | 
   'trickBlockflip' | 'trickHashSpin' | 'trickHodlGrab';
 
+// Every input action, in a fixed order (used to pack action state into bitmasks for recordings)
+export const INPUT_ACTIONS: InputAction[] = [
+  'jump', 'left', 'right',
+  'trickBlockflip', 'trickHashSpin', 'trickHodlGrab'
+];
+
 // Interface for a key binding
-interface KeyBinding {
+export interface KeyBinding {
   code: string;
-  key?: string;
+  key?: string; // Character the key produced when it was bound (shown to the player instead of the code)
   action: InputAction;
 }
 
-export default class InputManager {
+// Default key mapping - players can rebind these from the settings panel
+export const DEFAULT_KEY_BINDINGS: KeyBinding[] = [
+  { code: 'Space', action: 'jump' },
+  { code: 'KeyW', action: 'jump' },
+  { code: 'ArrowUp', action: 'jump' },
+  
+  { code: 'ArrowLeft', action: 'left' },
+  { code: 'KeyA', action: 'left' },
+  
+  { code: 'ArrowRight', action: 'right' },
+  { code: 'KeyD', action: 'right' },
+  
+  { code: 'KeyQ', action: 'trickBlockflip' },
+  { code: 'KeyE', action: 'trickHashSpin' },
+  { code: 'KeyR', action: 'trickHodlGrab' }
+];
+
+// Default mapping for standard-layout controllers - gamepad inputs are tracked under synthetic
+// codes ("GamepadButton<index>", "GamepadAxis<index>+/-") alongside the keyboard codes
+export const DEFAULT_GAMEPAD_BINDINGS: KeyBinding[] = [
+  { code: 'GamepadButton0', action: 'jump' },           // A / Cross
+  { code: 'GamepadButton12', action: 'jump' },          // D-pad up
+  
+  { code: 'GamepadButton14', action: 'left' },          // D-pad left
+  { code: 'GamepadAxis0-', action: 'left' },            // Left stick left
+  { code: 'GamepadButton4', action: 'left' },           // Left shoulder
+  
+  { code: 'GamepadButton15', action: 'right' },         // D-pad right
+  { code: 'GamepadAxis0+', action: 'right' },           // Left stick right
+  { code: 'GamepadButton5', action: 'right' },          // Right shoulder
+  
+  { code: 'GamepadButton2', action: 'trickBlockflip' }, // X / Square
+  { code: 'GamepadButton3', action: 'trickHashSpin' },  // Y / Triangle
+  { code: 'GamepadButton1', action: 'trickHodlGrab' }   // B / Circle
+];
+
+// How far a stick has to be pushed before it counts (filters out drift on worn sticks)
+export const GAMEPAD_AXIS_DEADZONE = 0.35;
+
+// Synthetic code an on-screen touch button presses ("Touch:<action>") - touch buttons always
+// trigger their own action, whatever the keys are bound to
+export const getTouchCode = (action: InputAction): string => `Touch:${action}`;
+
+// Synthetic code a recognized gesture (tap, swipe) presses ("Gesture:<action>") for a single frame
+export const getGestureCode = (action: InputAction): string => `Gesture:${action}`;
+
+// Distance of the lowest row of touch buttons from the bottom of the container (clears the footer bar)
+const TOUCH_CONTROLS_BOTTOM = 80;
+
+export default class InputManager implements Disposable {
   // Key state tracking
   private keysDown: Set<string> = new Set();
   private keysPressed: Set<string> = new Set();
   private keysReleased: Set<string> = new Set();
   
-  // Touch controls tracking
+  // Touch controls tracking - the fingers currently on each button, by touch code
   private touchElements: HTMLElement[] = [];
+  private touchIdsDown: Map<string, Set<number>> = new Map();
+  private touchControlsVisible: boolean = true;
+  
+  // Gesture presses waiting to be released on the next update
+  private gestureCodesDown: Set<string> = new Set();
+  
+  // Bound keyboard listeners, kept so exactly these can be removed again
+  private handleKeyDown: ((e: KeyboardEvent) => void) | null = null;
+  private handleKeyUp: ((e: KeyboardEvent) => void) | null = null;
 
   // Key mapping configuration
-  private keyMap: KeyBinding[] = [
-    { code: 'Space', action: 'jump' },
-    { code: 'KeyW', action: 'jump' },
-    { code: 'ArrowUp', action: 'jump' },
-    
-    { code: 'ArrowLeft', action: 'left' },
-    { code: 'KeyA', action: 'left' },
-    
-    { code: 'ArrowRight', action: 'right' },
-    { code: 'KeyD', action: 'right' },
-    
-    { code: 'KeyQ', action: 'trickBlockflip' },
-    { code: 'KeyE', action: 'trickHashSpin' },
-    { code: 'KeyR', action: 'trickHodlGrab' }
-  ];
+  private keyMap: KeyBinding[];
+  private gamepadMap: KeyBinding[] = DEFAULT_GAMEPAD_BINDINGS;
+  
+  // Gamepad tracking - codes held on any connected controller as of the last poll
+  private gamepadCodesDown: Set<string> = new Set();
+  private gamepadsConnected: number = 0;
+  private gamepadChangeCallback: ((connected: boolean) => void) | null = null;
+  private handleGamepadConnected: ((e: GamepadEvent) => void) | null = null;
+  private handleGamepadDisconnected: ((e: GamepadEvent) => void) | null = null;
 
-  constructor() {
+  constructor(keyBindings: KeyBinding[] = DEFAULT_KEY_BINDINGS) {
+    this.keyMap = keyBindings.map(binding => ({ ...binding }));
     console.log('InputManager created');
   }
 
+  // Replace the key mapping (e.g. after the player rebinds a key in the settings)
+  public setKeyBindings(keyBindings: KeyBinding[]): void {
+    this.keyMap = keyBindings.map(binding => ({ ...binding }));
+    console.log('Key bindings updated:', this.keyMap);
+  }
+
+  // Get a copy of the current key mapping
+  public getKeyBindings(): KeyBinding[] {
+    return this.keyMap.map(binding => ({ ...binding }));
+  }
+
+  // Check if any key, gamepad or touch input bound to an action is in a set of codes
+  private hasBoundCode(action: InputAction, codes: Set<string>): boolean {
+    return this.keyMap.some(mapping => mapping.action === action && codes.has(mapping.code)) ||
+      this.gamepadMap.some(mapping => mapping.action === action && codes.has(mapping.code)) ||
+      codes.has(getTouchCode(action)) ||
+      codes.has(getGestureCode(action));
+  }
+
   // Check if a key is currently pressed
   public isPressed(action: InputAction): boolean {
-    return this.keyMap.some(mapping => 
-      mapping.action === action && this.keysDown.has(mapping.code)
-    );
+    return this.hasBoundCode(action, this.keysDown);
   }
 
   // Check if a key was just pressed this frame
   public wasJustPressed(action: InputAction): boolean {
-    return this.keyMap.some(mapping => 
-      mapping.action === action && this.keysPressed.has(mapping.code)
-    );
+    return this.hasBoundCode(action, this.keysPressed);
   }
 
   // Check if a key was just released this frame
   public wasJustReleased(action: InputAction): boolean {
-    return this.keyMap.some(mapping => 
-      mapping.action === action && this.keysReleased.has(mapping.code)
-    );
+    return this.hasBoundCode(action, this.keysReleased);
+  }
+
+  // Check if an action was just pressed on a controller (the keyboard has its own listeners for menus)
+  public wasGamepadJustPressed(action: InputAction): boolean {
+    return this.gamepadMap.some(mapping => mapping.action === action && this.keysPressed.has(mapping.code));
   }
 
   // Check if any key was just pressed this frame (used for power-up activation)
@@ -72,7 +151,10 @@ export default class InputManager {
 
   // Bind keyboard event listeners
   public bindKeys(): void {
-    const handleKeyDown = (e: KeyboardEvent) => {
+    // Binding twice would deliver every key event twice
+    if (this.handleKeyDown) return;
+    
+    this.handleKeyDown = (e: KeyboardEvent) => {
       // Find if this is a game key we care about
       const isGameKey = this.keyMap.some(mapping => mapping.code === e.code);
       
@@ -88,7 +170,7 @@ export default class InputManager {
       }
     };
 
-    const handleKeyUp = (e: KeyboardEvent) => {
+    this.handleKeyUp = (e: KeyboardEvent) => {
       // Find if this is a game key we care about
       const isGameKey = this.keyMap.some(mapping => mapping.code === e.code);
       
@@ -102,82 +184,264 @@ export default class InputManager {
       this.keysDown.delete(e.code);
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
     
     console.log('Key bindings attached with mappings:', this.keyMap);
   }
 
-  // Bind touch controls for mobile devices
+  // Add the on-screen buttons for touch screens to a container (the element the game is drawn in)
   public bindTouchControls(container: HTMLElement): void {
-    this.createTouchButton(container, 'left', 20, -70, 'LEFT');
-    this.createTouchButton(container, 'right', 100, -70, 'RIGHT');
-    this.createTouchButton(container, 'jump', -70, -70, 'JUMP');
+    // Already added
+    if (this.touchElements.length > 0) return;
     
-    // Add trick buttons on right side
-    this.createTouchButton(container, 'trickBlockflip', -70, -150, 'FLIP');
-    this.createTouchButton(container, 'trickHashSpin', -150, -150, '360');
+    // Speed on the left thumb, jump and tricks on the right thumb - kept above the footer bar
+    this.createTouchButton(container, 'left', { left: 20, bottom: TOUCH_CONTROLS_BOTTOM }, '◀');
+    this.createTouchButton(container, 'right', { left: 100, bottom: TOUCH_CONTROLS_BOTTOM }, '▶');
+    this.createTouchButton(container, 'jump', { right: 20, bottom: TOUCH_CONTROLS_BOTTOM }, 'JUMP', true);
     
+    this.createTouchButton(container, 'trickBlockflip', { right: 130, bottom: TOUCH_CONTROLS_BOTTOM }, 'FLIP');
+    this.createTouchButton(container, 'trickHashSpin', { right: 130, bottom: TOUCH_CONTROLS_BOTTOM + 80 }, '360');
+    this.createTouchButton(container, 'trickHodlGrab', { right: 30, bottom: TOUCH_CONTROLS_BOTTOM + 110 }, 'GRAB');
+    
+    this.setTouchControlsVisible(this.touchControlsVisible);
     console.log('Touch controls added to container');
   }
 
-  // Create a touch button element
+  // Show or hide the on-screen buttons (hiding lets go of anything held on them)
+  public setTouchControlsVisible(visible: boolean): void {
+    this.touchControlsVisible = visible;
+    this.touchElements.forEach(el => {
+      el.style.display = visible ? 'flex' : 'none';
+    });
+    
+    if (!visible) {
+      this.releaseAllTouches();
+    }
+  }
+
+  // Check if an action was just pressed on the touch screen, by button or gesture (the keyboard has its own listeners for menus)
+  public wasTouchJustPressed(action: InputAction): boolean {
+    return this.keysPressed.has(getTouchCode(action)) || this.keysPressed.has(getGestureCode(action));
+  }
+
+  // Press an action for a single frame (called by the gesture recognizer) - it reads as just pressed
+  // and held until the next update, then as just released
+  public pressGesture(action: InputAction): void {
+    const code = getGestureCode(action);
+    if (this.gestureCodesDown.has(code)) return;
+    
+    this.gestureCodesDown.add(code);
+    this.keysDown.add(code);
+    this.keysPressed.add(code);
+  }
+
+  // Create a touch button element - every finger on it is tracked, so it stays held until the last one lifts
   private createTouchButton(
     container: HTMLElement, 
     action: InputAction, 
-    right: number, 
-    bottom: number, 
-    label: string
+    position: { left?: number; right?: number; bottom: number },
+    label: string,
+    large: boolean = false
   ): HTMLElement {
+    const code = getTouchCode(action);
     const button = document.createElement('div');
-    button.className = 'touch-control';
+    button.className = large ? 'touch-control touch-control-large' : 'touch-control';
     button.textContent = label;
-    button.style.right = `${right}px`;
-    button.style.bottom = `${bottom}px`;
+    button.dataset.touchCode = code;
+    if (position.left !== undefined) button.style.left = `${position.left}px`;
+    if (position.right !== undefined) button.style.right = `${position.right}px`;
+    button.style.bottom = `${position.bottom}px`;
     
     // Handle touch events
     button.addEventListener('touchstart', (e) => {
       e.preventDefault();
-      console.log(`Touch ${action} started`);
       
-      // Find the corresponding keyboard action
-      const binding = this.keyMap.find(k => k.action === action);
-      if (binding) {
-        this.keysDown.add(binding.code);
-        this.keysPressed.add(binding.code);
+      const touchIds = this.touchIdsDown.get(code) || new Set<number>();
+      const wasDown = touchIds.size > 0;
+      Array.from(e.changedTouches).forEach(touch => touchIds.add(touch.identifier));
+      this.touchIdsDown.set(code, touchIds);
+      
+      if (!wasDown) {
+        console.log(`Touch ${action} started`);
+        this.keysDown.add(code);
+        this.keysPressed.add(code);
+        button.classList.add('touch-control-pressed');
       }
     });
     
-    button.addEventListener('touchend', (e) => {
+    // A lifted finger and a cancelled touch (e.g. a system gesture or alert taking over) both end it
+    const handleTouchEnd = (e: TouchEvent) => {
       e.preventDefault();
-      console.log(`Touch ${action} ended`);
       
-      // Find the corresponding keyboard action
-      const binding = this.keyMap.find(k => k.action === action);
-      if (binding) {
-        this.keysDown.delete(binding.code);
-        this.keysReleased.add(binding.code);
+      const touchIds = this.touchIdsDown.get(code);
+      if (!touchIds) return;
+      
+      Array.from(e.changedTouches).forEach(touch => touchIds.delete(touch.identifier));
+      if (touchIds.size === 0) {
+        console.log(`Touch ${action} ended (${e.type})`);
+        this.releaseTouch(code);
       }
-    });
+    };
+    
+    button.addEventListener('touchend', handleTouchEnd);
+    button.addEventListener('touchcancel', handleTouchEnd);
     
     container.appendChild(button);
     this.touchElements.push(button);
     return button;
   }
 
+  // Let go of a touch button
+  private releaseTouch(code: string): void {
+    this.touchIdsDown.delete(code);
+    this.touchElements
+      .filter(el => el.dataset.touchCode === code)
+      .forEach(el => el.classList.remove('touch-control-pressed'));
+
+    if (this.keysDown.has(code)) {
+      this.keysDown.delete(code);
+      this.keysReleased.add(code);
+    }
+  }
+
+  // Let go of every touch button
+  private releaseAllTouches(): void {
+    Array.from(this.touchIdsDown.keys()).forEach(code => this.releaseTouch(code));
+  }
+
+  // Listen for controllers being plugged in or unplugged
+  public bindGamepads(): void {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+      console.log('Gamepad API not supported');
+      return;
+    }
+    
+    // Already listening
+    if (this.handleGamepadConnected) return;
+    
+    this.handleGamepadConnected = (e: GamepadEvent) => {
+      console.log(`Gamepad connected: ${e.gamepad.id} (${e.gamepad.mapping || 'non-standard'} mapping)`);
+      this.updateGamepadCount();
+    };
+    
+    this.handleGamepadDisconnected = (e: GamepadEvent) => {
+      console.log(`Gamepad disconnected: ${e.gamepad.id}`);
+      this.updateGamepadCount();
+    };
+    
+    window.addEventListener('gamepadconnected', this.handleGamepadConnected);
+    window.addEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    
+    // Pick up controllers that were connected before the game loaded
+    this.updateGamepadCount();
+  }
+
+  // Set the function to call when the first controller connects or the last one disconnects
+  public setGamepadChangeCallback(callback: (connected: boolean) => void): void {
+    this.gamepadChangeCallback = callback;
+  }
+
+  // Check if any controller is connected
+  public isGamepadConnected(): boolean {
+    return this.gamepadsConnected > 0;
+  }
+
+  // Get the connected controllers
+  private getConnectedGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  // Recount controllers and report when they come and go
+  private updateGamepadCount(): void {
+    const wasConnected = this.isGamepadConnected();
+    this.gamepadsConnected = this.getConnectedGamepads().length;
+    
+    if (wasConnected !== this.isGamepadConnected() && this.gamepadChangeCallback) {
+      this.gamepadChangeCallback(this.isGamepadConnected());
+    }
+  }
+
+  // Read every connected controller and turn changes into key presses and releases
+  private pollGamepads(): void {
+    if (this.gamepadsConnected === 0 && this.gamepadCodesDown.size === 0) return;
+    
+    // Collect what's held right now across all controllers
+    const codesDown: Set<string> = new Set();
+    this.getConnectedGamepads().forEach(pad => {
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) {
+          codesDown.add(`GamepadButton${index}`);
+        }
+      });
+      
+      pad.axes.forEach((value, index) => {
+        if (value <= -GAMEPAD_AXIS_DEADZONE) {
+          codesDown.add(`GamepadAxis${index}-`);
+        } else if (value >= GAMEPAD_AXIS_DEADZONE) {
+          codesDown.add(`GamepadAxis${index}+`);
+        }
+      });
+    });
+    
+    // Newly held inputs are presses, inputs no longer held (or on an unplugged controller) are releases
+    codesDown.forEach(code => {
+      if (!this.gamepadCodesDown.has(code)) {
+        this.keysDown.add(code);
+        this.keysPressed.add(code);
+      }
+    });
+    
+    this.gamepadCodesDown.forEach(code => {
+      if (!codesDown.has(code)) {
+        this.keysDown.delete(code);
+        this.keysReleased.add(code);
+      }
+    });
+    
+    this.gamepadCodesDown = codesDown;
+  }
+
   // Update input state (called once per frame)
   public update(): void {
     // Clear the just-pressed and just-released sets
     this.keysPressed.clear();
     this.keysReleased.clear();
+    
+    // Gestures are over as soon as they happen, so release them after the frame that saw them
+    this.gestureCodesDown.forEach(code => {
+      this.keysDown.delete(code);
+      this.keysReleased.add(code);
+    });
+    this.gestureCodesDown.clear();
+    
+    // Controllers have no events for buttons, so read them for the next frame here
+    this.pollGamepads();
   }
 
-  // Remove all event listeners (called on cleanup)
+  // Forget all key state, including held keys (called when the game resumes after a pause,
+  // since keys pressed or released while paused - or while the window lost focus - never reached the game)
+  public clear(): void {
+    this.keysDown.clear();
+    this.keysPressed.clear();
+    this.keysReleased.clear();
+    this.gamepadCodesDown.clear();
+    this.touchIdsDown.clear();
+    this.gestureCodesDown.clear();
+    this.touchElements.forEach(el => el.classList.remove('touch-control-pressed'));
+  }
+
+  // Remove the keyboard listeners and touch buttons
   public unbindKeys(): void {
-    // Note: For proper cleanup we should store and remove the exact
-    // event listener functions, but this simplifies our example
-    window.removeEventListener('keydown', () => {});
-    window.removeEventListener('keyup', () => {});
+    if (this.handleKeyDown) {
+      window.removeEventListener('keydown', this.handleKeyDown);
+      this.handleKeyDown = null;
+    }
+    if (this.handleKeyUp) {
+      window.removeEventListener('keyup', this.handleKeyUp);
+      this.handleKeyUp = null;
+    }
     
     // Remove touch buttons
     this.touchElements.forEach(el => {
@@ -187,4 +451,25 @@ export default class InputManager {
     
     console.log('Input bindings removed');
   }
+
+  // Stop listening for controllers
+  public unbindGamepads(): void {
+    if (this.handleGamepadConnected) {
+      window.removeEventListener('gamepadconnected', this.handleGamepadConnected);
+      this.handleGamepadConnected = null;
+    }
+    if (this.handleGamepadDisconnected) {
+      window.removeEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+      this.handleGamepadDisconnected = null;
+    }
+    this.gamepadChangeCallback = null;
+  }
+
+  // Remove every listener and forget all input state (called on cleanup)
+  public dispose(): void {
+    this.unbindKeys();
+    this.unbindGamepads();
+    this.clear();
+    console.log('Input manager disposed');
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,197 @@
+/**
+ * InputRecorder.ts - Records the per-tick input stream of a run so it can be replayed
+ */
+
+import InputManager, { INPUT_ACTIONS } from './InputManager';
+import { DEFAULT_DIFFICULTY, DifficultyPreset, isDifficultyPreset } from './Difficulty';
+
+// Bit layout of a recorded frame - one bit per action in each of the three groups
+const ACTION_COUNT = INPUT_ACTIONS.length;
+const PRESSED_SHIFT = ACTION_COUNT;
+const RELEASED_SHIFT = ACTION_COUNT * 2;
+const ANY_KEY_BIT = 1 << (ACTION_COUNT * 3);
+
+// Bump this whenever the frame layout or the simulation changes so old recordings are rejected
+// (2: tricks from the trick keys in the air, bails and combo scoring; 3: rail grinding; 4: ramp launches;
+// 5: per-shape hitboxes; 6: difficulty presets; 7: spawns kept clearable; 8: obstacle patterns;
+// 9: pattern power-ups kept within the per-minute limit; 10: rails can't be regrabbed after rolling off;
+// 11: player hitbox measured from the sprite)
+export const RECORDING_VERSION = 11;
+
+// A complete recorded run
+export interface InputRecording {
+  version: number;
+  seed: number;      // Course seed the run was played on
+  difficulty: DifficultyPreset; // Difficulty preset the course was generated with
+  timestep: number;  // GameLoop fixed timestep in ms
+  frames: number[];  // One packed input frame per update tick
+  sats?: number;     // Sats shown when the run ended (for display only - never trusted)
+}
+
+// Serialized form - frames are run-length encoded as [frame, count] pairs
+interface SerializedRecording {
+  version: number;
+  seed: number;
+  difficulty: DifficultyPreset;
+  timestep: number;
+  frames: [number, number][];
+  sats?: number;
+}
+
+/**
+ * Pack the state of every action this tick into a single integer
+ */
+export const packInputFrame = (inputManager: InputManager): number => {
+  let frame = 0;
+
+  INPUT_ACTIONS.forEach((action, index) => {
+    if (inputManager.isPressed(action)) frame |= 1 << index;
+    if (inputManager.wasJustPressed(action)) frame |= 1 << (index + PRESSED_SHIFT);
+    if (inputManager.wasJustReleased(action)) frame |= 1 << (index + RELEASED_SHIFT);
+  });
+
+  if (inputManager.hasAnyKeyJustPressed()) frame |= ANY_KEY_BIT;
+
+  return frame;
+};
+
+/**
+ * Check if an action was held down in a packed frame
+ */
+export const frameHasDown = (frame: number, actionIndex: number): boolean =>
+  (frame & (1 << actionIndex)) !== 0;
+
+/**
+ * Check if an action was just pressed in a packed frame
+ */
+export const frameHasPressed = (frame: number, actionIndex: number): boolean =>
+  (frame & (1 << (actionIndex + PRESSED_SHIFT))) !== 0;
+
+/**
+ * Check if an action was just released in a packed frame
+ */
+export const frameHasReleased = (frame: number, actionIndex: number): boolean =>
+  (frame & (1 << (actionIndex + RELEASED_SHIFT))) !== 0;
+
+/**
+ * Check if any key at all was just pressed in a packed frame
+ */
+export const frameHasAnyKey = (frame: number): boolean => (frame & ANY_KEY_BIT) !== 0;
+
+/**
+ * Turn a recording into a compact JSON string for sharing or submitting
+ */
+export const serializeRecording = (recording: InputRecording): string => {
+  // Most ticks repeat the previous input, so run-length encoding keeps long runs small
+  const frames: [number, number][] = [];
+  recording.frames.forEach(frame => {
+    const last = frames[frames.length - 1];
+    if (last && last[0] === frame) {
+      last[1]++;
+    } else {
+      frames.push([frame, 1]);
+    }
+  });
+
+  const serialized: SerializedRecording = {
+    version: recording.version,
+    seed: recording.seed,
+    difficulty: recording.difficulty,
+    timestep: recording.timestep,
+    frames,
+    sats: recording.sats
+  };
+
+  return JSON.stringify(serialized);
+};
+
+/**
+ * Parse a recording from serialized JSON (or an already parsed object)
+ * Returns null if the data isn't a valid recording
+ */
+export const parseRecording = (data: unknown, maxFrames: number = Infinity): InputRecording | null => {
+  try {
+    const parsed = (typeof data === 'string' ? JSON.parse(data) : data) as Partial<SerializedRecording> | null;
+    if (!parsed || parsed.version !== RECORDING_VERSION) return null;
+    if (typeof parsed.seed !== 'number' || !Number.isFinite(parsed.seed)) return null;
+    if (!isDifficultyPreset(parsed.difficulty)) return null;
+    if (typeof parsed.timestep !== 'number' || !(parsed.timestep > 0)) return null;
+    if (!Array.isArray(parsed.frames)) return null;
+
+    const frames: number[] = [];
+    for (const run of parsed.frames) {
+      if (!Array.isArray(run) || run.length !== 2) return null;
+
+      const [frame, count] = run;
+      if (!Number.isInteger(frame) || frame < 0 || frame > ANY_KEY_BIT * 2 - 1) return null;
+      if (!Number.isInteger(count) || count < 1) return null;
+
+      // Refuse oversized recordings before expanding them
+      if (frames.length + count > maxFrames) return null;
+
+      for (let i = 0; i < count; i++) {
+        frames.push(frame);
+      }
+    }
+
+    return {
+      version: parsed.version,
+      seed: parsed.seed >>> 0,
+      difficulty: parsed.difficulty,
+      timestep: parsed.timestep,
+      frames,
+      sats: typeof parsed.sats === 'number' ? parsed.sats : undefined
+    };
+  } catch (err) {
+    console.error('Error parsing input recording:', err);
+    return null;
+  }
+};
+
+export default class InputRecorder {
+  private recording: InputRecording | null = null;
+
+  /**
+   * Start recording a new run (any recording in progress is discarded)
+   */
+  public start(seed: number, timestep: number, difficulty: DifficultyPreset = DEFAULT_DIFFICULTY): void {
+    this.recording = {
+      version: RECORDING_VERSION,
+      seed,
+      difficulty,
+      timestep,
+      frames: []
+    };
+    console.log(`Input recording started (seed ${seed}, ${difficulty} difficulty, timestep ${timestep.toFixed(2)}ms)`);
+  }
+
+  /**
+   * Record the input state of the current tick - call once per update, before anything reads input
+   */
+  public capture(inputManager: InputManager): void {
+    if (!this.recording) return;
+    this.recording.frames.push(packInputFrame(inputManager));
+  }
+
+  /**
+   * Stop recording and return the finished recording
+   */
+  public stop(sats?: number): InputRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+
+    if (recording) {
+      recording.sats = sats;
+      console.log(`Input recording stopped after ${recording.frames.length} frames`);
+    }
+
+    return recording;
+  }
+
+  /**
+   * Check if a run is currently being recorded
+   */
+  public isRecording(): boolean {
+    return this.recording !== null;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * PlaybackInputManager.ts - Feeds a recorded input stream back to the game, one frame per tick
+ */
+
+import InputManager, { InputAction, INPUT_ACTIONS } from './InputManager';
+import {
+  InputRecording,
+  frameHasAnyKey,
+  frameHasDown,
+  frameHasPressed,
+  frameHasReleased
+} from './InputRecorder';
+
+export default class PlaybackInputManager extends InputManager {
+  private recording: InputRecording;
+  private frameIndex: number = 0;
+
+  constructor(recording: InputRecording) {
+    super();
+    this.recording = recording;
+    console.log(`Playback input manager created with ${recording.frames.length} frames`);
+  }
+
+  // Packed input of the current tick (no input once the recording has run out)
+  private currentFrame(): number {
+    return this.frameIndex < this.recording.frames.length ? this.recording.frames[this.frameIndex] : 0;
+  }
+
+  public isPressed(action: InputAction): boolean {
+    return frameHasDown(this.currentFrame(), INPUT_ACTIONS.indexOf(action));
+  }
+
+  public wasJustPressed(action: InputAction): boolean {
+    return frameHasPressed(this.currentFrame(), INPUT_ACTIONS.indexOf(action));
+  }
+
+  public wasJustReleased(action: InputAction): boolean {
+    return frameHasReleased(this.currentFrame(), INPUT_ACTIONS.indexOf(action));
+  }
+
+  public hasAnyKeyJustPressed(): boolean {
+    return frameHasAnyKey(this.currentFrame());
+  }
+
+  // Playback ignores the keyboard, controllers and touch screen entirely
+  public bindKeys(): void {}
+
+  public bindGamepads(): void {}
+
+  public bindTouchControls(): void {}
+
+  // Advance to the next recorded frame (called once per tick, like InputManager.update)
+  public update(): void {
+    if (this.frameIndex < this.recording.frames.length) {
+      this.frameIndex++;
+    }
+  }
+
+  /**
+   * Rewind to the first frame to watch the run again
+   */
+  public rewind(): void {
+    this.frameIndex = 0;
+  }
+
+  /**
+   * Check if every recorded frame has been played
+   */
+  public isFinished(): boolean {
+    return this.frameIndex >= this.recording.frames.length;
+  }
+
+  /**
+   * Get playback progress as [current frame, total frames]
+   */
+  public getProgress(): [number, number] {
+    return [this.frameIndex, this.recording.frames.length];
+  }
+
+  public getRecording(): InputRecording {
+    return this.recording;
+  }
+}
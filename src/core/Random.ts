@@ -0,0 +1,71 @@
+/**
+ * Random.ts - Seedable pseudo-random number generator for reproducible runs
+ */
+
+export default class Random {
+  // The seed this generator was created with (kept for bug reports and replays)
+  public readonly seed: number;
+
+  // Internal PRNG state
+  private state: number;
+
+  constructor(seed: number = Random.createSeed()) {
+    // Normalize to an unsigned 32-bit integer so any number works as a seed
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh seed for a run that doesn't need to be reproducible
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Get the next random number in [0, 1) - drop-in replacement for Math.random()
+   */
+  public next(): number {
+    // mulberry32 - small, fast and good enough for gameplay decisions
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a random float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Get a random integer in [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Pick a random element from a non-empty array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Return true with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Rewind the generator to its initial seed
+   */
+  public reset(): void {
+    this.state = this.seed;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Simulation.ts - Headless game simulation shared by the browser and the server
+ *
+ * The browser renders on top of these steps, the high score API re-runs them on submitted
+ * replays, so anything that changes the outcome of a run has to go through here.
+ */
+
+import InputManager from './InputManager';
+import { InputRecording } from './InputRecorder';
+import PlaybackInputManager from './PlaybackInputManager';
+import Player, { PlayerConfig } from '../entities/Player';
+import ObstacleManager, { CollisionResult } from '../entities/ObstacleManager';
+import { getDifficultyProfile } from './Difficulty';
+
+// Fixed timestep the game is simulated at (60 updates per second)
+export const SIMULATION_TIMESTEP = 1000 / 60;
+
+// Where every run starts
+export const PLAYER_START_X = 100;
+export const PLAYER_START_Y = 300; // Adjusted from 330 to align better with the ground level at 400
+
+// Player setup used for every run
+export const PLAYER_CONFIG: PlayerConfig = {
+  x: PLAYER_START_X,
+  y: PLAYER_START_Y,
+  width: 50,
+  height: 100,
+  speed: 100, // Reduced from 200 to 100 for a slower start
+  jumpForce: 500,
+  gravity: 1200
+};
+
+// Outcome of a simulated run
+export interface SimulationResult {
+  sats: number;
+  frames: number;    // Update ticks simulated
+  crashed: boolean;  // False if the recording ended before the player crashed
+}
+
+/**
+ * Create a player with the standard run setup
+ */
+export const createPlayer = (): Player => {
+  return new Player({ ...PLAYER_CONFIG });
+};
+
+/**
+ * Put the player and course back to the start of a run
+ * Every run (and every replay of it) must start from exactly this state
+ */
+export const resetRun = (player: Player, obstacleManager: ObstacleManager, seed?: number): void => {
+  player.reset(PLAYER_START_X, PLAYER_START_Y);
+  player.state = 'skating';
+  obstacleManager.reset(seed);
+};
+
+/**
+ * Advance the run by one update tick - moves the player, then the course, then resolves crashes
+ */
+export const stepSimulation = (
+  player: Player,
+  obstacleManager: ObstacleManager,
+  inputManager: InputManager,
+  deltaTime: number
+): CollisionResult => {
+  // Update player
+  const wasCrashed = player.crashed;
+  player.update(deltaTime, inputManager);
+
+  // Nothing moves after a crash - bailing a trick or falling off a rail crashes the player by itself
+  if (player.crashed) {
+    return { type: wasCrashed ? 'none' : 'crash' };
+  }
+
+  // Update obstacles and check for collisions
+  const collisionResult = obstacleManager.update(deltaTime, player);
+  if (collisionResult.type === 'crash') {
+    player.crash();
+  }
+
+  return collisionResult;
+};
+
+/**
+ * Run part of the game with its console.log chatter switched off - the game logs every jump,
+ * spawn and sat, which floods the output of headless runs (errors and warnings still get through)
+ */
+export const runQuietly = <T>(run: () => T): T => {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return run();
+  } finally {
+    console.log = log;
+  }
+};
+
+/**
+ * Play a recording back headlessly and return the outcome of the run - quietly (see runQuietly)
+ * unless asked not to
+ */
+export const simulateRecording = (recording: InputRecording, quiet: boolean = true): SimulationResult => {
+  if (quiet) return runQuietly(() => simulateRecording(recording, false));
+
+  const player = createPlayer();
+  const obstacleManager = new ObstacleManager(recording.seed, getDifficultyProfile(recording.difficulty));
+  const inputManager = new PlaybackInputManager(recording);
+
+  resetRun(player, obstacleManager, recording.seed);
+
+  let frames = 0;
+  while (!inputManager.isFinished() && !player.crashed) {
+    stepSimulation(player, obstacleManager, inputManager, recording.timestep);
+    inputManager.update();
+    frames++;
+  }
+
+  return {
+    sats: player.sats,
+    frames,
+    crashed: player.crashed
+  };
+};
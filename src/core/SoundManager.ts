@@ -1,84 +1,252 @@
 /**
- * SoundManager.ts - Handles game audio playback and management
+ * SoundManager.ts - Handles game audio playback and mixing (Web Audio API)
  */
 
-type SoundType = 'jump' | 'crash' | 'music' | 'score' | 'trick';
+import { Disposable } from './Disposable';
 
-class SoundManager {
-  private sounds: Map<SoundType, HTMLAudioElement> = new Map();
-  private musicVolume: number = 0.08;
-  private sfxVolume: number = 0.275;
-  private muted: boolean = false;
+export type SoundType = 'jump' | 'crash' | 'music' | 'score' | 'trick';
 
-  constructor() {
+// Mixer channel a sound plays through
+type SoundBus = 'music' | 'sfx';
+
+// A sound made with an oscillator instead of a sample - a quick slide from one pitch to another
+interface SynthDefinition {
+  wave: OscillatorType;
+  startFrequency: number; // Hz
+  endFrequency: number;   // Hz
+  length: number;         // Seconds
+}
+
+// How a sound is loaded and played - from a sample file (src) or synthesized (synth)
+interface SoundDefinition {
+  src?: string;
+  synth?: SynthDefinition;
+  bus: SoundBus;
+  loop?: boolean;
+  volume?: number;         // Relative to its bus (default 1)
+  playbackRate?: number;   // Base pitch (default 1)
+  pitchVariation?: number; // Random +/- share of the pitch on every play, so repeats don't sound robotic
+  maxVoices?: number;      // Copies that can overlap before the oldest is cut off (default 4)
+}
+
+const SOUND_DEFINITIONS: Record<SoundType, SoundDefinition> = {
+  jump: { src: '/sounds/jump.mp3', bus: 'sfx', pitchVariation: 0.08, maxVoices: 4 },
+  crash: { src: '/sounds/crash.mp3', bus: 'sfx', maxVoices: 1 },
+  score: { src: '/sounds/score.mp3', bus: 'sfx', pitchVariation: 0.05, maxVoices: 4 },
+  // A bright upward zip, well clear of the score chime
+  trick: {
+    synth: { wave: 'square', startFrequency: 440, endFrequency: 1320, length: 0.18 },
+    bus: 'sfx',
+    volume: 0.3,
+    pitchVariation: 0.06,
+    maxVoices: 3
+  },
+  music: { src: '/sounds/background.mp3', bus: 'music', loop: true }
+};
+
+// Most sound effects that can play at once, across all types
+const MAX_SFX_VOICES = 12;
+
+// Player's audio settings - volumes go from 0 to 1
+export interface AudioSettings {
+  masterVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 1,
+  musicVolume: 0.5,
+  sfxVolume: 0.5,
+  muted: false
+};
+
+// Bus gains at full volume - the music sits well under the effects, and the defaults
+// (half volume) match the original mix
+const MAX_MUSIC_GAIN = 0.16;
+const MAX_SFX_GAIN = 0.55;
+
+// Adaptive music - the tempo at full game speed (relative to normal), and how far the music
+// is pulled down and muffled while the player lies crashed
+const MAX_MUSIC_RATE = 1.2;
+const CRASH_DUCK_GAIN = 0.35;
+const CRASH_FILTER_FREQUENCY = 450;
+const OPEN_FILTER_FREQUENCY = 20000;
+
+// How far the music dips under a trick sting, and the notes of the sting (a rising E major arpeggio)
+const STING_DUCK_GAIN = 0.5;
+const STING_NOTES = [659.25, 830.61, 987.77];
+const STING_NOTE_SPACING = 0.08; // Seconds between notes
+const STING_NOTE_LENGTH = 0.25;
+const STING_VOLUME = 0.35;
+
+// Keep a volume between 0 and 1
+const clampVolume = (volume: number): number => Math.min(1, Math.max(0, volume));
+
+// A sound effect that's playing
+interface Voice {
+  type: SoundType;
+  source: AudioScheduledSourceNode;
+  gain: GainNode;
+}
+
+// Get the browser's AudioContext constructor (older Safari only has the prefixed one)
+const getAudioContextClass = (): typeof AudioContext | null => {
+  if (typeof window === 'undefined') return null;
+  return window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext ||
+    null;
+};
+
+class SoundManager implements Disposable {
+  // Mixer: every voice -> its bus gain -> master gain -> speakers
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private buses: Map<SoundBus, GainNode> = new Map();
+
+  // Music effects between the music source and its bus: source -> filter -> duck gain -> music bus
+  private musicFilter: BiquadFilterNode | null = null;
+  private musicDuck: GainNode | null = null;
+  private musicCrashed: boolean = false; // Ducked and muffled until the next run starts the music again
+
+  // Decoded sounds and the effects playing right now (oldest first)
+  private buffers: Map<SoundType, AudioBuffer> = new Map();
+  private voices: Voice[] = [];
+
+  // Background music - one looping source, restarted from where it was paused
+  private musicSource: AudioBufferSourceNode | null = null;
+  private musicStartTime: number = 0; // Context time the music was last (re)started or changed tempo
+  private musicOffset: number = 0;    // Position in the music at musicStartTime (seconds)
+  private musicRate: number = 1;      // Current tempo - positions advance this much faster than real time
+  private musicPending: boolean = false; // Music was asked for before it finished loading
+
+  private disposed: boolean = false;
+  private masterVolume: number;
+  private musicVolume: number;
+  private sfxVolume: number;
+  private muted: boolean;
+
+  constructor(settings: AudioSettings = DEFAULT_AUDIO_SETTINGS) {
+    this.masterVolume = clampVolume(settings.masterVolume);
+    this.musicVolume = clampVolume(settings.musicVolume);
+    this.sfxVolume = clampVolume(settings.sfxVolume);
+    this.muted = settings.muted;
+
+    this.createMixer();
     this.preloadSounds();
   }
 
   /**
-   * Preload all game sounds
+   * Create the audio context and the gain buses
    */
-  private preloadSounds(): void {
+  private createMixer(): void {
     try {
-      // Sound effects
-      this.loadSound('jump', '/sounds/jump.mp3');
-      this.loadSound('crash', '/sounds/crash.mp3');
-      this.loadSound('score', '/sounds/score.mp3');
-      this.loadSound('trick', '/sounds/score.mp3'); // Reusing score sound for trick temporarily
-      
-      // Background music
-      this.loadSound('music', '/sounds/background.mp3', true);
-      
-      console.log('SoundManager: Sounds preloaded');
+      const AudioContextClass = getAudioContextClass();
+      if (!AudioContextClass) {
+        console.warn('SoundManager: Web Audio not supported, sound disabled');
+        return;
+      }
+
+      const context = new AudioContextClass();
+      this.context = context;
+
+      this.masterGain = context.createGain();
+      this.masterGain.connect(context.destination);
+
+      const musicGain = context.createGain();
+      musicGain.connect(this.masterGain);
+      this.buses.set('music', musicGain);
+
+      const sfxGain = context.createGain();
+      sfxGain.connect(this.masterGain);
+      this.buses.set('sfx', sfxGain);
+
+      this.musicFilter = context.createBiquadFilter();
+      this.musicFilter.type = 'lowpass';
+      this.musicFilter.frequency.value = OPEN_FILTER_FREQUENCY;
+      this.musicDuck = context.createGain();
+      this.musicFilter.connect(this.musicDuck);
+      this.musicDuck.connect(musicGain);
+
+      this.applyGains();
     } catch (err) {
-      console.error('SoundManager: Error preloading sounds:', err);
+      console.error('SoundManager: Error creating audio context:', err);
+      this.context = null;
     }
   }
 
   /**
-   * Load a sound file
+   * Preload all sampled game sounds - sounds sharing a file fetch and decode it once
    */
-  private loadSound(type: SoundType, src: string, loop: boolean = false): void {
+  private preloadSounds(): void {
+    if (!this.context) return;
+
     try {
-      const audio = new Audio(src);
-      audio.loop = loop;
-      
-      // Set appropriate volume based on sound type
-      if (type === 'music') {
-        audio.volume = this.musicVolume;
-      } else {
-        audio.volume = this.sfxVolume;
-      }
-      
-      this.sounds.set(type, audio);
-      
-      // Handle loading errors
-      audio.addEventListener('error', (e) => {
-        console.error(`SoundManager: Error loading sound ${type} from ${src}:`, e);
+      const loads: Map<string, Promise<AudioBuffer | null>> = new Map();
+
+      (Object.keys(SOUND_DEFINITIONS) as SoundType[]).forEach(type => {
+        const { src } = SOUND_DEFINITIONS[type];
+        if (!src) return;
+        if (!loads.has(src)) {
+          loads.set(src, this.loadBuffer(src));
+        }
+
+        loads.get(src)!
+          .then(buffer => {
+            if (!buffer || this.disposed) return;
+            this.buffers.set(type, buffer);
+
+            // Start the music now if it was asked for while loading
+            if (type === 'music' && this.musicPending) {
+              this.musicPending = false;
+              this.startMusic();
+            }
+          })
+          .catch(err => {
+            console.error(`SoundManager: Error loading sound ${type} from ${src}:`, err);
+          });
       });
+
+      console.log('SoundManager: Loading sounds');
     } catch (err) {
-      console.error(`SoundManager: Error creating sound ${type}:`, err);
+      console.error('SoundManager: Error preloading sounds:', err);
+    }
+  }
+
+  /**
+   * Fetch and decode a sound file (null if the manager was disposed while it loaded)
+   */
+  private async loadBuffer(src: string): Promise<AudioBuffer | null> {
+    const response = await fetch(src);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
     }
+
+    const data = await response.arrayBuffer();
+    if (!this.context) return null;
+
+    return this.context.decodeAudioData(data);
   }
 
   /**
-   * Play a sound
+   * Play a sound - effects overlap (up to their voice limit), music resumes where it was paused
    */
   public play(type: SoundType): void {
-    if (this.muted) return;
-    
+    if (this.muted || this.disposed || !this.context) return;
+
     try {
-      const sound = this.sounds.get(type);
-      if (sound) {
-        // For sound effects, we want to reset them to start each time
-        if (type !== 'music') {
-          sound.currentTime = 0;
-        }
-        
-        sound.play().catch(err => {
-          console.warn(`SoundManager: Error playing ${type} sound:`, err);
+      // Browsers keep audio suspended until the player interacts with the page
+      if (this.context.state === 'suspended') {
+        this.context.resume().catch(err => {
+          console.warn('SoundManager: Error resuming audio context:', err);
         });
+      }
+
+      if (type === 'music') {
+        this.startMusic();
       } else {
-        console.warn(`SoundManager: Sound ${type} not found`);
+        this.playEffect(type);
       }
     } catch (err) {
       console.error(`SoundManager: Error playing ${type} sound:`, err);
@@ -86,14 +254,171 @@ class SoundManager {
   }
 
   /**
-   * Stop a sound
+   * Start a new voice of a sound effect
+   */
+  private playEffect(type: SoundType): void {
+    const context = this.context;
+    const bus = this.buses.get('sfx');
+    const buffer = this.buffers.get(type);
+    const definition = SOUND_DEFINITIONS[type];
+    if (!context || !bus) return;
+
+    // Vary the pitch a little on every play
+    const variation = definition.pitchVariation ?? 0;
+    const pitch = (definition.playbackRate ?? 1) * (1 + (Math.random() * 2 - 1) * variation);
+
+    const gain = context.createGain();
+    gain.gain.value = definition.volume ?? 1;
+
+    let source: AudioScheduledSourceNode;
+    if (definition.synth) {
+      source = this.createSynthSource(definition.synth, pitch, gain.gain, definition.volume ?? 1);
+    } else {
+      // Still loading - skip it rather than play it late
+      if (!buffer) {
+        console.warn(`SoundManager: Sound ${type} not loaded yet`);
+        return;
+      }
+
+      const bufferSource = context.createBufferSource();
+      bufferSource.buffer = buffer;
+      bufferSource.playbackRate.value = pitch;
+      source = bufferSource;
+    }
+
+    // Make room by cutting off the oldest voices
+    const sameType = this.voices.filter(voice => voice.type === type);
+    if (sameType.length >= (definition.maxVoices ?? 4)) {
+      this.stopVoice(sameType[0]);
+    }
+    if (this.voices.length >= MAX_SFX_VOICES) {
+      this.stopVoice(this.voices[0]);
+    }
+
+    source.connect(gain);
+    gain.connect(bus);
+
+    const voice: Voice = { type, source, gain };
+    this.voices.push(voice);
+    source.onended = () => this.releaseVoice(voice);
+
+    const now = context.currentTime;
+    source.start(now);
+    if (definition.synth) source.stop(now + definition.synth.length);
+  }
+
+  /**
+   * Create the oscillator of a synthesized sound, sliding its pitch and shaping its volume
+   */
+  private createSynthSource(synth: SynthDefinition, pitch: number, volume: AudioParam, peak: number): OscillatorNode {
+    const context = this.context!;
+    const now = context.currentTime;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = synth.wave;
+    oscillator.frequency.setValueAtTime(synth.startFrequency * pitch, now);
+    oscillator.frequency.exponentialRampToValueAtTime(synth.endFrequency * pitch, now + synth.length);
+
+    // Quick attack, then fade out
+    volume.setValueAtTime(0, now);
+    volume.linearRampToValueAtTime(peak, now + 0.01);
+    volume.exponentialRampToValueAtTime(0.001, now + synth.length);
+
+    return oscillator;
+  }
+
+  /**
+   * Cut a voice off
+   */
+  private stopVoice(voice: Voice): void {
+    try {
+      voice.source.stop();
+    } catch (err) {
+      // Already stopped
+    }
+    this.releaseVoice(voice);
+  }
+
+  /**
+   * Disconnect a finished voice and drop it from the pool
+   */
+  private releaseVoice(voice: Voice): void {
+    const index = this.voices.indexOf(voice);
+    if (index === -1) return;
+
+    this.voices.splice(index, 1);
+    voice.source.onended = null;
+    voice.source.disconnect();
+    voice.gain.disconnect();
+  }
+
+  /**
+   * Start the background music loop from where it was left (does nothing if it's already playing)
+   */
+  private startMusic(): void {
+    const context = this.context;
+    const input = this.musicFilter;
+    if (!context || !input || this.musicSource) return;
+
+    const buffer = this.buffers.get('music');
+    if (!buffer) {
+      this.musicPending = true;
+      return;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.playbackRate.value = this.musicRate;
+    source.connect(input);
+
+    const offset = buffer.duration > 0 ? this.musicOffset % buffer.duration : 0;
+    source.start(0, offset);
+
+    this.musicSource = source;
+    this.musicOffset = offset;
+    this.musicStartTime = context.currentTime;
+  }
+
+  /**
+   * Get how far into the music it is (seconds, not wrapped around the loop)
+   */
+  private getMusicPosition(): number {
+    if (!this.musicSource || !this.context) return this.musicOffset;
+    return this.musicOffset + (this.context.currentTime - this.musicStartTime) * this.musicRate;
+  }
+
+  /**
+   * Stop the background music, remembering where it was if it's only paused
+   */
+  private stopMusic(keepPosition: boolean): void {
+    this.musicPending = false;
+
+    if (this.musicSource && this.context) {
+      this.musicOffset = keepPosition ? this.getMusicPosition() : 0;
+
+      try {
+        this.musicSource.stop();
+      } catch (err) {
+        // Already stopped
+      }
+      this.musicSource.disconnect();
+      this.musicSource = null;
+    } else if (!keepPosition) {
+      this.musicOffset = 0;
+    }
+  }
+
+  /**
+   * Stop a sound (every voice of an effect, or the music back to the start)
    */
   public stop(type: SoundType): void {
     try {
-      const sound = this.sounds.get(type);
-      if (sound) {
-        sound.pause();
-        sound.currentTime = 0;
+      if (type === 'music') {
+        this.stopMusic(false);
+        this.restoreMusic();
+      } else {
+        this.voices.filter(voice => voice.type === type).forEach(voice => this.stopVoice(voice));
       }
     } catch (err) {
       console.error(`SoundManager: Error stopping ${type} sound:`, err);
@@ -101,40 +426,235 @@ class SoundManager {
   }
 
   /**
-   * Pause a sound
+   * Pause a sound (effects are too short to pick up again, so they just stop)
    */
   public pause(type: SoundType): void {
     try {
-      const sound = this.sounds.get(type);
-      if (sound) {
-        sound.pause();
+      if (type === 'music') {
+        this.stopMusic(true);
+      } else {
+        this.stop(type);
       }
     } catch (err) {
       console.error(`SoundManager: Error pausing ${type} sound:`, err);
     }
   }
 
+  /**
+   * Make the music follow the game - 0 is the starting speed, 1 is top speed
+   */
+  public setMusicIntensity(intensity: number): void {
+    const rate = 1 + (MAX_MUSIC_RATE - 1) * clampVolume(intensity);
+
+    // Called every frame - ignore changes too small to hear
+    if (Math.abs(rate - this.musicRate) < 0.002) return;
+
+    try {
+      // Bank the part played at the old tempo before switching
+      if (this.musicSource && this.context) {
+        this.musicOffset = this.getMusicPosition();
+        this.musicStartTime = this.context.currentTime;
+        this.musicSource.playbackRate.setValueAtTime(rate, this.context.currentTime);
+      }
+      this.musicRate = rate;
+    } catch (err) {
+      console.error('SoundManager: Error setting music intensity:', err);
+    }
+  }
+
+  /**
+   * Pull the music down and muffle it (when the player crashes) until restoreMusic or the music is stopped
+   */
+  public duckMusic(): void {
+    if (!this.context || !this.musicDuck || !this.musicFilter) return;
+
+    try {
+      const now = this.context.currentTime;
+      this.musicCrashed = true;
+      this.musicDuck.gain.cancelScheduledValues(now);
+      this.musicDuck.gain.setTargetAtTime(CRASH_DUCK_GAIN, now, 0.1);
+      this.musicFilter.frequency.cancelScheduledValues(now);
+      this.musicFilter.frequency.setTargetAtTime(CRASH_FILTER_FREQUENCY, now, 0.15);
+    } catch (err) {
+      console.error('SoundManager: Error ducking music:', err);
+    }
+  }
+
+  /**
+   * Bring the music back to full volume and brightness
+   */
+  public restoreMusic(): void {
+    if (!this.context || !this.musicDuck || !this.musicFilter) return;
+
+    try {
+      const now = this.context.currentTime;
+      this.musicCrashed = false;
+      this.musicDuck.gain.cancelScheduledValues(now);
+      this.musicDuck.gain.setValueAtTime(1, now);
+      this.musicFilter.frequency.cancelScheduledValues(now);
+      this.musicFilter.frequency.setValueAtTime(OPEN_FILTER_FREQUENCY, now);
+    } catch (err) {
+      console.error('SoundManager: Error restoring music:', err);
+    }
+  }
+
+  /**
+   * Play the short rising sting for a landed trick, dipping the music under it
+   */
+  public playSting(): void {
+    const context = this.context;
+    const bus = this.buses.get('sfx');
+    if (this.muted || this.disposed || !context || !bus) return;
+
+    try {
+      const now = context.currentTime;
+
+      STING_NOTES.forEach((frequency, index) => {
+        const start = now + index * STING_NOTE_SPACING;
+
+        const oscillator = context.createOscillator();
+        oscillator.type = 'triangle';
+        oscillator.frequency.value = frequency;
+
+        // Quick attack, then fade out
+        const gain = context.createGain();
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(STING_VOLUME, start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + STING_NOTE_LENGTH);
+
+        oscillator.connect(gain);
+        gain.connect(bus);
+        oscillator.onended = () => {
+          oscillator.disconnect();
+          gain.disconnect();
+        };
+        oscillator.start(start);
+        oscillator.stop(start + STING_NOTE_LENGTH);
+      });
+
+      // Let the sting through, then bring the music back (a crash keeps it down)
+      if (this.musicDuck && !this.musicCrashed) {
+        const end = now + STING_NOTES.length * STING_NOTE_SPACING + STING_NOTE_LENGTH;
+        this.musicDuck.gain.cancelScheduledValues(now);
+        this.musicDuck.gain.setTargetAtTime(STING_DUCK_GAIN, now, 0.03);
+        this.musicDuck.gain.setTargetAtTime(1, end, 0.15);
+      }
+    } catch (err) {
+      console.error('SoundManager: Error playing sting:', err);
+    }
+  }
+
+  /**
+   * Set the gains of the master and bus nodes from the volumes and mute state
+   */
+  private applyGains(): void {
+    const context = this.context;
+    if (!context) return;
+
+    const setGain = (node: GainNode | null | undefined, value: number) => {
+      node?.gain.setValueAtTime(value, context.currentTime);
+    };
+
+    setGain(this.masterGain, this.muted ? 0 : this.masterVolume);
+    setGain(this.buses.get('music'), this.musicVolume * MAX_MUSIC_GAIN);
+    setGain(this.buses.get('sfx'), this.sfxVolume * MAX_SFX_GAIN);
+  }
+
+  /**
+   * Set the overall volume (0 to 1)
+   */
+  public setMasterVolume(volume: number): void {
+    this.masterVolume = clampVolume(volume);
+    this.applyGains();
+  }
+
+  /**
+   * Set the background music volume (0 to 1)
+   */
+  public setMusicVolume(volume: number): void {
+    this.musicVolume = clampVolume(volume);
+    this.applyGains();
+  }
+
+  /**
+   * Set the sound effects volume (0 to 1)
+   */
+  public setSfxVolume(volume: number): void {
+    this.sfxVolume = clampVolume(volume);
+    this.applyGains();
+  }
+
+  /**
+   * Mute or unmute all sounds - silences the master bus, so sounds already playing go quiet too
+   */
+  public setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyGains();
+  }
+
   /**
    * Mute or unmute all sounds
    */
   public toggleMute(): boolean {
-    this.muted = !this.muted;
-    
-    this.sounds.forEach((sound) => {
-      if (this.muted) {
-        sound.volume = 0;
-      } else {
-        if (sound === this.sounds.get('music')) {
-          sound.volume = this.musicVolume;
-        } else {
-          sound.volume = this.sfxVolume;
-        }
-      }
-    });
-    
+    this.setMuted(!this.muted);
     return this.muted;
   }
 
+  /**
+   * Apply all of the player's audio settings at once
+   */
+  public applySettings(settings: AudioSettings): void {
+    this.masterVolume = clampVolume(settings.masterVolume);
+    this.musicVolume = clampVolume(settings.musicVolume);
+    this.sfxVolume = clampVolume(settings.sfxVolume);
+    this.muted = settings.muted;
+    this.applyGains();
+  }
+
+  /**
+   * Get the current volumes and mute state
+   */
+  public getSettings(): AudioSettings {
+    return {
+      masterVolume: this.masterVolume,
+      musicVolume: this.musicVolume,
+      sfxVolume: this.sfxVolume,
+      muted: this.muted
+    };
+  }
+
+  /**
+   * Stop every sound and close the audio context - the manager can't play anything afterwards
+   */
+  public dispose(): void {
+    try {
+      [...this.voices].forEach(voice => this.stopVoice(voice));
+      this.stopMusic(false);
+
+      this.buses.forEach(bus => bus.disconnect());
+      this.musicFilter?.disconnect();
+      this.musicDuck?.disconnect();
+      this.masterGain?.disconnect();
+
+      // Browsers only allow a few open contexts, so each one has to be closed
+      this.context?.close().catch(err => {
+        console.warn('SoundManager: Error closing audio context:', err);
+      });
+
+      this.buses.clear();
+      this.buffers.clear();
+      this.masterGain = null;
+      this.musicFilter = null;
+      this.musicDuck = null;
+      this.context = null;
+      this.disposed = true;
+
+      console.log('SoundManager: Disposed');
+    } catch (err) {
+      console.error('SoundManager: Error disposing sounds:', err);
+    }
+  }
+
   /**
    * Get mute state
    */
@@ -143,4 +663,4 @@ class SoundManager {
   }
 }
 
-export default SoundManager; 
\ No newline at end of file
+export default SoundManager;
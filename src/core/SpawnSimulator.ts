@@ -0,0 +1,169 @@
+/**
+ * SpawnSimulator.ts - Runs the obstacle generator headlessly to measure how a difficulty plays
+ *
+ * scripts/simulate-difficulty.ts uses this to report on thousands of runs at once, so difficulty
+ * profiles can be balanced without playing them over and over in the browser.
+ */
+
+import ObstacleManager, { COURSE_SCROLL_FACTOR, Obstacle, ObstacleType } from '../entities/ObstacleManager';
+import { CRUISE_SPEED } from '../entities/Player';
+import { Clearance, JumpArcs, getClearance, getJumpArcs, getJumpPhysics } from '../entities/JumpArc';
+import { DifficultyProfile } from './Difficulty';
+import { SIMULATION_TIMESTEP, createPlayer, resetRun } from './Simulation';
+
+// An obstacle (with anything stacked on it) as it was spawned
+export interface SpawnedObstacle {
+  time: number;            // ms into the run
+  type: ObstacleType;      // Type of the bottom obstacle
+  courseX: number;         // Position along the course (px)
+  width: number;           // Bounds of the whole stack
+  height: number;
+  stackSize: number;       // 1, or 2-3 when obstacles were stacked on it
+  doubleJump: boolean;     // Spawned as a double-jump obstacle
+  approachSpeed: number;   // Speed it closes in on the player at (px/s)
+  clearance: Clearance;
+}
+
+// Totals over a batch of simulated runs
+export interface SpawnReport {
+  runs: number;
+  duration: number;                           // Length of each run in ms
+  obstacles: number;
+  types: Record<ObstacleType, number>;
+  gaps: number[];                             // Space between consecutive obstacles (px)
+  stacked: number;                            // Obstacles with at least one stacked on top
+  tripleStacked: number;
+  doubleJump: number;
+  clearance: Record<Clearance, number>;
+}
+
+/**
+ * Trace the jump arcs of the standard player at the simulation timestep
+ */
+export const getPlayerJumpArcs = (): JumpArcs => {
+  return getJumpArcs(getJumpPhysics(createPlayer(), SIMULATION_TIMESTEP));
+};
+
+/**
+ * Run the obstacle generator for one course and record every obstacle it spawns
+ */
+export const simulateSpawns = (
+  difficulty: DifficultyProfile,
+  seed: number,
+  duration: number,
+  arcs: JumpArcs = getPlayerJumpArcs()
+): SpawnedObstacle[] => {
+  const player = createPlayer();
+  const obstacleManager = new ObstacleManager(seed, difficulty);
+  resetRun(player, obstacleManager, seed);
+
+  // Park the player high above the course so nothing collides - only the spawning is measured
+  player.y = -10000;
+
+  const seen = new Set<Obstacle>();
+  const spawned: SpawnedObstacle[] = [];
+  const dt = SIMULATION_TIMESTEP / 1000;
+  let scrolled = 0;
+
+  for (let time = 0; time < duration; time += SIMULATION_TIMESTEP) {
+    // Cruise along like a skating player with no input
+    player.velocityX = player.speed * CRUISE_SPEED;
+    player.x += player.velocityX * dt;
+    obstacleManager.update(SIMULATION_TIMESTEP, player);
+    scrolled += COURSE_SCROLL_FACTOR * player.velocityX * dt;
+
+    // Group this update's new obstacles by the obstacle at the bottom of their stack
+    const stacks = new Map<Obstacle, Obstacle[]>();
+    obstacleManager.obstacles
+      .filter(obstacle => !seen.has(obstacle))
+      .forEach(obstacle => {
+        seen.add(obstacle);
+        let base = obstacle;
+        while (base.stackParent) base = base.stackParent;
+        stacks.set(base, [...(stacks.get(base) || []), obstacle]);
+      });
+
+    stacks.forEach((members, base) => {
+      if (!members.includes(base)) return;
+
+      const left = Math.min(...members.map(o => o.x));
+      const right = Math.max(...members.map(o => o.x + o.width));
+      const top = Math.min(...members.map(o => o.y));
+      const approachSpeed = COURSE_SCROLL_FACTOR * player.velocityX;
+
+      spawned.push({
+        time,
+        type: base.type,
+        courseX: left - obstacleManager.cameraOffset + scrolled,
+        width: right - left,
+        height: obstacleManager.groundY - top,
+        stackSize: members.length,
+        doubleJump: base.doubleJump,
+        approachSpeed,
+        clearance: getClearance({ width: right - left, height: obstacleManager.groundY - top }, approachSpeed, arcs)
+      });
+    });
+  }
+
+  return spawned;
+};
+
+/**
+ * Add up the obstacles of a batch of simulated runs
+ */
+export const summarizeSpawns = (runs: SpawnedObstacle[][], duration: number): SpawnReport => {
+  const report: SpawnReport = {
+    runs: runs.length,
+    duration,
+    obstacles: 0,
+    types: { box: 0, ramp: 0, rail: 0 },
+    gaps: [],
+    stacked: 0,
+    tripleStacked: 0,
+    doubleJump: 0,
+    clearance: { jump: 0, doubleJump: 0, impossible: 0 }
+  };
+
+  runs.forEach(run => {
+    run.forEach((obstacle, index) => {
+      report.obstacles++;
+      report.types[obstacle.type]++;
+      if (obstacle.stackSize > 1) report.stacked++;
+      if (obstacle.stackSize > 2) report.tripleStacked++;
+      if (obstacle.doubleJump) report.doubleJump++;
+      report.clearance[obstacle.clearance]++;
+
+      if (index > 0) {
+        const previous = run[index - 1];
+        report.gaps.push(obstacle.courseX - (previous.courseX + previous.width));
+      }
+    });
+  });
+
+  return report;
+};
+
+/**
+ * Count values into fixed-size buckets - anything past the last bucket goes in an overflow bucket,
+ * anything below zero in an underflow one
+ */
+export const buildHistogram = (
+  values: number[],
+  bucketSize: number,
+  bucketCount: number
+): { label: string; count: number }[] => {
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    label: `${i * bucketSize}-${(i + 1) * bucketSize}`,
+    count: 0
+  }));
+  const under = { label: `<0`, count: 0 };
+  const over = { label: `${bucketCount * bucketSize}+`, count: 0 };
+
+  values.forEach(value => {
+    if (value < 0) under.count++;
+    else if (value >= bucketCount * bucketSize) over.count++;
+    else buckets[Math.floor(value / bucketSize)].count++;
+  });
+
+  return [...(under.count > 0 ? [under] : []), ...buckets, over];
+};
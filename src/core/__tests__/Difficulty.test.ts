@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DIFFICULTY_PRESETS,
+  getDifficultyProfile,
+  isDifficultyPreset,
+  parseDifficultyProfile,
+  validateDifficultyProfile
+} from '../Difficulty';
+
+describe('Difficulty', () => {
+  it('loads a valid profile for every preset', () => {
+    DIFFICULTY_PRESETS.forEach(preset => {
+      expect(validateDifficultyProfile(getDifficultyProfile(preset))).toEqual([]);
+    });
+  });
+
+  it('gets harder from Chill to Degen', () => {
+    const [chill, normal, degen] = DIFFICULTY_PRESETS.map(preset => getDifficultyProfile(preset));
+
+    expect(chill.maxGameSpeed).toBeLessThan(normal.maxGameSpeed);
+    expect(normal.maxGameSpeed).toBeLessThan(degen.maxGameSpeed);
+    expect(chill.baseSpawnRate).toBeGreaterThan(normal.baseSpawnRate);
+    expect(normal.baseSpawnRate).toBeGreaterThan(degen.baseSpawnRate);
+  });
+
+  it('hands out copies so a preset cannot be changed by accident', () => {
+    const profile = getDifficultyProfile('normal');
+    profile.maxGameSpeed = 9999;
+
+    expect(getDifficultyProfile('normal').maxGameSpeed).not.toBe(9999);
+  });
+
+  it('reports missing, out of range and unknown settings', () => {
+    const { maxGameSpeed, ...profile } = getDifficultyProfile('normal');
+
+    expect(validateDifficultyProfile({ ...profile, rapidSuccessionChance: 1.5, spawnSpeed: 3 })).toEqual([
+      'maxGameSpeed must be a number',
+      'rapidSuccessionChance must be between 0 and 1',
+      'Unknown setting spawnSpeed'
+    ]);
+    expect(maxGameSpeed).toBeGreaterThan(0);
+  });
+
+  it('rejects curves that run backwards', () => {
+    const profile = getDifficultyProfile('normal');
+
+    expect(validateDifficultyProfile({ ...profile, maxGameSpeed: profile.initialGameSpeed })).toEqual([
+      'maxGameSpeed must be above initialGameSpeed'
+    ]);
+  });
+
+  it('parses profiles from JSON', () => {
+    const profile = getDifficultyProfile('chill');
+
+    expect(parseDifficultyProfile(JSON.stringify(profile))).toEqual(profile);
+    expect(parseDifficultyProfile('not json')).toBeNull();
+    expect(parseDifficultyProfile({ ...profile, easyModeTimer: -1 })).toBeNull();
+  });
+
+  it('only accepts known preset names', () => {
+    expect(isDifficultyPreset('degen')).toBe(true);
+    expect(isDifficultyPreset('insane')).toBe(false);
+    expect(isDifficultyPreset(null)).toBe(false);
+  });
+});
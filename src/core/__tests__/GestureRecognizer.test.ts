@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import GestureRecognizer from '../GestureRecognizer';
+import InputManager from '../InputManager';
+
+describe('GestureRecognizer', () => {
+  let input: InputManager;
+  let gestures: GestureRecognizer;
+
+  // Touch down at (x, y) at a time, then lift after moving (dx, dy) over a duration
+  const swipe = (dx: number, dy: number, duration: number, time: number = 0, id: number = 1) => {
+    gestures.touchStart(id, 200, 200, time);
+    return gestures.touchEnd(id, 200 + dx, 200 + dy, time + duration);
+  };
+
+  beforeEach(() => {
+    input = new InputManager();
+    gestures = new GestureRecognizer(input);
+  });
+
+  it('tells taps and swipes in each direction apart', () => {
+    expect(swipe(2, 3, 100)).toBe('tap');
+    expect(swipe(0, -80, 200)).toBe('swipeUp');
+    expect(swipe(0, 80, 200)).toBe('swipeDown');
+    expect(swipe(-80, 10, 200)).toBe('swipeLeft');
+    expect(swipe(80, -10, 200)).toBe('swipeRight');
+  });
+
+  it('ignores slow drags and short, slow moves', () => {
+    expect(swipe(0, -200, 900)).toBeNull();
+    expect(swipe(30, 0, 300)).toBeNull();
+    expect(swipe(2, 2, 600)).toBeNull();
+  });
+
+  it('accepts short moves that are fast enough as flicks', () => {
+    expect(swipe(30, 0, 30)).toBe('swipeRight');
+  });
+
+  it('uses the configured thresholds', () => {
+    gestures.setConfig({ minSwipeDistance: 120 });
+    expect(swipe(0, -80, 300)).toBeNull();
+    expect(swipe(0, -130, 300)).toBe('swipeUp');
+  });
+
+  it('presses the action for exactly one frame', () => {
+    swipe(0, 80, 200);
+    expect(input.wasJustPressed('trickHodlGrab')).toBe(true);
+    expect(input.isPressed('trickHodlGrab')).toBe(true);
+    expect(input.wasTouchJustPressed('trickHodlGrab')).toBe(true);
+
+    input.update();
+    expect(input.isPressed('trickHodlGrab')).toBe(false);
+    expect(input.wasJustReleased('trickHodlGrab')).toBe(true);
+  });
+
+  it('spots a second swipe up as a double jump', () => {
+    expect(swipe(0, -80, 150, 0)).toBe('swipeUp');
+    input.update();
+    expect(swipe(0, -80, 150, 300)).toBe('doubleSwipeUp');
+    expect(input.wasJustPressed('jump')).toBe(true);
+
+    // Too long after the first one
+    input.update();
+    expect(swipe(0, -80, 150, 2000)).toBe('swipeUp');
+  });
+
+  it('tracks several fingers at once and forgets cancelled ones', () => {
+    gestures.touchStart(1, 100, 100, 0);
+    gestures.touchStart(2, 300, 300, 0);
+    gestures.touchCancel(1);
+
+    expect(gestures.touchEnd(1, 100, 20, 100)).toBeNull();
+    expect(gestures.touchEnd(2, 380, 300, 100)).toBe('swipeRight');
+  });
+
+  it('does nothing while disabled', () => {
+    gestures.setEnabled(false);
+    expect(swipe(0, -80, 200)).toBeNull();
+    expect(input.wasJustPressed('jump')).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import InputManager from '../InputManager';
+
+// Minimal stand-in for a standard-layout controller
+const createGamepad = (): Gamepad => ({
+  id: 'Test Controller',
+  index: 0,
+  connected: true,
+  mapping: 'standard',
+  timestamp: 0,
+  axes: [0, 0, 0, 0],
+  buttons: Array.from({ length: 17 }, () => ({ pressed: false, touched: false, value: 0 })),
+  hapticActuators: [],
+  vibrationActuator: null
+} as unknown as Gamepad);
+
+describe('InputManager gamepad support', () => {
+  let gamepads: (Gamepad | null)[];
+  let listeners: {[type: string]: (e: GamepadEvent) => void};
+  let input: InputManager;
+
+  const pressButton = (pad: Gamepad, index: number, pressed: boolean) => {
+    (pad.buttons[index] as { pressed: boolean }).pressed = pressed;
+  };
+
+  const connect = (pad: Gamepad) => {
+    gamepads = [pad];
+    listeners.gamepadconnected({ gamepad: pad } as GamepadEvent);
+  };
+
+  beforeEach(() => {
+    gamepads = [];
+    listeners = {};
+    vi.stubGlobal('navigator', { getGamepads: () => gamepads });
+    vi.stubGlobal('window', {
+      addEventListener: (type: string, listener: (e: GamepadEvent) => void) => {
+        listeners[type] = listener;
+      },
+      removeEventListener: () => {}
+    });
+
+    input = new InputManager();
+    input.bindGamepads();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports controllers being plugged in and unplugged', () => {
+    const onChange = vi.fn();
+    input.setGamepadChangeCallback(onChange);
+
+    const pad = createGamepad();
+    connect(pad);
+    expect(input.isGamepadConnected()).toBe(true);
+    expect(onChange).toHaveBeenLastCalledWith(true);
+
+    gamepads = [];
+    listeners.gamepaddisconnected({ gamepad: pad } as GamepadEvent);
+    expect(input.isGamepadConnected()).toBe(false);
+    expect(onChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('turns buttons into the same pressed/held/released states as keys', () => {
+    const pad = createGamepad();
+    connect(pad);
+
+    pressButton(pad, 0, true);
+    input.update();
+    expect(input.wasJustPressed('jump')).toBe(true);
+    expect(input.wasGamepadJustPressed('jump')).toBe(true);
+    expect(input.isPressed('jump')).toBe(true);
+    expect(input.hasAnyKeyJustPressed()).toBe(true);
+
+    // Still held next frame
+    input.update();
+    expect(input.wasJustPressed('jump')).toBe(false);
+    expect(input.isPressed('jump')).toBe(true);
+
+    pressButton(pad, 0, false);
+    input.update();
+    expect(input.isPressed('jump')).toBe(false);
+    expect(input.wasJustReleased('jump')).toBe(true);
+  });
+
+  it('ignores stick movement inside the deadzone', () => {
+    const pad = createGamepad();
+    connect(pad);
+
+    (pad.axes as number[])[0] = -0.2;
+    input.update();
+    expect(input.isPressed('left')).toBe(false);
+
+    (pad.axes as number[])[0] = -0.8;
+    input.update();
+    expect(input.wasJustPressed('left')).toBe(true);
+    expect(input.isPressed('right')).toBe(false);
+
+    (pad.axes as number[])[0] = 0.9;
+    input.update();
+    expect(input.wasJustReleased('left')).toBe(true);
+    expect(input.wasJustPressed('right')).toBe(true);
+  });
+
+  it('releases everything held on a controller that gets unplugged', () => {
+    const pad = createGamepad();
+    connect(pad);
+
+    pressButton(pad, 15, true);
+    input.update();
+    expect(input.isPressed('right')).toBe(true);
+
+    gamepads = [];
+    listeners.gamepaddisconnected({ gamepad: pad } as GamepadEvent);
+    input.update();
+    expect(input.isPressed('right')).toBe(false);
+    expect(input.wasJustReleased('right')).toBe(true);
+  });
+});
+
+describe('InputManager lifecycle', () => {
+  let listeners: Map<string, Set<EventListener>>;
+
+  beforeEach(() => {
+    listeners = new Map();
+    vi.stubGlobal('navigator', { getGamepads: () => [] });
+    vi.stubGlobal('window', {
+      addEventListener: (type: string, listener: EventListener) => {
+        if (!listeners.has(type)) listeners.set(type, new Set());
+        listeners.get(type)!.add(listener);
+      },
+      removeEventListener: (type: string, listener: EventListener) => {
+        listeners.get(type)?.delete(listener);
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const listenerCount = () => Array.from(listeners.values()).reduce((total, set) => total + set.size, 0);
+
+  it('only attaches its listeners once however often it is bound', () => {
+    const input = new InputManager();
+    input.bindKeys();
+    input.bindKeys();
+    input.bindGamepads();
+    input.bindGamepads();
+
+    expect(listeners.get('keydown')?.size).toBe(1);
+    expect(listeners.get('gamepadconnected')?.size).toBe(1);
+    expect(listenerCount()).toBe(4);
+  });
+
+  it('removes every listener it attached when disposed', () => {
+    const input = new InputManager();
+    input.bindKeys();
+    input.bindGamepads();
+    input.dispose();
+
+    expect(listenerCount()).toBe(0);
+  });
+
+  it('leaves nothing behind across repeated mounts', () => {
+    for (let i = 0; i < 3; i++) {
+      const input = new InputManager();
+      input.bindKeys();
+      input.bindGamepads();
+      input.dispose();
+    }
+
+    expect(listenerCount()).toBe(0);
+  });
+});
+
+describe('InputManager touch controls', () => {
+  // Just enough of a DOM element for the touch buttons
+  interface FakeElement {
+    textContent: string;
+    className: string;
+    style: {[key: string]: string};
+    dataset: {[key: string]: string};
+    classList: { add: (name: string) => void; remove: (name: string) => void };
+    listeners: {[type: string]: (e: TouchEvent) => void};
+    addEventListener: (type: string, listener: (e: TouchEvent) => void) => void;
+    parentNode: null;
+  }
+
+  let buttons: FakeElement[];
+  let input: InputManager;
+
+  const createElement = (): FakeElement => {
+    const element: FakeElement = {
+      textContent: '',
+      className: '',
+      style: {},
+      dataset: {},
+      classList: { add: () => {}, remove: () => {} },
+      listeners: {},
+      addEventListener: (type, listener) => {
+        element.listeners[type] = listener;
+      },
+      parentNode: null
+    };
+    return element;
+  };
+
+  const touch = (label: string, type: string, ...identifiers: number[]) => {
+    const button = buttons.find(b => b.textContent === label)!;
+    button.listeners[type]({
+      type,
+      preventDefault: () => {},
+      changedTouches: identifiers.map(identifier => ({ identifier }))
+    } as unknown as TouchEvent);
+  };
+
+  beforeEach(() => {
+    buttons = [];
+    vi.stubGlobal('document', { createElement });
+    input = new InputManager();
+    input.bindTouchControls({ appendChild: (el: FakeElement) => buttons.push(el) } as unknown as HTMLElement);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('has a button for every action, including HODL Grab', () => {
+    expect(buttons.map(b => b.dataset.touchCode).sort()).toEqual(
+      ['jump', 'left', 'right', 'trickBlockflip', 'trickHashSpin', 'trickHodlGrab'].map(a => `Touch:${a}`).sort()
+    );
+  });
+
+  it('presses the action whatever the keys are bound to', () => {
+    input.setKeyBindings([{ code: 'KeyJ', action: 'jump' }]);
+
+    touch('JUMP', 'touchstart', 1);
+    expect(input.wasJustPressed('jump')).toBe(true);
+    expect(input.wasTouchJustPressed('jump')).toBe(true);
+    expect(input.isPressed('jump')).toBe(true);
+  });
+
+  it('keeps a button held until the last finger on it lifts', () => {
+    touch('▶', 'touchstart', 1);
+    touch('▶', 'touchstart', 2);
+    input.update();
+
+    touch('▶', 'touchend', 1);
+    expect(input.isPressed('right')).toBe(true);
+
+    touch('▶', 'touchend', 2);
+    expect(input.isPressed('right')).toBe(false);
+    expect(input.wasJustReleased('right')).toBe(true);
+  });
+
+  it('tracks fingers on different buttons separately', () => {
+    touch('▶', 'touchstart', 1);
+    touch('JUMP', 'touchstart', 2);
+    expect(input.isPressed('right')).toBe(true);
+    expect(input.isPressed('jump')).toBe(true);
+
+    touch('JUMP', 'touchend', 2);
+    expect(input.isPressed('right')).toBe(true);
+    expect(input.isPressed('jump')).toBe(false);
+  });
+
+  it('releases a button when its touch is cancelled', () => {
+    touch('◀', 'touchstart', 1);
+    touch('◀', 'touchcancel', 1);
+    expect(input.isPressed('left')).toBe(false);
+    expect(input.wasJustReleased('left')).toBe(true);
+  });
+
+  it('lets go of held buttons when they are hidden', () => {
+    touch('◀', 'touchstart', 1);
+    input.setTouchControlsVisible(false);
+    expect(input.isPressed('left')).toBe(false);
+    expect(buttons.every(b => b.style.display === 'none')).toBe(true);
+  });
+});
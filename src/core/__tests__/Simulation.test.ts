@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SIMULATION_TIMESTEP, runQuietly, simulateRecording } from '../Simulation';
+import { InputRecording, RECORDING_VERSION } from '../InputRecorder';
+
+describe('Simulation', () => {
+  // Ten seconds of skating without touching anything
+  const recording: InputRecording = {
+    version: RECORDING_VERSION,
+    seed: 1,
+    difficulty: 'normal',
+    timestep: SIMULATION_TIMESTEP,
+    frames: new Array(600).fill(0)
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('replays recordings without the game logging every step', () => {
+    const log = vi.spyOn(console, 'log');
+
+    const quiet = simulateRecording(recording);
+    expect(log).not.toHaveBeenCalled();
+
+    // Same run either way - only the logging differs
+    const loud = simulateRecording(recording, false);
+    expect(log).toHaveBeenCalled();
+    expect(loud).toEqual(quiet);
+  });
+
+  it('puts logging back even when the run throws', () => {
+    const log = console.log;
+
+    expect(() => runQuietly(() => {
+      throw new Error('boom');
+    })).toThrow('boom');
+    expect(console.log).toBe(log);
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import SoundManager from '../SoundManager';
+
+// Just enough of the Web Audio API to follow what the mixer does
+class FakeNode {
+  connections: FakeNode[] = [];
+  connect(node: FakeNode) {
+    this.connections.push(node);
+  }
+  disconnect() {
+    this.connections = [];
+  }
+}
+
+// Scheduled changes apply straight away, with the target remembered for checking
+class FakeParam {
+  value: number;
+  target: number;
+  constructor(value: number) {
+    this.value = value;
+    this.target = value;
+  }
+  setValueAtTime(value: number) {
+    this.value = value;
+    this.target = value;
+  }
+  setTargetAtTime(value: number) {
+    this.target = value;
+  }
+  linearRampToValueAtTime(value: number) {
+    this.target = value;
+  }
+  exponentialRampToValueAtTime(value: number) {
+    this.target = value;
+  }
+  cancelScheduledValues() {}
+}
+
+class FakeGain extends FakeNode {
+  gain = new FakeParam(1);
+}
+
+class FakeFilter extends FakeNode {
+  type = 'lowpass';
+  frequency = new FakeParam(350);
+}
+
+class FakeOscillator extends FakeNode {
+  type = 'sine';
+  frequency = new FakeParam(440);
+  onended: (() => void) | null = null;
+  playing = false;
+  start() {
+    this.playing = true;
+  }
+  // Stops scheduled for later (the end of the note) leave it playing
+  stop(when = 0) {
+    if (when <= 0) this.playing = false;
+  }
+}
+
+class FakeSource extends FakeNode {
+  buffer: { duration: number } | null = null;
+  loop = false;
+  playbackRate = new FakeParam(1);
+  onended: (() => void) | null = null;
+  playing = false;
+  startOffset = 0;
+  start(_when = 0, offset = 0) {
+    this.playing = true;
+    this.startOffset = offset;
+  }
+  stop() {
+    this.playing = false;
+  }
+}
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  state = 'running';
+  currentTime = 0;
+  destination = new FakeNode();
+  sources: FakeSource[] = [];
+  gains: FakeGain[] = [];
+  filters: FakeFilter[] = [];
+  oscillators: FakeOscillator[] = [];
+  closed = false;
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+  createGain() {
+    const gain = new FakeGain();
+    this.gains.push(gain);
+    return gain;
+  }
+  createBiquadFilter() {
+    const filter = new FakeFilter();
+    this.filters.push(filter);
+    return filter;
+  }
+  createOscillator() {
+    const oscillator = new FakeOscillator();
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+  async decodeAudioData() {
+    return { duration: 10 };
+  }
+  async resume() {}
+  async close() {
+    this.closed = true;
+  }
+}
+
+// Let the fetch and decode promises settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SoundManager', () => {
+  let sound: SoundManager;
+  let context: FakeAudioContext;
+
+  const playing = (count?: number) => context.sources.filter(source => source.playing).slice(0, count);
+
+  beforeEach(async () => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.stubGlobal('fetch', async () => ({ ok: true, arrayBuffer: async () => new ArrayBuffer(8) }));
+
+    sound = new SoundManager();
+    context = FakeAudioContext.instances[0];
+    await flush();
+  });
+
+  afterEach(() => {
+    sound.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('lets rapid effects overlap instead of cutting each other off', () => {
+    sound.play('jump');
+    sound.play('jump');
+    sound.play('jump');
+    expect(playing()).toHaveLength(3);
+  });
+
+  it('cuts off the oldest voice once a sound hits its voice limit', () => {
+    for (let i = 0; i < 6; i++) sound.play('jump');
+    expect(playing()).toHaveLength(4);
+    expect(context.sources[0].playing).toBe(false);
+    expect(context.sources[5].playing).toBe(true);
+  });
+
+  it('varies the pitch of repeated effects', () => {
+    const random = vi.spyOn(Math, 'random');
+    random.mockReturnValueOnce(0).mockReturnValueOnce(1);
+
+    sound.play('jump');
+    sound.play('jump');
+    const [low, high] = context.sources.map(source => source.playbackRate.value);
+
+    expect(low).toBeLessThan(1);
+    expect(high).toBeGreaterThan(1);
+    random.mockRestore();
+  });
+
+  it('synthesizes the trick sound instead of reusing a sample', () => {
+    for (let i = 0; i < 4; i++) sound.play('trick');
+
+    // A rising oscillator per play through the voice pool, nothing from the score chime
+    expect(context.sources).toHaveLength(0);
+    expect(context.oscillators).toHaveLength(4);
+    expect(context.oscillators.filter(oscillator => oscillator.playing)).toHaveLength(3);
+    expect(context.oscillators[3].frequency.target).toBeGreaterThan(context.oscillators[3].frequency.value);
+  });
+
+  it('keeps music and effects on separate buses', () => {
+    sound.play('music');
+    sound.play('crash');
+    const [music, crash] = context.sources;
+
+    // Music goes through its filter and duck gain to its bus, effects through their own voice gain
+    const musicBus = music.connections[0].connections[0].connections[0];
+    const sfxBus = crash.connections[0].connections[0];
+    expect(musicBus).not.toBe(sfxBus);
+    expect((musicBus as FakeGain).gain.value).toBeLessThan((sfxBus as FakeGain).gain.value);
+  });
+
+  it('resumes paused music where it left off and restarts stopped music', () => {
+    sound.play('music');
+    context.currentTime = 4;
+    sound.pause('music');
+    sound.play('music');
+    expect(context.sources[1].startOffset).toBe(4);
+
+    sound.stop('music');
+    sound.play('music');
+    expect(context.sources[2].startOffset).toBe(0);
+  });
+
+  it('mutes through the master bus and ignores new sounds while muted', () => {
+    expect(sound.toggleMute()).toBe(true);
+    sound.play('jump');
+    expect(playing()).toHaveLength(0);
+
+    expect(sound.toggleMute()).toBe(false);
+    sound.play('jump');
+    expect(playing()).toHaveLength(1);
+  });
+
+  it('stops everything and closes the context when disposed', () => {
+    sound.play('music');
+    sound.play('jump');
+    sound.dispose();
+
+    expect(playing()).toHaveLength(0);
+    expect(context.closed).toBe(true);
+
+    sound.play('jump');
+    expect(context.sources).toHaveLength(2);
+  });
+});
+
+describe('SoundManager adaptive music', () => {
+  let sound: SoundManager;
+  let context: FakeAudioContext;
+
+  beforeEach(async () => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.stubGlobal('fetch', async () => ({ ok: true, arrayBuffer: async () => new ArrayBuffer(8) }));
+
+    sound = new SoundManager();
+    context = FakeAudioContext.instances[0];
+    await flush();
+  });
+
+  afterEach(() => {
+    sound.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('speeds the music up with the game', () => {
+    sound.play('music');
+    const music = context.sources[0];
+    expect(music.playbackRate.value).toBe(1);
+
+    sound.setMusicIntensity(1);
+    expect(music.playbackRate.value).toBeCloseTo(1.2);
+
+    // Music started later picks up the current tempo
+    sound.stop('music');
+    sound.play('music');
+    expect(context.sources[1].playbackRate.value).toBeCloseTo(1.2);
+  });
+
+  it('keeps track of the music position across tempo changes', () => {
+    sound.play('music');
+    context.currentTime = 2;
+    sound.setMusicIntensity(1);
+    context.currentTime = 3;
+    sound.pause('music');
+    sound.play('music');
+
+    // 2 seconds at normal speed, then 1 second at 1.2x
+    expect(context.sources[1].startOffset).toBeCloseTo(3.2);
+  });
+
+  it('ducks and muffles the music on a crash until it is restored', () => {
+    const [filter] = context.filters;
+    const duck = filter.connections[0] as FakeGain;
+
+    sound.duckMusic();
+    expect(duck.gain.target).toBeLessThan(1);
+    expect(filter.frequency.target).toBeLessThan(1000);
+
+    sound.restoreMusic();
+    expect(duck.gain.target).toBe(1);
+    expect(filter.frequency.target).toBeGreaterThan(10000);
+  });
+
+  it('plays a sting of rising notes', () => {
+    sound.playSting();
+    const frequencies = context.oscillators.map(oscillator => oscillator.frequency.value);
+    expect(frequencies.length).toBeGreaterThan(1);
+    expect([...frequencies].sort((a, b) => a - b)).toEqual(frequencies);
+  });
+});
+
+describe('SoundManager volumes', () => {
+  beforeEach(() => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.stubGlobal('fetch', async () => ({ ok: true, arrayBuffer: async () => new ArrayBuffer(8) }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('starts from the saved settings, including mute', () => {
+    const sound = new SoundManager({ masterVolume: 0.5, musicVolume: 1, sfxVolume: 0, muted: true });
+
+    // Master, music and effects gains, in the order the mixer creates them
+    const [master, music, sfx] = FakeAudioContext.instances[0].gains;
+    expect(master.gain.value).toBe(0);
+    expect(music.gain.value).toBeGreaterThan(0);
+    expect(sfx.gain.value).toBe(0);
+    expect(sound.isMuted()).toBe(true);
+
+    sound.setMuted(false);
+    expect(master.gain.value).toBe(0.5);
+    sound.dispose();
+  });
+
+  it('keeps volumes between 0 and 1', () => {
+    const sound = new SoundManager();
+    sound.setMasterVolume(3);
+    sound.setMusicVolume(-1);
+    sound.setSfxVolume(0.25);
+    expect(sound.getSettings()).toEqual({ masterVolume: 1, musicVolume: 0, sfxVolume: 0.25, muted: false });
+    sound.dispose();
+  });
+});
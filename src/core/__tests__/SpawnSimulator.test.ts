@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getDifficultyProfile } from '../Difficulty';
+import { buildHistogram, getPlayerJumpArcs, simulateSpawns, summarizeSpawns } from '../SpawnSimulator';
+
+describe('SpawnSimulator', () => {
+  const arcs = getPlayerJumpArcs();
+
+  it('spawns the same course for the same seed', () => {
+    const profile = getDifficultyProfile('normal');
+
+    expect(simulateSpawns(profile, 7, 60000, arcs)).toEqual(simulateSpawns(profile, 7, 60000, arcs));
+  });
+
+  it('adds up every obstacle of every run', () => {
+    const profile = getDifficultyProfile('degen');
+    const runs = [1, 2].map(seed => simulateSpawns(profile, seed, 60000, arcs));
+    const report = summarizeSpawns(runs, 60000);
+
+    const total = runs[0].length + runs[1].length;
+    expect(total).toBeGreaterThan(0);
+    expect(report.obstacles).toBe(total);
+    expect(report.types.box + report.types.ramp + report.types.rail).toBe(total);
+    expect(report.gaps).toHaveLength(total - 2);
+    expect(report.clearance.jump + report.clearance.doubleJump + report.clearance.impossible).toBe(total);
+    expect(report.clearance.impossible).toBe(0);
+  });
+
+  it('counts values into buckets with an overflow bucket', () => {
+    expect(buildHistogram([-5, 10, 150, 250, 900], 100, 3)).toEqual([
+      { label: '<0', count: 1 },
+      { label: '0-100', count: 1 },
+      { label: '100-200', count: 1 },
+      { label: '200-300', count: 1 },
+      { label: '300+', count: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * ComboTracker.ts - Chains tricks into combos and works out how many sats each one is worth
+ */
+
+import { TrickType } from './Player';
+
+// Anything that can be part of a combo - the tricks plus grinds
+export type ComboTrick = Exclude<TrickType, 'none'> | 'grind';
+
+// Sats for a trick on its own
+export const BASE_TRICK_SATS = 5;
+
+// Extra sats (before the multiplier) for a trick that isn't a repeat of the one before it
+export const VARIETY_BONUS_SATS = 2;
+
+// Each trick in a chain adds this much to the multiplier, up to the cap
+export const MULTIPLIER_STEP = 0.5;
+export const MAX_MULTIPLIER = 4;
+
+// How long the player can stay on the ground before the chain ends (milliseconds)
+export const COMBO_GROUND_TIMEOUT = 1200;
+
+export default class ComboTracker {
+  // Tricks in the current chain, in order
+  private chain: ComboTrick[] = [];
+
+  // Sats the current chain has earned so far
+  private chainSats: number = 0;
+
+  // How long the player has been on the ground since the last trick
+  private groundTime: number = 0;
+
+  // Biggest chain this run
+  public bestChain: number = 0;
+
+  /**
+   * Add a trick to the chain - returns the sats it's worth
+   */
+  public addTrick(trick: ComboTrick, baseSats: number = BASE_TRICK_SATS): number {
+    try {
+      const previous = this.chain[this.chain.length - 1];
+      const multiplier = this.getMultiplier();
+
+      // Switching it up is worth more than repeating the same trick
+      const varietyBonus = previous && previous !== trick ? VARIETY_BONUS_SATS : 0;
+      const sats = Math.round((baseSats + varietyBonus) * multiplier);
+
+      this.chain.push(trick);
+      this.chainSats += sats;
+      this.groundTime = 0;
+      this.bestChain = Math.max(this.bestChain, this.chain.length);
+
+      if (this.chain.length > 1) {
+        console.log(`Combo x${multiplier}: ${trick} for ${sats} sats (${this.chain.length} tricks)`);
+      }
+
+      return sats;
+    } catch (err) {
+      console.error('Error in ComboTracker.addTrick:', err);
+      return baseSats;
+    }
+  }
+
+  /**
+   * Advance the ground timer - the chain ends once the player has been on the ground too long
+   */
+  public update(deltaTime: number, onGround: boolean): void {
+    if (this.chain.length === 0) return;
+
+    if (!onGround) {
+      // Airtime (or a grind) keeps the chain going
+      this.groundTime = 0;
+      return;
+    }
+
+    this.groundTime += deltaTime;
+    if (this.groundTime >= COMBO_GROUND_TIMEOUT) {
+      this.endChain();
+    }
+  }
+
+  /**
+   * Multiplier the next trick in the chain will get
+   */
+  public getMultiplier(): number {
+    return Math.min(1 + this.chain.length * MULTIPLIER_STEP, MAX_MULTIPLIER);
+  }
+
+  /**
+   * Number of tricks in the current chain
+   */
+  public getChainLength(): number {
+    return this.chain.length;
+  }
+
+  /**
+   * Sats the current chain has earned so far
+   */
+  public getChainSats(): number {
+    return this.chainSats;
+  }
+
+  /**
+   * How much of the ground window is left before the chain ends (1 = all of it, 0 = none)
+   */
+  public getTimeLeft(): number {
+    if (this.chain.length === 0) return 0;
+    return Math.max(0, 1 - this.groundTime / COMBO_GROUND_TIMEOUT);
+  }
+
+  /**
+   * End the current chain (the sats it earned are kept)
+   */
+  public endChain(): void {
+    if (this.chain.length > 1) {
+      console.log(`Combo ended: ${this.chain.length} tricks for ${this.chainSats} sats`);
+    }
+    this.chain = [];
+    this.chainSats = 0;
+    this.groundTime = 0;
+  }
+
+  /**
+   * Forget the chain and the run's best (for a new run)
+   */
+  public reset(): void {
+    this.chain = [];
+    this.chainSats = 0;
+    this.groundTime = 0;
+    this.bestChain = 0;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Course.ts - Hand-built obstacle courses (made in the /editor page) that replace random spawning
+ *
+ * A course is a list of obstacles and power-ups in the same shape as an obstacle pattern, placed
+ * along the course in px from where the player starts. Courses are shared as JSON.
+ */
+
+import { PatternObstacle, PatternPowerUp, getPatternObstacleSize, validatePatternItems } from './ObstaclePatterns';
+import { JumpArcs, canClearSequence, getClearance } from './JumpArc';
+
+// Bump this whenever the course format changes so old files are rejected
+export const COURSE_VERSION = 1;
+
+export interface Course {
+  version: number;
+  name: string;
+  obstacles: PatternObstacle[];
+  powerUps: PatternPowerUp[];
+}
+
+/**
+ * Create a course with nothing on it yet
+ */
+export const createEmptyCourse = (name: string = 'My course'): Course => {
+  return { version: COURSE_VERSION, name, obstacles: [], powerUps: [] };
+};
+
+/**
+ * Check a course - returns a list of problems (empty if the course is valid)
+ */
+export const validateCourse = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object') return ['Course must be an object'];
+
+  const course = data as Record<string, unknown>;
+  if (course.version !== COURSE_VERSION) {
+    return [`Course is version ${course.version ?? 'unknown'}, this game reads version ${COURSE_VERSION}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof course.name !== 'string') errors.push('name must be text');
+  errors.push(...validatePatternItems(course.obstacles, course.powerUps));
+  return errors;
+};
+
+/**
+ * Put a course's obstacles and power-ups in the order they come up
+ */
+export const sortCourse = (course: Course): Course => {
+  return {
+    version: course.version,
+    name: course.name,
+    obstacles: [...course.obstacles].sort((a, b) => a.at - b.at),
+    powerUps: [...course.powerUps].sort((a, b) => a.at - b.at)
+  };
+};
+
+/**
+ * Parse a course from JSON (or an already parsed object)
+ * Returns null (and logs the problems) if the data isn't a valid course
+ */
+export const parseCourse = (data: unknown): Course | null => {
+  try {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    const errors = validateCourse(parsed);
+    if (errors.length > 0) {
+      console.error(`Invalid course: ${errors.join(', ')}`);
+      return null;
+    }
+    return sortCourse(parsed as Course);
+  } catch (err) {
+    console.error('Error parsing course:', err);
+    return null;
+  }
+};
+
+/**
+ * Turn a course into JSON to save or share
+ */
+export const serializeCourse = (course: Course): string => {
+  return JSON.stringify(sortCourse(course), null, 2);
+};
+
+/**
+ * Get how far a course stretches (px) - to the end of its last obstacle or power-up
+ */
+export const getCourseLength = (course: Course): number => {
+  return Math.max(
+    0,
+    ...course.obstacles.map(obstacle => obstacle.at + obstacle.width),
+    ...course.powerUps.map(powerUp => powerUp.at)
+  );
+};
+
+/**
+ * Find the obstacles of a course the player can't get over at an approach speed (px/s) - too big
+ * to jump, or too soon after the one before. Returns their indexes
+ */
+export const findUnclearableObstacles = (course: Course, approachSpeed: number, arcs: JumpArcs): number[] => {
+  const order = course.obstacles.map((_, i) => i).sort((a, b) => course.obstacles[a].at - course.obstacles[b].at);
+  const unclearable: number[] = [];
+
+  order.forEach((index, i) => {
+    const obstacle = course.obstacles[index];
+    const size = getPatternObstacleSize(obstacle);
+    if (getClearance(size, approachSpeed, arcs) === 'impossible') {
+      unclearable.push(index);
+      return;
+    }
+    if (i === 0) return;
+
+    const previous = course.obstacles[order[i - 1]];
+    const previousSize = getPatternObstacleSize(previous);
+    const gap = obstacle.at - (previous.at + previousSize.width);
+
+    // Obstacles that touch or overlap have to be jumped as one
+    const clearable = gap > 0
+      ? canClearSequence(previousSize, gap, size, approachSpeed, arcs)
+      : getClearance({
+        width: Math.max(previous.at + previousSize.width, obstacle.at + size.width) - previous.at,
+        height: Math.max(previousSize.height, size.height)
+      }, approachSpeed, arcs) !== 'impossible';
+    if (!clearable) unclearable.push(index);
+  });
+
+  return unclearable;
+};
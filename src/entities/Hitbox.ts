@@ -0,0 +1,211 @@
+/**
+ * Hitbox.ts - Collision shapes for the player, obstacles and power-ups
+ *
+ * Each kind of entity has a hitbox definition saying how its collision shape sits inside its
+ * sprite bounds. Definitions are plain data so the server's replay check collides exactly like
+ * the game does.
+ */
+
+// Position and size of anything that collides
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Collision shapes in world coordinates
+export interface RectHitbox extends Bounds {
+  shape: 'rect';
+}
+
+export interface CircleHitbox {
+  shape: 'circle';
+  x: number;      // Centre
+  y: number;
+  radius: number;
+}
+
+// Right triangle rising from the bottom-left corner to the top-right corner (ramps)
+export interface SlopeHitbox extends Bounds {
+  shape: 'slope';
+}
+
+export type Hitbox = RectHitbox | CircleHitbox | SlopeHitbox;
+
+// How a hitbox sits inside an entity's bounds - insets are fractions of the width/height,
+// a circle's radius is a fraction of the smaller side (centred)
+export type HitboxDefinition =
+  { shape: 'rect'; insetLeft: number; insetRight: number; insetTop: number; insetBottom: number } |
+  { shape: 'circle'; radius: number } |
+  { shape: 'slope' };
+
+// Kinds of entity with their own hitbox
+export type HitboxKind = 'player' | 'box' | 'ramp' | 'rail' | 'powerUp';
+
+export const DEFAULT_HITBOX_DEFINITIONS: Record<HitboxKind, HitboxDefinition> = {
+  // Measured from the alpha mask of player-skating.png (120x240, 20px clear either side of the
+  // body) - the feet stay on the bottom edge so landings line up with the ground, rails and ramps
+  player: { shape: 'rect', insetLeft: 20 / 120, insetRight: 20 / 120, insetTop: 0, insetBottom: 0 },
+  // Obstacles are drawn filling their bounds (logos sit on a solid panel)
+  box: { shape: 'rect', insetLeft: 0, insetRight: 0, insetTop: 0, insetBottom: 0 },
+  rail: { shape: 'rect', insetLeft: 0, insetRight: 0, insetTop: 0, insetBottom: 0 },
+  ramp: { shape: 'slope' },
+  // Power-ups are round
+  powerUp: { shape: 'circle', radius: 0.45 }
+};
+
+// Definitions in use - the defaults unless changed (e.g. while tuning them in tests)
+let hitboxDefinitions: Record<HitboxKind, HitboxDefinition> = { ...DEFAULT_HITBOX_DEFINITIONS };
+
+/**
+ * Get the hitbox definition for a kind of entity
+ */
+export const getHitboxDefinition = (kind: HitboxKind): HitboxDefinition => {
+  return hitboxDefinitions[kind];
+};
+
+/**
+ * Change the hitbox definition for a kind of entity
+ */
+export const setHitboxDefinition = (kind: HitboxKind, definition: HitboxDefinition): void => {
+  hitboxDefinitions = { ...hitboxDefinitions, [kind]: definition };
+};
+
+/**
+ * Go back to the default hitbox definitions
+ */
+export const resetHitboxDefinitions = (): void => {
+  hitboxDefinitions = { ...DEFAULT_HITBOX_DEFINITIONS };
+};
+
+/**
+ * Place a hitbox definition inside an entity's bounds
+ */
+export const getHitbox = (bounds: Bounds, definition: HitboxDefinition): Hitbox => {
+  switch (definition.shape) {
+    case 'circle':
+      return {
+        shape: 'circle',
+        x: bounds.x + bounds.width / 2,
+        y: bounds.y + bounds.height / 2,
+        radius: Math.min(bounds.width, bounds.height) * definition.radius
+      };
+    case 'slope':
+      return { shape: 'slope', x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+    default:
+      return {
+        shape: 'rect',
+        x: bounds.x + bounds.width * definition.insetLeft,
+        y: bounds.y + bounds.height * definition.insetTop,
+        width: bounds.width * (1 - definition.insetLeft - definition.insetRight),
+        height: bounds.height * (1 - definition.insetTop - definition.insetBottom)
+      };
+  }
+};
+
+/**
+ * Get the hitbox of an entity from the definition for its kind
+ */
+export const getEntityHitbox = (bounds: Bounds, kind: HitboxKind): Hitbox => {
+  return getHitbox(bounds, getHitboxDefinition(kind));
+};
+
+/**
+ * Height of a slope's surface at a horizontal position
+ */
+export const getSlopeSurfaceY = (slope: SlopeHitbox, x: number): number => {
+  const progress = Math.min(1, Math.max(0, (x - slope.x) / slope.width));
+  return slope.y + slope.height * (1 - progress);
+};
+
+// Bounding box of any hitbox
+const getBounds = (hitbox: Hitbox): Bounds => {
+  if (hitbox.shape === 'circle') {
+    return {
+      x: hitbox.x - hitbox.radius,
+      y: hitbox.y - hitbox.radius,
+      width: hitbox.radius * 2,
+      height: hitbox.radius * 2
+    };
+  }
+  return hitbox;
+};
+
+// Check if two rectangles overlap
+const boundsOverlap = (a: Bounds, b: Bounds): boolean => {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+};
+
+// Check if a rectangle overlaps a circle (closest point of the rectangle to the centre)
+const rectOverlapsCircle = (rect: Bounds, circle: CircleHitbox): boolean => {
+  const closestX = Math.max(rect.x, Math.min(circle.x, rect.x + rect.width));
+  const closestY = Math.max(rect.y, Math.min(circle.y, rect.y + rect.height));
+  const dx = circle.x - closestX;
+  const dy = circle.y - closestY;
+  return dx * dx + dy * dy < circle.radius * circle.radius;
+};
+
+// Check if a rectangle overlaps a slope - the slope rises to the right, so the highest point
+// under the rectangle is at its right edge
+const rectOverlapsSlope = (rect: Bounds, slope: SlopeHitbox): boolean => {
+  if (!boundsOverlap(rect, slope)) return false;
+  const surfaceY = getSlopeSurfaceY(slope, Math.min(rect.x + rect.width, slope.x + slope.width));
+  return rect.y + rect.height > surfaceY;
+};
+
+/**
+ * Check if two hitboxes overlap (slopes against circles or other slopes use their bounding boxes)
+ */
+export const hitboxesOverlap = (a: Hitbox, b: Hitbox): boolean => {
+  if (a.shape === 'rect' && b.shape === 'circle') return rectOverlapsCircle(a, b);
+  if (a.shape === 'circle' && b.shape === 'rect') return rectOverlapsCircle(b, a);
+  if (a.shape === 'rect' && b.shape === 'slope') return rectOverlapsSlope(a, b);
+  if (a.shape === 'slope' && b.shape === 'rect') return rectOverlapsSlope(b, a);
+
+  if (a.shape === 'circle' && b.shape === 'circle') {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const reach = a.radius + b.radius;
+    return dx * dx + dy * dy < reach * reach;
+  }
+
+  return boundsOverlap(getBounds(a), getBounds(b));
+};
+
+/**
+ * Work out a rectangle hitbox from a sprite's alpha channel - the box around every pixel more
+ * opaque than the threshold (pixels are RGBA, as in ImageData). Null if the sprite is fully clear
+ */
+export const getAlphaMaskDefinition = (
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  alphaThreshold: number = 32
+): HitboxDefinition | null => {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] > alphaThreshold) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+
+  return {
+    shape: 'rect',
+    insetLeft: minX / width,
+    insetRight: (width - 1 - maxX) / width,
+    insetTop: minY / height,
+    insetBottom: (height - 1 - maxY) / height
+  };
+};
@@ -0,0 +1,185 @@
+/**
+ * JumpArc.ts - Model of the player's jump arcs, for checking obstacles can actually be cleared
+ *
+ * The arcs are traced update by update with the same physics as Player, so the obstacle generator
+ * and the balancing tools agree with the game about what the player can jump over.
+ */
+
+import Player, { DOUBLE_JUMP_FORCE, JUMP_COOLDOWN } from './Player';
+import { getEntityHitbox } from './Hitbox';
+
+// Leeway (ms) added to every timing so nothing needs a frame-perfect jump
+export const CLEARANCE_MARGIN = 50;
+
+// Jump physics the arcs are traced with
+export interface JumpPhysics {
+  jumpForce: number;
+  gravity: number;
+  timestep: number;     // Update timestep in ms
+  hitboxWidth: number;  // Width of the player's hitbox
+}
+
+// Heights of the player's feet above the takeoff point after each update of a jump - a plain
+// jump, and one for every update a double jump can be done on
+export interface JumpArcs {
+  timestep: number;
+  hitboxWidth: number;
+  single: number[];
+  doubles: number[][];
+}
+
+// How an obstacle can be cleared by jumping over it
+export type Clearance = 'jump' | 'doubleJump' | 'impossible';
+
+// Size of an obstacle (or a stack of them) to jump over
+export interface ObstacleSize {
+  width: number;
+  height: number;
+}
+
+// Part of an arc spent above a height (ms after takeoff), and when the arc lands
+interface ArcWindow {
+  start: number;
+  end: number;
+  landing: number;
+}
+
+/**
+ * Get the jump physics of a player
+ */
+export const getJumpPhysics = (player: Player, timestep: number): JumpPhysics => {
+  const hitbox = getEntityHitbox(player, 'player');
+  return {
+    jumpForce: player.jumpForce,
+    gravity: player.gravity,
+    timestep,
+    hitboxWidth: hitbox.shape === 'circle' ? hitbox.radius * 2 : hitbox.width
+  };
+};
+
+// Follow one jump update by update, the way Player.update moves and then applies gravity
+const traceJumpArc = (physics: JumpPhysics, doubleJumpTick: number | null): number[] => {
+  const dt = physics.timestep / 1000;
+  const heights: number[] = [];
+  let height = 0;
+  let velocity = physics.jumpForce;
+
+  for (let tick = 0; tick < 1000; tick++) {
+    if (tick === doubleJumpTick) velocity = physics.jumpForce * DOUBLE_JUMP_FORCE;
+    height += velocity * dt;
+    velocity -= physics.gravity * dt;
+    if (height <= 0) break;
+    heights.push(height);
+  }
+
+  return heights;
+};
+
+/**
+ * Trace the arcs of a plain jump and of a double jump on every update it's allowed on
+ */
+export const getJumpArcs = (physics: JumpPhysics): JumpArcs => {
+  const single = traceJumpArc(physics, null);
+  const firstDoubleJumpTick = Math.ceil(JUMP_COOLDOWN / physics.timestep);
+
+  const doubles: number[][] = [];
+  for (let tick = firstDoubleJumpTick; tick < single.length; tick++) {
+    doubles.push(traceJumpArc(physics, tick));
+  }
+
+  return { timestep: physics.timestep, hitboxWidth: physics.hitboxWidth, single, doubles };
+};
+
+/**
+ * Highest the player's feet get with a double jump at the best moment
+ */
+export const getMaxJumpHeight = (arcs: JumpArcs): number => {
+  return Math.max(...arcs.single, ...arcs.doubles.map(arc => Math.max(...arc)));
+};
+
+// Longest stretch an arc stays at or above a height (null if it never gets there). The player can
+// jump again on the update after landing
+const getWindowAbove = (arc: number[], height: number, timestep: number): ArcWindow | null => {
+  let best: ArcWindow | null = null;
+  let runStart = -1;
+
+  arc.forEach((h, tick) => {
+    if (h < height) {
+      runStart = -1;
+      return;
+    }
+    if (runStart < 0) runStart = tick;
+    if (!best || tick + 1 - runStart > (best.end - best.start) / timestep) {
+      best = { start: runStart * timestep, end: (tick + 1) * timestep, landing: (arc.length + 1) * timestep };
+    }
+  });
+
+  return best;
+};
+
+// Windows of every arc that keeps the player above an obstacle for as long as it takes to pass it
+const getClearingWindows = (size: ObstacleSize, approachSpeed: number, arcs: JumpArcs): { window: ArcWindow; double: boolean }[] => {
+  if (approachSpeed <= 0) return [];
+  const timeNeeded = (size.width + arcs.hitboxWidth) / approachSpeed * 1000 + CLEARANCE_MARGIN;
+
+  return [arcs.single, ...arcs.doubles]
+    .map((arc, index) => ({ window: getWindowAbove(arc, size.height, arcs.timestep), double: index > 0 }))
+    .filter((option): option is { window: ArcWindow; double: boolean } =>
+      option.window !== null && option.window.end - option.window.start >= timeNeeded);
+};
+
+/**
+ * Check whether an obstacle can be jumped clean over - the player's feet have to stay above it for
+ * as long as the hitbox takes to pass over it at the speed the course approaches at (px/s)
+ */
+export const getClearance = (size: ObstacleSize, approachSpeed: number, arcs: JumpArcs): Clearance => {
+  const windows = getClearingWindows(size, approachSpeed, arcs);
+  if (windows.length === 0) return 'impossible';
+  return windows.some(option => !option.double) ? 'jump' : 'doubleJump';
+};
+
+/**
+ * Tallest obstacle of a width that can still be jumped over (0 if none can)
+ */
+export const getMaxClearableHeight = (width: number, approachSpeed: number, arcs: JumpArcs): number => {
+  for (let height = Math.floor(getMaxJumpHeight(arcs)); height > 0; height--) {
+    if (getClearance({ width, height }, approachSpeed, arcs) !== 'impossible') return height;
+  }
+  return 0;
+};
+
+/**
+ * Shortest gap (px) between two obstacles that lets the player land after the first and jump the
+ * second - Infinity if either can't be jumped at all
+ */
+export const getRequiredGap = (first: ObstacleSize, second: ObstacleSize, approachSpeed: number, arcs: JumpArcs): number => {
+  const firstWindows = getClearingWindows(first, approachSpeed, arcs);
+  const secondWindows = getClearingWindows(second, approachSpeed, arcs);
+  if (firstWindows.length === 0 || secondWindows.length === 0) return Infinity;
+
+  // Taking off as late as possible for the first obstacle lands soonest after it; the second jump
+  // has to get high enough before reaching the second obstacle
+  const afterFirst = Math.min(...firstWindows.map(({ window }) => window.landing - window.start));
+  const beforeSecond = Math.min(...secondWindows.map(({ window }) => window.start));
+
+  return Math.max(0, approachSpeed * (afterFirst + beforeSecond + CLEARANCE_MARGIN) / 1000 - first.width);
+};
+
+/**
+ * Check whether the player can get over two obstacles in a row, the second starting a gap (px)
+ * after the first ends - with a jump each, or one jump over both. Overlapping obstacles don't count
+ * as a row
+ */
+export const canClearSequence = (
+  first: ObstacleSize,
+  gap: number,
+  second: ObstacleSize,
+  approachSpeed: number,
+  arcs: JumpArcs
+): boolean => {
+  if (gap < 0) return false;
+  if (gap >= getRequiredGap(first, second, approachSpeed, arcs)) return true;
+
+  const combined = { width: first.width + gap + second.width, height: Math.max(first.height, second.height) };
+  return getClearance(combined, approachSpeed, arcs) !== 'impossible';
+};
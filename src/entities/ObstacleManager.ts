@@ -1,21 +1,49 @@
-import Player, { TrickType } from './Player';
+import Player, { CRUISE_SPEED, TrickType } from './Player';
 import PowerUp from './PowerUp';
+import Random from '../core/Random';
+import { Hitbox, getEntityHitbox, getSlopeSurfaceY, hitboxesOverlap } from './Hitbox';
+import { DifficultyProfile, getDifficultyProfile } from '../core/Difficulty';
+import { ObstaclePattern, PatternObstacle, PatternPowerUp, getUnlockedPatterns } from './ObstaclePatterns';
+import { Course, getCourseLength, sortCourse } from './Course';
+import { JumpArcs, ObstacleSize, canClearSequence, getClearance, getJumpArcs, getJumpPhysics, getMaxClearableHeight, getRequiredGap } from './JumpArc';
 
 // Define obstacle types
 export type ObstacleType = 'box' | 'ramp' | 'rail';
 
+// How far below the top of a rail the player's feet can be and still land on it (rather than hit it)
+export const RAIL_LANDING_DEPTH = 12;
+
+// How far into a ramp's slope the player's feet can sink in one update and still ride it up -
+// anything deeper came through the steep back side
+export const RAMP_RIDE_DEPTH = 16;
+
+// Obstacles close in on the player at three times the player's speed - the player moves forward
+// and every obstacle is moved back twice per update
+export const COURSE_SCROLL_FACTOR = 3;
+
+// Power-ups are only moved back once per update, so they close in at twice the player's speed
+export const POWER_UP_SCROLL_FACTOR = 2;
+
+// Random obstacles spawned between two hand-made patterns
+const MIN_OBSTACLES_BETWEEN_PATTERNS = 2;
+
+// How far ahead of the player (in course px) a loaded course's obstacles and power-ups spawn -
+// just past the right edge of the screen
+const COURSE_SPAWN_DISTANCE = 1000;
+
+// Empty track (in course px) a course run starts on before the spot it starts from - so nothing
+// placed right there starts on top of the player, and there's a moment to get ready for it
+export const COURSE_LEAD_IN = 300;
+
 // Interface for collision results
 export interface CollisionResult {
-  type: 'crash' | 'sats' | 'none';
+  type: 'crash' | 'sats' | 'grind' | 'launch' | 'none';
   points?: number;
   obstacle?: Obstacle;
 }
 
-// Image cache to avoid loading the same images multiple times
-const obstacleImages: {[key: string]: HTMLImageElement} = {};
-
-// Array of Bitcoin-themed obstacle image names
-const bitcoinObstacleImages = [
+// Array of Bitcoin-themed obstacle image names (loaded and drawn by ObstacleRenderer)
+export const bitcoinObstacleImages = [
   '3ac.png',
   'bitcoinetf.png',
   'btcenergy.png',
@@ -35,7 +63,7 @@ const bitcoinObstacleImages = [
 
 // Fallback images in case Bitcoin-themed images fail to load
 // These should be simple, reliable Bitcoin images that are guaranteed to exist
-const fallbackObstacleImages = [
+export const fallbackObstacleImages = [
   'bitcoin-fallbacks/bitcoin-logo.png',   // Using guaranteed fallback from dedicated folder
   'bitcoin-fallbacks/bitcoin-symbol.png', // Using guaranteed fallback from dedicated folder
   'bitcoin-fallbacks/btc-icon.png'        // Using guaranteed fallback from dedicated folder
@@ -45,8 +73,13 @@ const fallbackObstacleImages = [
 let recentlyUsedImages: string[] = [];
 const MAX_RECENT_IMAGES = 3; // Don't repeat the last 3 images
 
+// Forget recently used images so a fresh run starts from the same image state
+export function resetRecentObstacleImages(): void {
+  recentlyUsedImages = [];
+}
+
 // Function to get a random Bitcoin-themed obstacle image
-function getRandomBitcoinImage(): string {
+function getRandomBitcoinImage(rng: Random): string {
   try {
     // Filter out recently used images if possible
     let availableImages = bitcoinObstacleImages.filter(img => !recentlyUsedImages.includes(img));
@@ -58,7 +91,7 @@ function getRandomBitcoinImage(): string {
     }
     
     // Select a random image from the available ones
-    const selectedImage = availableImages[Math.floor(Math.random() * availableImages.length)];
+    const selectedImage = rng.pick(availableImages);
     
     // Add to recently used and maintain max length
     recentlyUsedImages.push(selectedImage);
@@ -70,72 +103,10 @@ function getRandomBitcoinImage(): string {
   } catch (err) {
     console.error('Error in getRandomBitcoinImage, using fallback:', err);
     // Return a fallback image if there's an error
-    return fallbackObstacleImages[Math.floor(Math.random() * fallbackObstacleImages.length)];
+    return rng.pick(fallbackObstacleImages);
   }
 }
 
-// Function to load an obstacle image if not already loaded
-function getObstacleImage(type: ObstacleType): { image: HTMLImageElement, name: string } {
-  // Generate a unique key for this obstacle instance
-  const imageKey = `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  
-  // Create new image
-  const img = new Image();
-  
-  // Improve image rendering quality for crisp display during movement
-  img.style.imageRendering = 'crisp-edges';
-  
-  // Enable crossOrigin to avoid CORS issues when processing
-  img.crossOrigin = 'anonymous';
-  
-  // Select a random Bitcoin-themed image
-  const bitcoinImage = getRandomBitcoinImage();
-  
-  // Track load attempts for fallback chain
-  let loadAttempt = 0;
-  const maxAttempts = 2; // Reduced from 3 to 2 (removing the old obstacle fallback)
-  let currentImageName = bitcoinImage;
-  
-  // Define our image loading function to handle retries
-  const attemptImageLoad = () => {
-    loadAttempt++;
-    
-    if (loadAttempt === 1) {
-      // First attempt: use Bitcoin image from Obstacles folder
-      img.src = `/images/Obstacles/${bitcoinImage}`;
-      currentImageName = bitcoinImage;
-    } else {
-      // Second and final attempt: try Bitcoin fallback images
-      const fallbackImage = fallbackObstacleImages[Math.floor(Math.random() * fallbackObstacleImages.length)];
-      console.log(`Trying fallback Bitcoin image: ${fallbackImage}`);
-      img.src = `/images/${fallbackImage}`;
-      currentImageName = fallbackImage;
-    }
-  };
-  
-  // Start the first load attempt
-  attemptImageLoad();
-  
-  // Store in cache with unique key
-  obstacleImages[imageKey] = img;
-  
-  img.onload = () => {
-    console.log(`Loaded obstacle image on attempt ${loadAttempt}: ${img.src}`);
-  };
-  
-  img.onerror = (err) => {
-    console.error(`Failed to load image on attempt ${loadAttempt}: ${img.src}`, err);
-    
-    // Try next fallback if we haven't reached max attempts
-    if (loadAttempt < maxAttempts) {
-      console.log(`Trying fallback image, attempt ${loadAttempt + 1}/${maxAttempts}`);
-      attemptImageLoad();
-    }
-  };
-  
-  return { image: img, name: currentImageName };
-}
-
 // Base obstacle class
 export class Obstacle {
   x: number;
@@ -146,55 +117,55 @@ export class Obstacle {
   speed: number = 0;
   hit: boolean = false;
   stackParent: Obstacle | null = null; // Add this property to track if an obstacle is stacked
-  image: HTMLImageElement;
-  imageLoaded: boolean = false;
-  imageName: string = ''; // Store the name of the image for labeling
+  doubleJump: boolean = false; // Spawned tall enough that it needs a double jump to clear
+  imageName: string = ''; // Name of the Bitcoin-themed image this obstacle shows
   
-  constructor(x: number, y: number, width: number, height: number, type: ObstacleType) {
+  constructor(x: number, y: number, width: number, height: number, type: ObstacleType, rng: Random = new Random()) {
     this.x = x;
     this.y = y;
     this.width = width;
     this.height = height;
     this.type = type;
     
-    // Load a random Bitcoin-themed image for this obstacle
-    const imageResult = getObstacleImage(type);
-    this.image = imageResult.image;
-    this.imageName = imageResult.name;
-    
-    // Check if image is already loaded
-    if (this.image.complete) {
-      this.imageLoaded = true;
-    } else {
-      this.image.onload = () => {
-        this.imageLoaded = true;
-      };
-      
-      // Add a backup timeout to consider image loaded after 3 seconds
-      // This helps if an image is stalled but not errored
-      setTimeout(() => {
-        if (!this.imageLoaded && this.image) {
-          console.log('Forcing image loaded state after timeout');
-          this.imageLoaded = true;
-        }
-      }, 3000);
-    }
+    // Pick a random Bitcoin-themed image for this obstacle
+    // This is part of the simulation so every obstacle consumes the seeded RNG the same way
+    this.imageName = getRandomBitcoinImage(rng);
   }
   
   // Check collision with player
   checkCollision(player: Player): CollisionResult {
     try {
-      // Basic rectangle collision detection
-      const collision = (
-        player.x < this.x + this.width &&
-        player.x + player.width > this.x &&
-        player.y < this.y + this.height &&
-        player.y + player.height > this.y
-      );
+      // Collide the player's hitbox with this obstacle's (ramps only fill the space under their slope)
+      const playerHitbox = getEntityHitbox(player, 'player');
+      if (!hitboxesOverlap(playerHitbox, this.getHitbox())) return { type: 'none' };
       
-      if (!collision) return { type: 'none' };
+      // Riding into a ramp's slope launches the player
+      if (this.type === 'ramp') {
+        if (player.launchRamp === this) return { type: 'none' };
+        
+        const depth = player.y + player.height - this.getSurfaceUnder(player);
+        if (depth <= RAMP_RIDE_DEPTH) {
+          return { type: 'launch', obstacle: this };
+        }
+      }
       
-      // Any collision now results in a crash - no special handling for ramps or rails
+      // Rails can be landed on from above and ground - hitting them any other way is a crash
+      if (this.type === 'rail') {
+        if (player.grindRail === this) return { type: 'none' };
+        
+        const landingOnTop = (
+          !player.onGround &&
+          player.velocityY >= 0 &&
+          player.y + player.height - this.getSurfaceUnder(player) <= RAIL_LANDING_DEPTH
+        );
+        if (landingOnTop) {
+          // Past the end of the rail (where grinding rolls off it) the player is dropping off it, not onto it
+          const pastEnd = player.x + player.width / 2 > this.x + this.width;
+          return pastEnd ? { type: 'none' } : { type: 'grind', obstacle: this };
+        }
+      }
+      
+      // Any other collision results in a crash
       return { 
         type: 'crash',
         obstacle: this 
@@ -205,6 +176,26 @@ export class Obstacle {
     }
   }
   
+  // Collision shape, from the hitbox definition for this type of obstacle
+  getHitbox(): Hitbox {
+    return getEntityHitbox(this, this.type);
+  }
+  
+  // Height of the top of the hitbox at a horizontal position (ramps slope up from the left edge to the right)
+  getSurfaceY(x: number): number {
+    const hitbox = this.getHitbox();
+    if (hitbox.shape === 'slope') return getSlopeSurfaceY(hitbox, x);
+    return hitbox.shape === 'circle' ? hitbox.y - hitbox.radius : hitbox.y;
+  }
+  
+  // Height of the top surface under the player - ramps slope up to the right, so their highest
+  // point under the player is at the front edge of the player's hitbox
+  getSurfaceUnder(player: Player): number {
+    const playerHitbox = getEntityHitbox(player, 'player');
+    const front = playerHitbox.shape === 'circle' ? playerHitbox.x + playerHitbox.radius : playerHitbox.x + playerHitbox.width;
+    return this.getSurfaceY(Math.min(front, this.x + this.width));
+  }
+  
   // Update obstacle position
   update(deltaTime: number, playerSpeed: number) {
     try {
@@ -215,229 +206,32 @@ export class Obstacle {
     }
   }
   
-  // Draw obstacle
-  draw(ctx: CanvasRenderingContext2D, cameraOffset: number = 0) {
-    try {
-      const drawX = this.x - cameraOffset;
-      
-      // Skip drawing if obstacle is off-screen
-      if (drawX + this.width < 0 || drawX > ctx.canvas.width) {
-        return;
-      }
-      
-      // Draw obstacle image if it's loaded
-      if (this.imageLoaded && this.image) {
-        // If hit, draw with reduced opacity
-        if (this.hit) {
-          ctx.globalAlpha = 0.5;
-        }
-        
-        // Draw a background box for the obstacle - solid white for better contrast
-        ctx.fillStyle = 'rgba(255, 255, 255, 1.0)';
-        
-        // Add a subtle shadow for depth and better visibility
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetY = 2;
-        
-        ctx.fillRect(
-          drawX, 
-          this.y, 
-          this.width, 
-          this.height
-        );
-        
-        // Create a more subtle border
-        ctx.shadowBlur = 0; // Remove shadow for border
-        ctx.strokeStyle = 'rgba(255, 140, 0, 0.8)'; // Orange border with slightly reduced opacity
-        ctx.lineWidth = 1.5; // Reduced from 3px to 1.5px
-        ctx.strokeRect(
-          drawX, 
-          this.y, 
-          this.width, 
-          this.height
-        );
-        
-        // Calculate dimensions that preserve aspect ratio
-        const originalWidth = this.image.width || 100;
-        const originalHeight = this.image.height || 100;
-        
-        // Scale image to fit but leave room for the label
-        let scale = Math.min(
-          (this.width * 0.95) / originalWidth,
-          (this.height * 0.8) / originalHeight // Reduced slightly to leave room for label
-        );
-        
-        // Calculate new dimensions
-        const scaledWidth = originalWidth * scale;
-        const scaledHeight = originalHeight * scale;
-        
-        // Calculate centered position
-        const centerX = drawX + (this.width - scaledWidth) / 2;
-        const centerY = this.y + (this.height * 0.45 - scaledHeight / 2); // Positioned higher to make room for label
-        
-        // Remove shadow for image drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Set image rendering to crisp-edges to reduce blur during movement
-        if (this.image.style) {
-          this.image.style.imageRendering = 'crisp-edges';
-        }
-        
-        // Boost contrast before drawing the image
-        ctx.globalAlpha = this.hit ? 0.5 : 1.0;
-        
-        // Draw the image with preserved aspect ratio
-        ctx.drawImage(
-          this.image,
-          centerX,
-          centerY,
-          scaledWidth,
-          scaledHeight
-        );
-        
-        // Add a label below the image to help identify it
-        if (!this.stackParent) { // Only add label to base obstacles
-          ctx.fillStyle = '#000000';
-          ctx.font = `${Math.min(12, this.width * 0.14)}px Arial`;
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          
-          // Extract name from image path
-          let labelText = this.getLabelText();
-          ctx.fillText(labelText, drawX + this.width / 2, this.y + this.height * 0.85);
-        }
-        
-        // Reset opacity and shadow effects
-        ctx.globalAlpha = 1.0;
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetY = 0;
-      } else {
-        // Updated fallback to always show Bitcoin-themed elements
-        // Use consistent Bitcoin orange for all obstacles
-        ctx.fillStyle = '#F7931A'; // Bitcoin orange
-        
-        // Add shadow for 3D effect
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
-        ctx.shadowBlur = 5;
-        ctx.shadowOffsetY = 2;
-        
-        // Draw base shape
-        if (this.type === 'ramp') {
-          // Draw ramp as a triangle
-          ctx.beginPath();
-          ctx.moveTo(drawX, this.y + this.height);
-          ctx.lineTo(drawX + this.width, this.y);
-          ctx.lineTo(drawX + this.width, this.y + this.height);
-          ctx.closePath();
-          ctx.fill();
-        } else {
-          // Draw box or rail as a rectangle
-          ctx.fillRect(drawX, this.y, this.width, this.height);
-        }
-        
-        // Add Bitcoin symbol on all obstacles - increased size
-        ctx.fillStyle = '#FFFFFF'; // White Bitcoin symbol
-        ctx.font = `${Math.min(this.width, this.height) * 0.6}px Arial`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        ctx.fillText('₿', drawX + this.width/2, this.y + this.height/2 - (this.height * 0.1));
-        
-        // Add a generic label
-        if (!this.stackParent) {
-          ctx.fillStyle = '#000000';
-          ctx.font = `${Math.min(12, this.width * 0.14)}px Arial`;
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          ctx.fillText('Bitcoin', drawX + this.width / 2, this.y + this.height * 0.85);
-        }
-        
-        // Reset shadow
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetY = 0;
-      }
-      
-      // For debugging hitboxes
-      if (window.DEBUG_MODE) {
-        ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(drawX, this.y, this.width, this.height);
-        
-        // Add label if debug mode
-        ctx.fillStyle = 'white';
-        ctx.font = '10px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(this.type, drawX + this.width / 2, this.y - 5);
-      }
-    } catch (err) {
-      console.error('Error in Obstacle.draw:', err);
-    }
-  }
-  
-  // Helper method to get appropriate label text from image name
-  getLabelText(): string {
-    try {
-      if (!this.imageName) return 'Bitcoin';
-      
-      // Clean up the file name to make it more readable
-      let name = this.imageName.replace(/\.\w+$/, ''); // Remove file extension
-      
-      const nameMap: {[key: string]: string} = {
-        '3ac': '3AC',
-        'bitcoinetf': 'BTC ETF',
-        'btcenergy': 'BTC Energy',
-        'china_pboc': 'China PBOC',
-        'elsalvador': 'El Salvador',
-        'ftx': 'FTX',
-        'halving': 'Halving',
-        'luna': 'Luna',
-        'MicroStrategy': 'MicroStrategy',
-        'mtgox': 'Mt. Gox',
-        'pizza': 'BTC Pizza',
-        'sec_logo': 'SEC',
-        'segwit': 'SegWit',
-        'silk_road': 'Silk Road',
-        'tesla': 'Tesla',
-        'bitcoin-logo': 'Bitcoin',
-        'bitcoin-symbol': 'Bitcoin',
-        'btc-icon': 'Bitcoin',
-        'bitcoin-fallback': 'Bitcoin'
-      };
-      
-      return nameMap[name] || name;
-    } catch (err) {
-      console.error('Error getting label text:', err);
-      return 'Bitcoin';
-    }
-  }
 }
 
 export default class ObstacleManager {
   obstacles: Obstacle[] = [];
   powerUps: PowerUp[] = [];  // Array to store active power-ups
   lastObstacleTime: number = 0;
-  minDistance: number = 300;
-  spawnRate: number = 2000; // ms between obstacles
   groundY: number = 400; // Raised from 450 to 400 to reduce road space
-  gameSpeed: number = 150; // Reduced from 200 to 150 for slower initial speed
+  gameSpeed: number = 0; // Starts at the difficulty profile's initial speed on reset
   minObstacleSpace: number = 200; // Minimum space between obstacles
   maxJumpableHeight: number = 70; // Increased from 60 to 70 for larger obstacles while maintaining jumpability
   cameraOffset: number = 0;
   totalDistance: number = 0;
   
+  // Seeded RNG driving every spawn decision - the same seed yields the same course
+  private rng: Random;
+  
+  // Tuning values for how the course speeds up and spawns (see core/Difficulty)
+  private difficulty: DifficultyProfile;
+  
   // Control variables for obstacle generation
   private timeSinceLastObstacle: number = 0;
   private spawnActive: boolean = false;
   private obstacleTypes: {[key: string]: number} = { 'box': 0, 'ramp': 0, 'rail': 0 }; // Track obstacle counts
   private lastObstacleType: ObstacleType | null = null; // Track last type to avoid repeats
-  private stackedObstacleChance: number = 0.3; // 30% chance of stacked obstacles
   private passedObstacles: Set<Obstacle> = new Set(); // Track obstacles that have been passed
   
-  // New property to track preloaded images
-  private preloadedImages: Set<string> = new Set();
-  
   // Track current jump to only award sats once per jump
   private currentJumpId: number = 0;
   private satsAwardedThisJump: boolean = false;
@@ -447,97 +241,71 @@ export default class ObstacleManager {
   
   // New variables for dynamic difficulty
   private totalGameTime: number = 0; // Track total game time
-  private speedIncreaseInterval: number = 6000; // Increased from 4000 to 6000 for slower acceleration
   private lastSpeedIncreaseTime: number = 0; // Track when we last increased speed
-  private baseSpawnRate: number = 5000; // Base time between obstacles in ms (increased from 3500 to 5000)
-  private maxGameSpeed: number = 400; // Reduced from 600 to 400 for lower maximum speed
-  private spawnRateVariability: number = 0.5; // 50% random variance in spawn timing (reduced from 70%)
   private lastObstacleDifficulty: number = 0; // Track how difficult the last obstacle was to ensure pacing
-  private obstaclePatterns: number = 0; // Counter for obstacle patterns to help vary difficulty
-  private difficultyProgressionRate: number = 2.5; // How quickly difficulty increases (reduced from 3.0)
-  private rapidSuccessionChance: number = 0.12; // 12% chance of creating rapid succession obstacles 
+  private lastPattern: string | null = null; // Name of the last hand-made pattern spawned
+  private obstaclesSincePattern: number = 0; // Random obstacles spawned since then
+  
+  // Hand-built course played instead of random spawning (null for a random course), where along it
+  // the run starts, and the next of its obstacles and power-ups to spawn
+  private course: Course | null = null;
+  private courseSource: Course | null = null; // The course as it was passed in, to tell when a new one is loaded
+  private courseStart: number = 0;
+  private nextCourseObstacle: number = 0;
+  private nextCoursePowerUp: number = 0;
   private lastObstacleWasRapid: boolean = false; // Track if we just created a rapid succession sequence
-  private initialSpeedBoost: number = 0; // Starting speed boost (now removed for playability)
-  private doubleJumpObstacleChance: number = 0.08; // 8% chance of spawning obstacles that require double jumping
   private maxDoubleJumpHeight: number = 105; // Increased from 90 to 105 for larger obstacles while maintaining double-jump mechanics
   
+  // The player's jump arcs and the speed obstacles close in on them at - every spawn is adjusted
+  // until it can be cleared with them
+  private jumpArcs: JumpArcs | null = null;
+  private approachSpeed: number = 0;
+  
   // Power-up management properties
   private timeSinceLastPowerUp: number = 0;  // Track time since last power-up spawned
-  private powerUpSpawnRate: number = 2000;  // Base time between power-ups in ms
-  private powerUpSpawnChance: number = 0.8;  // Chance of spawning when conditions are met
   private powerUpMinHeight: number = 100;   // Minimum height for power-ups (above ground)
   private powerUpMaxHeight: number = 250;   // Maximum height for power-ups
   private guaranteedPowerUpTimer: number = 0; // Timer to ensure at least one power-up per minute
-  private maxPowerUpsPerMinute: number = 8; // Maximum power-ups per minute
   private powerUpsInLastMinute: number = 0; // Track power-ups created in the last minute
   private lastMinuteResetTime: number = 0;  // Track when we last reset the minute counter
-  private minPowerUpSpacing: number = 1200; // Minimum time (ms) between power-ups
   private lastPowerUpDistance: number = 0;  // Track distance of last power-up for spacing
-  private earlyGamePowerUpLimit: number = 3; // Limit power-ups in early game
   private earlyPowerUpCount: number = 0;    // Counter for power-ups in early game
   
   // New powerup system properties
-  private powerUpInitialDelay: number = 4000; // Initial delay before any powerups can spawn
   private powerUpSystemReady: boolean = false; // Flag to track if the initial delay has passed
   private lastPowerUpXPosition: number = 0; // Track last powerup x position for spacing
-  private minSpatialDistance: number = 350; // Minimum distance between powerups
-  private consecutivePowerupChance: number = 0.15; // Chance of a quick followup powerup
   private isInConsecutiveSpawn: boolean = false; // Flag to track if we're in a consecutive spawn sequence
-  private allowConsecutiveInEarlyGame: boolean = false; // Flag to control consecutive spawns in early game
   
-  // New variables for mid-game and late-game frequency control
-  private midGameSpawnRateReduction: number = 0.8; // Spawn 20% faster in mid-game
-  private lateGameSpawnRateReduction: number = 0.65; // Spawn 35% faster in late game
-  
-  // New variables for easier start
-  private gameStartGracePeriod: number = 8000; // 8 second grace period at start (increased from 6s)
-  private initialObstacleDelay: number = 8000; // Delay first obstacle by 8 seconds (increased from 5s)
-  private easyModeTimer: number = 20000; // Easy mode for first 20 seconds (increased from 18s)
+  // Easy start tracking
   private firstObstacleSpawned: boolean = false; // Track if we've spawned the first obstacle
-  private secondObstacleDelay: number = 6000; // Extra delay for the second obstacle (increased from 4000)
   private obstacleCountInEasyMode: number = 0; // Track how many obstacles we've spawned in easy mode
   
-  constructor() {
-    this.reset();
-    this.preloadObstacleImages();
+  constructor(seed?: number, difficulty: DifficultyProfile = getDifficultyProfile()) {
+    this.rng = new Random(seed);
+    this.difficulty = difficulty;
+    this.reset(seed);
   }
   
-  // Preload obstacle images to improve performance
-  private preloadObstacleImages() {
-    try {
-      console.log('Preloading obstacle images...');
-      
-      // Preload a few Bitcoin images
-      const imagesToPreload = [...bitcoinObstacleImages.slice(0, 5), ...fallbackObstacleImages];
-      
-      imagesToPreload.forEach(imgSrc => {
-        // Skip if already preloaded
-        if (this.preloadedImages.has(imgSrc)) return;
-        
-        // Create new image and load
-        const img = new Image();
-        img.onload = () => {
-          console.log(`Preloaded image: ${imgSrc}`);
-          this.preloadedImages.add(imgSrc);
-        };
-        img.onerror = () => {
-          console.warn(`Failed to preload image: ${imgSrc}`);
-        };
-        
-        // Set source to trigger loading
-        if (bitcoinObstacleImages.includes(imgSrc)) {
-          img.src = `/images/Obstacles/${imgSrc}`;
-        } else {
-          img.src = `/images/${imgSrc}`;
-        }
-      });
-      
-      // Remove old fallback preloading
-      // No longer preloading obstacle type images
-      
-    } catch (err) {
-      console.error('Error preloading obstacle images:', err);
-    }
+  /**
+   * Get the seed of the current course (share it to replay the same course)
+   */
+  getSeed(): number {
+    return this.rng.seed;
+  }
+  
+  /**
+   * Get the difficulty profile the course is generated with
+   */
+  getDifficulty(): DifficultyProfile {
+    return this.difficulty;
+  }
+  
+  /**
+   * Get how far the game has sped up, from 0 (starting speed) to 1 (top speed)
+   */
+  getSpeedProgress(): number {
+    const progress = (this.gameSpeed - this.difficulty.initialGameSpeed) / (this.difficulty.maxGameSpeed - this.difficulty.initialGameSpeed);
+    return Math.min(1, Math.max(0, progress));
   }
   
   // Update all obstacles
@@ -546,6 +314,12 @@ export default class ObstacleManager {
       // Update game time
       this.totalGameTime += deltaTime;
       
+      // Keep track of what the player can jump over
+      if (!this.jumpArcs) {
+        this.jumpArcs = getJumpArcs(getJumpPhysics(player, deltaTime));
+      }
+      this.approachSpeed = COURSE_SCROLL_FACTOR * player.speed * CRUISE_SPEED;
+      
       // Debug: Log the player's sats at the start of update
       const initialSats = player.sats;
       
@@ -567,6 +341,7 @@ export default class ObstacleManager {
       this.playerWasOnGround = player.onGround;
       
       // Award jump points - but only do this ONCE per frame max
+      let jumpSatAwarded = false;
       // AND only if this specific jump hasn't been awarded points yet
       // AND only if the player is not doing a trick
       // AND only if this is a legitimate jump (not the initial game start)
@@ -584,6 +359,7 @@ export default class ObstacleManager {
         // Mark that we've awarded sats for this jump to prevent double-counting
         this.satsAwardedThisJump = true;
         this.lastScoringJumpId = this.currentJumpId;
+        jumpSatAwarded = true;
         
         console.log(`JUMP SATS EVENT: Jump #${this.currentJumpId} - Sats before: ${beforeSats}, after: ${player.sats}, jump sat added`);
       }
@@ -604,7 +380,7 @@ export default class ObstacleManager {
       }
       
       // Don't activate obstacles until after the initial delay
-      if (!this.spawnActive && this.totalGameTime > this.initialObstacleDelay) {
+      if (!this.spawnActive && this.totalGameTime > this.difficulty.initialObstacleDelay) {
         console.log("Activating obstacle spawning after initial delay");
         this.spawnActive = true;
       }
@@ -617,18 +393,17 @@ export default class ObstacleManager {
       }
       
       // Check for increasing game speed - gentler at start
-      if (this.gameSpeed < this.maxGameSpeed && 
-          this.totalGameTime - this.lastSpeedIncreaseTime > this.speedIncreaseInterval) {
+      if (this.gameSpeed < this.difficulty.maxGameSpeed && 
+          this.totalGameTime - this.lastSpeedIncreaseTime > this.difficulty.speedIncreaseInterval) {
         // Increase speed every interval, but more gradually at the start
         const oldSpeed = this.gameSpeed;
         
-        // Slower speed increases in the first 15 seconds
-        let speedIncrease = 5; // Reduced from 10 to 5 for slower acceleration
-        if (this.totalGameTime < this.easyModeTimer) {
-          speedIncrease = 3; // Reduced from 5 to 3 for even slower early game acceleration
-        }
+        // Slower speed increases during the easy start
+        const speedIncrease = this.totalGameTime < this.difficulty.easyModeTimer
+          ? this.difficulty.easyModeSpeedIncrease
+          : this.difficulty.speedIncrease;
         
-        this.gameSpeed = Math.min(this.maxGameSpeed, this.gameSpeed + speedIncrease);
+        this.gameSpeed = Math.min(this.difficulty.maxGameSpeed, this.gameSpeed + speedIncrease);
         this.lastSpeedIncreaseTime = this.totalGameTime;
         
         if (oldSpeed !== this.gameSpeed) {
@@ -641,16 +416,17 @@ export default class ObstacleManager {
       
       // Initial speed boost when game starts - more gentle startup
       if (this.spawnActive && player.state === 'skating') {
-        if (this.totalGameTime < this.gameStartGracePeriod) {
-          // First few seconds - very gentle start (reduced from 20 to 10 for slower start)
-          const startupBoost = Math.min(10, (this.totalGameTime / this.gameStartGracePeriod) * 10);
-          player.speed = 140 + startupBoost; // Reduced from 180+10 to 140+10 for slower initial speed
+        const { startSpeed, gracePeriodSpeedBoost, easyModeSpeedBoost, gameStartGracePeriod, easyModeTimer } = this.difficulty;
+        if (this.totalGameTime < gameStartGracePeriod) {
+          // First few seconds - very gentle start
+          const startupBoost = Math.min(gracePeriodSpeedBoost, (this.totalGameTime / gameStartGracePeriod) * gracePeriodSpeedBoost);
+          player.speed = startSpeed + startupBoost;
           this.gameSpeed = player.speed;
-        } else if (this.totalGameTime < this.easyModeTimer) {
-          // Next few seconds - gentler ramp up (reduced boost from 40 to 25)
-          const startupBoost = 10 + Math.min(20, ((this.totalGameTime - this.gameStartGracePeriod) / 
-                              (this.easyModeTimer - this.gameStartGracePeriod)) * 20);
-          player.speed = 140 + startupBoost; // Reduced from 180+25 to 140+20 for slower early game
+        } else if (this.totalGameTime < easyModeTimer) {
+          // Next few seconds - gentle ramp up to the end of the easy start
+          const startupBoost = gracePeriodSpeedBoost + Math.min(easyModeSpeedBoost, ((this.totalGameTime - gameStartGracePeriod) / 
+                              (easyModeTimer - gameStartGracePeriod)) * easyModeSpeedBoost);
+          player.speed = startSpeed + startupBoost;
           this.gameSpeed = player.speed;
         }
       }
@@ -663,6 +439,9 @@ export default class ObstacleManager {
         this.spawnActive = true;
       }
       
+      // Rail the player landed on or ramp they were launched off this update, if any
+      let rideResult: CollisionResult | null = null;
+      
       // Process obstacle updates and check for collisions
       // Update existing obstacles
       for (let i = this.obstacles.length - 1; i >= 0; i--) {
@@ -673,7 +452,18 @@ export default class ObstacleManager {
         if (!player.crashed) {
           // Check for collision with player
           const collisionResult = obstacle.checkCollision(player);
-          if (collisionResult.type !== 'none') {
+          if (collisionResult.type === 'grind' || collisionResult.type === 'launch') {
+            // Landed on a rail or hit a ramp's slope - ride it (landing mid-trick can still bail)
+            if (collisionResult.type === 'grind') {
+              player.startGrind(obstacle);
+            } else {
+              player.launchOffRamp(obstacle, obstacle.getSurfaceUnder(player));
+            }
+            if (player.crashed) {
+              return { type: 'crash', obstacle };
+            }
+            rideResult = collisionResult;
+          } else if (collisionResult.type !== 'none') {
             return collisionResult;
           }
           
@@ -703,18 +493,23 @@ export default class ObstacleManager {
         }
       }
       
+      // A loaded course spawns exactly what's on it
+      if (this.course && this.spawnActive && !player.crashed) {
+        this.spawnCourseItems(player);
+      }
+      
       // Generate new obstacles if needed
-      if (this.spawnActive && !player.crashed) {
+      if (!this.course && this.spawnActive && !player.crashed) {
         this.timeSinceLastObstacle += deltaTime;
         
         // Calculate dynamic spawn rate based on game factors
-        const speedFactor = Math.min(1, this.gameSpeed / this.maxGameSpeed);
+        const speedFactor = Math.min(1, this.gameSpeed / this.difficulty.maxGameSpeed);
         
         // Base spawn rate that decreases more aggressively as speed increases
-        const adjustedBaseRate = this.baseSpawnRate - ((this.baseSpawnRate - 900) * speedFactor); // More aggressive scaling
+        const adjustedBaseRate = this.difficulty.baseSpawnRate - ((this.difficulty.baseSpawnRate - this.difficulty.minSpawnRate) * speedFactor);
         
         // Add more randomness to spawn rate
-        const randomVariance = (-this.spawnRateVariability/2 + Math.random() * this.spawnRateVariability) * adjustedBaseRate;
+        const randomVariance = (-this.difficulty.spawnRateVariability/2 + this.rng.next() * this.difficulty.spawnRateVariability) * adjustedBaseRate;
         
         // Less buffer time based on obstacle difficulty
         const difficultyBuffer = this.lastObstacleDifficulty * 120; // Even less buffer (was 150)
@@ -727,7 +522,7 @@ export default class ObstacleManager {
         finalSpawnRate += startBonus;
         
         // Add additional spacing for the first few obstacles in easy mode
-        if (this.obstacleCountInEasyMode < 4 && this.totalGameTime < this.easyModeTimer) {
+        if (this.obstacleCountInEasyMode < 4 && this.totalGameTime < this.difficulty.easyModeTimer) {
           // Significant additional delay between early obstacles
           const earlyGameModifier = 3000 - (this.obstacleCountInEasyMode * 500);
           finalSpawnRate += earlyGameModifier;
@@ -736,11 +531,11 @@ export default class ObstacleManager {
         
         // First obstacle needs significant delay
         if (!this.firstObstacleSpawned) {
-          finalSpawnRate = this.initialObstacleDelay;
+          finalSpawnRate = this.difficulty.initialObstacleDelay;
           console.log("Setting delay for first obstacle");
         } else if (this.obstacleCountInEasyMode === 1) {
           // Second obstacle also needs extra delay
-          finalSpawnRate += this.secondObstacleDelay;
+          finalSpawnRate += this.difficulty.secondObstacleDelay;
           console.log("Adding delay for second obstacle");
         }
         
@@ -751,9 +546,9 @@ export default class ObstacleManager {
         // Occasionally force earlier spawn for rapid succession (after 10 seconds)
         // Make sure we're not in early game or easy mode
         if (this.totalGameTime > 10000 && 
-            this.totalGameTime > this.easyModeTimer && 
+            this.totalGameTime > this.difficulty.easyModeTimer && 
             !this.lastObstacleWasRapid && 
-            Math.random() < this.rapidSuccessionChance) {
+            this.rng.next() < this.difficulty.rapidSuccessionChance) {
           // Force a shorter spawn time to create rapid succession effect
           safeSpawnRate = minReactionTime * 0.75;
           this.lastObstacleWasRapid = true;
@@ -765,18 +560,30 @@ export default class ObstacleManager {
         
         // Surprise spawn chances increase with game time - more aggressive
         // No surprise spawns during easy mode
-        const surpriseChance = Math.min(0.13, this.totalGameTime / 120000) * (this.totalGameTime > this.easyModeTimer ? 1 : 0);
-        const surpriseSpawn = Math.random() < surpriseChance && this.timeSinceLastObstacle > minReactionTime * 0.8;
+        const surpriseChance = Math.min(0.13, this.totalGameTime / 120000) * (this.totalGameTime > this.difficulty.easyModeTimer ? 1 : 0);
+        const surpriseSpawn = this.rng.next() < surpriseChance && this.timeSinceLastObstacle > minReactionTime * 0.8;
         
         if ((this.timeSinceLastObstacle > safeSpawnRate || surpriseSpawn) && this.canSpawnObstacle()) {
           // Create a new obstacle
           // Initially no double-jump obstacles and lower chance of difficult obstacles in easy mode
-          const doubleJumpRequired = Math.random() < this.doubleJumpObstacleChance && 
-                                  this.totalGameTime > this.easyModeTimer + 5000; // No double jumps in easy mode
+          const doubleJumpRequired = this.rng.next() < this.difficulty.doubleJumpObstacleChance && 
+                                  this.totalGameTime > this.difficulty.easyModeTimer + 5000; // No double jumps in easy mode
           
           // Make the game significantly easier for the first 20 seconds
-          const isEasyMode = this.totalGameTime < this.easyModeTimer;
-          this.createRandomObstacle(this.lastObstacleWasRapid, doubleJumpRequired, isEasyMode);
+          const isEasyMode = this.totalGameTime < this.difficulty.easyModeTimer;
+          
+          // Now and then spawn a hand-made pattern instead, once the easy start is over
+          const pattern = !isEasyMode &&
+            this.obstaclesSincePattern >= MIN_OBSTACLES_BETWEEN_PATTERNS &&
+            this.rng.next() < this.difficulty.patternChance ? this.pickPattern() : null;
+          
+          if (pattern) {
+            this.spawnPattern(pattern);
+            this.obstaclesSincePattern = 0;
+          } else {
+            this.createRandomObstacle(this.lastObstacleWasRapid, doubleJumpRequired, isEasyMode);
+            this.obstaclesSincePattern++;
+          }
           
           this.timeSinceLastObstacle = 0;
           
@@ -789,20 +596,11 @@ export default class ObstacleManager {
           if (isEasyMode) {
             this.obstacleCountInEasyMode++;
           }
-          
-          // More random pattern progression - higher chance of skipping
-          if (Math.random() < 0.5) { // Increased randomness (was 0.4)
-            // Jump to a random pattern position
-            this.obstaclePatterns = Math.floor(Math.random() * 10);
-          } else {
-            // Normal pattern progression
-            this.obstaclePatterns = (this.obstaclePatterns + 1) % 10;
-          }
         }
       }
       
       // Use our new powerup system (replacing the old logic)
-      if (this.spawnActive) {
+      if (this.spawnActive && !this.course) {
         this.updatePowerUpSystem(deltaTime, this.totalGameTime);
       }
       
@@ -834,8 +632,10 @@ export default class ObstacleManager {
       // Create result to return
       let result: CollisionResult = { type: 'none' };
       
-      // If a sat was awarded this frame for a jump, return that info
-      if (player.sats > initialSats && this.satsAwardedThisJump) {
+      // A grind or ramp launch that started this frame, or a sat awarded for a jump
+      if (rideResult) {
+        result = rideResult;
+      } else if (jumpSatAwarded) {
         result = { type: 'sats', points: 1 };
       } 
       
@@ -878,7 +678,7 @@ export default class ObstacleManager {
     
     // Add extra spacing requirement for the first few obstacles (early game)
     let requiredSpace = minSafeDistance;
-    if (this.obstacleCountInEasyMode < 4 || this.totalGameTime < this.easyModeTimer) {
+    if (this.obstacleCountInEasyMode < 4 || this.totalGameTime < this.difficulty.easyModeTimer) {
       // Enforce significantly larger spacing during early game
       requiredSpace = minSafeDistance * 2.5; // 2.5x the normal distance for early obstacles
       
@@ -942,7 +742,7 @@ export default class ObstacleManager {
       const totalWeight = typeDistribution.reduce((sum, item) => sum + item.weight, 0);
       
       // Select type based on weighted random
-      let randomWeight = Math.random() * totalWeight;
+      let randomWeight = this.rng.next() * totalWeight;
       let selectedType: ObstacleType = 'box'; // Default
       
       for (const item of typeDistribution) {
@@ -967,10 +767,10 @@ export default class ObstacleManager {
       switch (type) {
         case 'box':
           // Increased box dimensions
-          width = (35 + Math.random() * 30) * sizeFactor; // was 30-50
+          width = (35 + this.rng.next() * 30) * sizeFactor; // was 30-50
           height = isDoubleJumpObstacle ? 
-            (Math.random() * 25 + 60) * sizeFactor : // Double-jump boxes are very tall
-            (Math.random() * 20 + 15) * sizeFactor; // Standard boxes
+            (this.rng.next() * 25 + 60) * sizeFactor : // Double-jump boxes are very tall
+            (this.rng.next() * 20 + 15) * sizeFactor; // Standard boxes
           
           // Cap height at maxHeight
           height = Math.min(height, maxHeight);
@@ -978,10 +778,10 @@ export default class ObstacleManager {
           
         case 'ramp':
           // Increased ramp dimensions (ramps should be larger for game balance)
-          width = (50 + Math.random() * 40) * sizeFactor; // was 40-70
+          width = (50 + this.rng.next() * 40) * sizeFactor; // was 40-70
           height = isDoubleJumpObstacle ?
-            (Math.random() * 20 + 55) * sizeFactor : // Double-jump ramps are tall
-            (Math.random() * 15 + 20) * sizeFactor; // Standard ramps
+            (this.rng.next() * 20 + 55) * sizeFactor : // Double-jump ramps are tall
+            (this.rng.next() * 15 + 20) * sizeFactor; // Standard ramps
             
           // Cap height at maxHeight
           height = Math.min(height, maxHeight);
@@ -989,8 +789,8 @@ export default class ObstacleManager {
           
         case 'rail':
           // Rails stay narrow in height but get wider
-          width = (80 + Math.random() * 70) * sizeFactor; // was 70-120
-          height = (8 + Math.random() * 10) * sizeFactor; // was 8-15, low to make them easier to jump
+          width = (80 + this.rng.next() * 70) * sizeFactor; // was 70-120
+          height = (8 + this.rng.next() * 10) * sizeFactor; // was 8-15, low to make them easier to jump
           break;
           
         default:
@@ -1003,17 +803,20 @@ export default class ObstacleManager {
       this.lastObstacleDifficulty = (height / (isDoubleJumpObstacle ? this.maxDoubleJumpHeight * sizeFactor : this.maxJumpableHeight * sizeFactor)) * 0.7 + (width / (180 * sizeFactor)) * 0.3;
       
       // Place obstacle with more aggressive positioning
-      const surpriseOffset = Math.random() < 0.35 ? Math.random() * 150 : 0; // More surprise offsets (was 0.25)
-      const rapidOffset = isRapidSuccession ? 100 + Math.random() * 50 : 0;
+      const surpriseOffset = this.rng.next() < 0.35 ? this.rng.next() * 150 : 0; // More surprise offsets (was 0.25)
+      const rapidOffset = isRapidSuccession ? 100 + this.rng.next() * 50 : 0;
       
       const obstacle = new Obstacle(
         800 + this.cameraOffset - surpriseOffset - rapidOffset,
         this.groundY - height,
         width,
         height,
-        type
+        type,
+        this.rng
       );
       
+      obstacle.doubleJump = isDoubleJumpObstacle;
+      
       this.obstacles.push(obstacle);
       console.log(`Created ${type} obstacle at ${obstacle.x} with height ${height}px and width ${width}px (difficulty: ${this.lastObstacleDifficulty.toFixed(2)}${isRapidSuccession ? ', RAPID' : ''}${isDoubleJumpObstacle ? ', DOUBLE JUMP' : ''})`);
       
@@ -1021,21 +824,21 @@ export default class ObstacleManager {
       if (!isDoubleJumpObstacle) {
         // Stacking logic
         const stackMultiplier = isRapidSuccession ? 0.6 : 1.4; // More stacking for regular obstacles (was 1.3)
-        const baseStackChance = this.stackedObstacleChance * stackMultiplier;
+        const baseStackChance = this.difficulty.stackedObstacleChance * stackMultiplier;
         const progressionBonus = this.lastObstacleDifficulty * 0.35; // Increases with difficulty (was 0.3)
         
-        // Reduce stack chance if we've had multiple difficult obstacles
-        const patternAdjustment = this.obstaclePatterns >= 7 ? -0.1 : 0;
+        // Fewer stacks right after a pattern so there's a breather
+        const patternAdjustment = this.lastPattern && this.obstaclesSincePattern === 0 ? -0.1 : 0;
         
         const finalStackChance = baseStackChance + progressionBonus + patternAdjustment;
         
-        if (Math.random() < finalStackChance && type !== 'rail') {
+        if (this.rng.next() < finalStackChance && type !== 'rail') {
           // Create a second stacked obstacle
           this.createStackedObstacle(obstacle, this.lastObstacleDifficulty);
           
           // Chance of creating a triple-stack for extreme challenge
           const tripleStackChance = isRapidSuccession ? 0.05 : 0.18; // 18% for regular (was 15%)
-          if (this.lastObstacleDifficulty > 0.5 && Math.random() < tripleStackChance) {
+          if (this.lastObstacleDifficulty > 0.5 && this.rng.next() < tripleStackChance) {
             const doubleStackedObstacle = this.obstacles[this.obstacles.length - 1];
             if (doubleStackedObstacle && doubleStackedObstacle.stackParent === obstacle) {
               this.createStackedObstacle(doubleStackedObstacle, this.lastObstacleDifficulty * 0.8);
@@ -1044,13 +847,247 @@ export default class ObstacleManager {
         }
       }
       
-      return obstacle;
+      return this.makeClearable(obstacle) ? obstacle : null;
     } catch (err) {
       console.error('Error creating random obstacle:', err);
       return null;
     }
   }
   
+  // Pick a pattern unlocked at the current speed, weighted and never the same one twice in a row
+  private pickPattern(): ObstaclePattern | null {
+    const patterns = getUnlockedPatterns(this.getSpeedProgress())
+      .filter(pattern => pattern.name !== this.lastPattern);
+    if (patterns.length === 0) return null;
+    
+    let randomWeight = this.rng.next() * patterns.reduce((sum, pattern) => sum + pattern.weight, 0);
+    for (const pattern of patterns) {
+      if (randomWeight < pattern.weight) return pattern;
+      randomWeight -= pattern.weight;
+    }
+    return patterns[patterns.length - 1];
+  }
+  
+  // Put a pattern obstacle (and anything stacked on it) on the ground at a position
+  private placePatternObstacle(item: PatternObstacle, x: number): Obstacle {
+    const base = new Obstacle(x, this.groundY - item.height, item.width, item.height, item.type, this.rng);
+    this.obstacles.push(base);
+    
+    let below = base;
+    (item.stack || []).forEach(piece => {
+      const stacked = new Obstacle(base.x + piece.offset, below.y - piece.height, piece.width, piece.height, piece.type, this.rng);
+      stacked.stackParent = below;
+      this.obstacles.push(stacked);
+      below = stacked;
+    });
+    
+    this.obstacleTypes[item.type]++;
+    this.lastObstacleType = item.type;
+    return base;
+  }
+  
+  // Put a pattern power-up a distance (in course px) ahead of the player - power-ups close in slower
+  // than obstacles, so it's placed to reach the player at the same time an obstacle there would
+  private placePatternPowerUp(item: PatternPowerUp, playerX: number, distance: number): PowerUp {
+    const powerUp = new PowerUp({
+      x: playerX + distance * POWER_UP_SCROLL_FACTOR / COURSE_SCROLL_FACTOR,
+      y: this.groundY - item.height,
+      type: this.getRandomTrickType()
+    });
+    this.powerUps.push(powerUp);
+    return powerUp;
+  }
+  
+  /**
+   * Spawn a hand-made pattern starting just off screen - every obstacle in it still gets adjusted
+   * to be clearable like a random one
+   */
+  spawnPattern(pattern: ObstaclePattern): Obstacle[] {
+    try {
+      const startX = 800 + this.cameraOffset;
+      const spawned: { obstacle: Obstacle; at: number; shift: number }[] = [];
+      
+      pattern.obstacles.forEach(item => {
+        const base = this.placePatternObstacle(item, startX + item.at);
+        if (this.makeClearable(base)) {
+          spawned.push({ obstacle: base, at: item.at, shift: base.x - (startX + item.at) });
+        }
+      });
+      
+      // Each power-up moves back along with its part of the pattern if that got pushed back. Power-ups
+      // over the difficulty's per-minute limit are left out
+      const playerX = this.cameraOffset + 100; // The camera keeps the player 100px from the left edge
+      let powerUpCount = 0;
+      pattern.powerUps.forEach(item => {
+        if (this.powerUpsInLastMinute >= this.difficulty.maxPowerUpsPerMinute) return;
+        const shift = spawned.filter(s => s.at <= item.at).pop()?.shift || 0;
+        const powerUp = this.placePatternPowerUp(item, playerX, startX + item.at + shift - playerX);
+        this.lastPowerUpXPosition = Math.max(this.lastPowerUpXPosition, powerUp.x);
+        this.timeSinceLastPowerUp = 0;
+        this.powerUpsInLastMinute++;
+        powerUpCount++;
+      });
+      
+      this.lastPattern = pattern.name;
+      console.log(`Spawned "${pattern.label}" pattern with ${spawned.length} obstacles and ${powerUpCount} power-ups`);
+      
+      return spawned.map(s => s.obstacle);
+    } catch (err) {
+      console.error('Error in ObstacleManager.spawnPattern:', err);
+      return [];
+    }
+  }
+  
+  /**
+   * Play a hand-built course instead of random obstacles (null goes back to random spawning).
+   * Runs start a short lead-in before a position along the course - anything before it is skipped
+   */
+  loadCourse(course: Course | null, startAt: number = 0) {
+    const changed = course !== this.courseSource;
+    if (changed) {
+      this.courseSource = course;
+      this.course = course && sortCourse(course);
+    }
+    this.courseStart = startAt;
+    this.skipCourseItemsBehind(startAt);
+    if (!changed) return;
+    
+    // The random power-up limits don't apply to a course - start them afresh either way
+    this.resetPowerUpCounters();
+    console.log(course ? `Loaded course "${course.name}"` : 'Back to random obstacles');
+  }
+  
+  /**
+   * Get the loaded course, if any
+   */
+  getCourse(): Course | null {
+    return this.course;
+  }
+  
+  /**
+   * Check whether the player has made it past the end of the loaded course
+   */
+  isCourseComplete(): boolean {
+    return this.course !== null && this.getCourseProgress() > getCourseLength(this.course);
+  }
+  
+  /**
+   * Get how far along the loaded course the player is (px)
+   */
+  getCourseProgress(): number {
+    return this.courseStart - COURSE_LEAD_IN + this.totalDistance * COURSE_SCROLL_FACTOR;
+  }
+  
+  // Move past a course's obstacles and power-ups that come before a position
+  private skipCourseItemsBehind(position: number) {
+    this.nextCourseObstacle = 0;
+    this.nextCoursePowerUp = 0;
+    if (!this.course) return;
+    
+    while (this.nextCourseObstacle < this.course.obstacles.length && this.course.obstacles[this.nextCourseObstacle].at < position) {
+      this.nextCourseObstacle++;
+    }
+    while (this.nextCoursePowerUp < this.course.powerUps.length && this.course.powerUps[this.nextCoursePowerUp].at < position) {
+      this.nextCoursePowerUp++;
+    }
+  }
+  
+  // Spawn the loaded course's obstacles and power-ups as they come within reach of the player
+  private spawnCourseItems(player: Player) {
+    try {
+      if (!this.course) return;
+      const progress = this.getCourseProgress();
+      const { obstacles, powerUps } = this.course;
+      
+      while (this.nextCourseObstacle < obstacles.length && obstacles[this.nextCourseObstacle].at - progress < COURSE_SPAWN_DISTANCE) {
+        const item = obstacles[this.nextCourseObstacle++];
+        this.placePatternObstacle(item, player.x + item.at - progress);
+      }
+      
+      while (this.nextCoursePowerUp < powerUps.length && powerUps[this.nextCoursePowerUp].at - progress < COURSE_SPAWN_DISTANCE) {
+        const item = powerUps[this.nextCoursePowerUp++];
+        this.placePatternPowerUp(item, player.x, item.at - progress);
+      }
+    } catch (err) {
+      console.error('Error in ObstacleManager.spawnCourseItems:', err);
+    }
+  }
+  
+  // Get an obstacle and everything stacked on it
+  private getStack(base: Obstacle): Obstacle[] {
+    return this.obstacles.filter(obstacle => {
+      let bottom = obstacle;
+      while (bottom.stackParent) bottom = bottom.stackParent;
+      return bottom === base;
+    });
+  }
+  
+  // Get the size of a stack from the ground up
+  private getStackSize(stack: Obstacle[]): ObstacleSize {
+    const left = Math.min(...stack.map(o => o.x));
+    const right = Math.max(...stack.map(o => o.x + o.width));
+    const top = Math.min(...stack.map(o => o.y));
+    return { width: right - left, height: this.groundY - top };
+  }
+  
+  // Adjust a freshly spawned obstacle until the player can get over it at their current speed -
+  // stacked pieces come off and it gets lower if it's too tall to jump, and it moves back if it
+  // comes too soon after the one before. Returns false if it had to be dropped altogether
+  private makeClearable(base: Obstacle): boolean {
+    try {
+      const arcs = this.jumpArcs;
+      const speed = this.approachSpeed;
+      if (!arcs || speed <= 0) return true;
+      
+      let stack = this.getStack(base);
+      
+      // Too tall to jump over - take pieces off the top of the stack first
+      while (stack.length > 1 && getClearance(this.getStackSize(stack), speed, arcs) === 'impossible') {
+        const top = stack[stack.length - 1];
+        this.obstacles = this.obstacles.filter(o => o !== top);
+        stack = stack.slice(0, -1);
+        console.log(`Removed unclearable stacked ${top.type} obstacle`);
+      }
+      
+      if (getClearance(this.getStackSize(stack), speed, arcs) === 'impossible') {
+        const height = getMaxClearableHeight(base.width, speed, arcs);
+        if (height <= 0) {
+          this.obstacles = this.obstacles.filter(o => o !== base);
+          console.log(`Dropped unclearable ${base.type} obstacle (width ${base.width}px)`);
+          return false;
+        }
+        
+        console.log(`Lowered ${base.type} obstacle from ${base.height}px to ${height}px so it can be cleared`);
+        base.y = this.groundY - height;
+        base.height = height;
+      }
+      
+      // Too close behind the previous obstacle to land and jump again - push it back until it isn't
+      const previous = this.obstacles.slice(0, this.obstacles.indexOf(base)).filter(o => !o.stackParent).pop();
+      if (previous) {
+        const previousStack = this.getStack(previous);
+        const previousSize = this.getStackSize(previousStack);
+        const size = this.getStackSize(stack);
+        const previousRight = Math.max(...previousStack.map(o => o.x + o.width));
+        const left = Math.min(...stack.map(o => o.x));
+        const gap = left - previousRight;
+        
+        if (!canClearSequence(previousSize, gap, size, speed, arcs)) {
+          const shift = getRequiredGap(previousSize, size, speed, arcs) - gap;
+          stack.forEach(o => {
+            o.x += shift;
+          });
+          console.log(`Moved ${base.type} obstacle back ${shift.toFixed(0)}px so it can be cleared after the last one`);
+        }
+      }
+      
+      return true;
+    } catch (err) {
+      console.error('Error in ObstacleManager.makeClearable:', err);
+      return true;
+    }
+  }
+  
   // Create a stacked obstacle on top of an existing one
   private createStackedObstacle(baseObstacle: Obstacle, difficultyFactor: number) {
     try {
@@ -1060,7 +1097,7 @@ export default class ObstacleManager {
       // Determine what type of obstacle to stack
       // Avoid rails on top of things - that's weird
       const stackTypes: ObstacleType[] = ['box', 'ramp'];
-      const randomType = stackTypes[Math.floor(Math.random() * stackTypes.length)];
+      const randomType = this.rng.pick(stackTypes);
       
       // Size of the stacked obstacle should be smaller
       let width, height, offsetX;
@@ -1076,23 +1113,23 @@ export default class ObstacleManager {
       switch (randomType) {
         case 'box':
           // Boxes are smaller on top, and could be offset to either side
-          width = baseObstacle.width * (0.4 + Math.random() * 0.5); // 40-90% of base width (was 50-80%)
-          height = (15 + Math.random() * Math.min(18, availableHeight / sizeFactor - 10)) * sizeFactor; // Adjusted for size factor
+          width = baseObstacle.width * (0.4 + this.rng.next() * 0.5); // 40-90% of base width (was 50-80%)
+          height = (15 + this.rng.next() * Math.min(18, availableHeight / sizeFactor - 10)) * sizeFactor; // Adjusted for size factor
           
           // Offset within base to look stacked/balanced - more varied positions
-          offsetX = Math.random() * (baseObstacle.width - width);
+          offsetX = this.rng.next() * (baseObstacle.width - width);
           break;
         case 'ramp':
           // Ramps are angled, so can be wider on top
-          width = baseObstacle.width * (0.5 + Math.random() * 0.4); // 50-90% of base width (was 60-90%)
-          height = (20 + Math.random() * Math.min(18, availableHeight / sizeFactor - 10)) * sizeFactor; // Adjusted for size factor
+          width = baseObstacle.width * (0.5 + this.rng.next() * 0.4); // 50-90% of base width (was 60-90%)
+          height = (20 + this.rng.next() * Math.min(18, availableHeight / sizeFactor - 10)) * sizeFactor; // Adjusted for size factor
           
           // Position ramp for interesting configurations
-          offsetX = Math.random() < 0.5 ? 
+          offsetX = this.rng.next() < 0.5 ? 
             // Left-aligned
-            Math.random() * (baseObstacle.width * 0.3) : // More variety in position
+            this.rng.next() * (baseObstacle.width * 0.3) : // More variety in position
             // Right-aligned
-            baseObstacle.width - width - Math.random() * (baseObstacle.width * 0.3);
+            baseObstacle.width - width - this.rng.next() * (baseObstacle.width * 0.3);
           break;
         default:
           width = baseObstacle.width * 0.7;
@@ -1109,7 +1146,8 @@ export default class ObstacleManager {
         baseObstacle.y - height, // Place on top of base obstacle
         width,
         height,
-        randomType
+        randomType,
+        this.rng
       );
       
       // Set the stack parent reference
@@ -1131,39 +1169,39 @@ export default class ObstacleManager {
       this.obstacles = [];
       
       // Add a smaller ramp that's definitely jumpable
-      const ramp1 = new Obstacle(400, this.groundY - 40, 80, 40, 'ramp');
+      const ramp1 = new Obstacle(400, this.groundY - 40, 80, 40, 'ramp', this.rng);
       this.obstacles.push(ramp1);
       
       // Add a small box with a smaller box stacked on top
-      const box1 = new Obstacle(700, this.groundY - 30, 40, 30, 'box');
+      const box1 = new Obstacle(700, this.groundY - 30, 40, 30, 'box', this.rng);
       this.obstacles.push(box1);
       // Add a box on top of the first box
-      const stackedBox = new Obstacle(705, box1.y - 20, 30, 20, 'box');
+      const stackedBox = new Obstacle(705, box1.y - 20, 30, 20, 'box', this.rng);
       stackedBox.stackParent = box1; // Set stack parent reference
       this.obstacles.push(stackedBox);
       
       // Add a rail
-      this.obstacles.push(new Obstacle(1000, this.groundY - 15, 120, 15, 'rail'));
+      this.obstacles.push(new Obstacle(1000, this.groundY - 15, 120, 15, 'rail', this.rng));
       
       // Add a ramp with a small box on top (challenging but jumpable)
-      const ramp2 = new Obstacle(1300, this.groundY - 35, 70, 35, 'ramp');
+      const ramp2 = new Obstacle(1300, this.groundY - 35, 70, 35, 'ramp', this.rng);
       this.obstacles.push(ramp2);
       // Add box on ramp
-      const rampBox = new Obstacle(1310, ramp2.y - 15, 40, 15, 'box');
+      const rampBox = new Obstacle(1310, ramp2.y - 15, 40, 15, 'box', this.rng);
       rampBox.stackParent = ramp2; // Set stack parent reference
       this.obstacles.push(rampBox);
       
       // Add a box
-      this.obstacles.push(new Obstacle(1600, this.groundY - 25, 35, 25, 'box'));
+      this.obstacles.push(new Obstacle(1600, this.groundY - 25, 35, 25, 'box', this.rng));
       
       // Add a rail
-      this.obstacles.push(new Obstacle(1900, this.groundY - 15, 100, 15, 'rail'));
+      this.obstacles.push(new Obstacle(1900, this.groundY - 15, 100, 15, 'rail', this.rng));
       
       // Add a complex stacked obstacle (example of a harder challenge)
-      const baseBox = new Obstacle(2200, this.groundY - 30, 60, 30, 'box');
+      const baseBox = new Obstacle(2200, this.groundY - 30, 60, 30, 'box', this.rng);
       this.obstacles.push(baseBox);
       // Add ramp on top, positioned to the right side
-      const topRamp = new Obstacle(2220, baseBox.y - 25, 40, 25, 'ramp');
+      const topRamp = new Obstacle(2220, baseBox.y - 25, 40, 25, 'ramp', this.rng);
       topRamp.stackParent = baseBox; // Set stack parent reference
       this.obstacles.push(topRamp);
       
@@ -1176,44 +1214,16 @@ export default class ObstacleManager {
     }
   }
   
-  // Draw all obstacles with camera offset
-  draw(ctx: CanvasRenderingContext2D) {
+  // Reset obstacle manager - pass a seed to replay a specific course, omit it for a new random one,
+  // and a difficulty profile to switch to it (otherwise the current one is kept)
+  reset(seed?: number, difficulty?: DifficultyProfile) {
     try {
-      // Draw obstacles
-      this.obstacles.forEach(obstacle => {
-        obstacle.draw(ctx, this.cameraOffset);
-      });
-      
-      // Draw power-ups
-      this.powerUps.forEach(powerUp => {
-        powerUp.draw(ctx, this.cameraOffset);
-      });
-      
-      // Draw ground - simple line across the bottom
-      ctx.strokeStyle = '#333';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(0, this.groundY);
-      ctx.lineTo(800, this.groundY);
-      ctx.stroke();
-      
-      // Draw distance indicator in debug mode
-      if (window.DEBUG_MODE) {
-        ctx.fillStyle = 'white';
-        ctx.font = '12px Arial';
-        ctx.textAlign = 'right';
-        ctx.fillText(`Distance: ${Math.floor(this.totalDistance)}m`, 790, 15);
-        ctx.fillText(`Camera offset: ${Math.floor(this.cameraOffset)}px`, 790, 30);
-        ctx.fillText(`Obstacles: ${this.obstacles.length}`, 790, 45);
+      this.rng = new Random(seed);
+      if (difficulty) {
+        this.difficulty = difficulty;
       }
-    } catch (err) {
-      console.error('Error in ObstacleManager.draw:', err);
-    }
-  }
-  
-  // Reset obstacle manager
-  reset() {
-    try {
+      resetRecentObstacleImages();
+      
       this.obstacles = [];
       this.powerUps = [];
       this.obstacleTypes = { 'box': 0, 'ramp': 0, 'rail': 0 };
@@ -1222,9 +1232,14 @@ export default class ObstacleManager {
       this.lastSpeedIncreaseTime = 0;
       this.timeSinceLastObstacle = 0;
       this.spawnActive = false;
-      this.gameSpeed = 150; // Reduced from 200 to 150 for lower initial speed
+      this.gameSpeed = this.difficulty.initialGameSpeed;
       this.lastObstacleType = null;
-      this.obstaclePatterns = 0;
+      this.lastObstacleDifficulty = 0;
+      this.lastObstacleWasRapid = false;
+      this.guaranteedPowerUpTimer = 0;
+      this.lastPattern = null;
+      this.obstaclesSincePattern = 0;
+      this.skipCourseItemsBehind(this.courseStart);
       this.totalDistance = 0;
       this.firstObstacleSpawned = false;
       this.obstacleCountInEasyMode = 0;
@@ -1239,7 +1254,7 @@ export default class ObstacleManager {
       this.playerWasOnGround = false;
       this.satsAwardedThisJump = false;
       
-      console.log('Obstacle manager fully reset, including powerup system');
+      console.log(`Obstacle manager fully reset with seed ${this.rng.seed}, including powerup system`);
     } catch (err) {
       console.error('Error in ObstacleManager.reset:', err);
     }
@@ -1252,26 +1267,7 @@ export default class ObstacleManager {
   resetPowerUpSystem() {
     try {
       this.powerUps = [];
-      
-      // Start with a negative timer to enforce initial delay
-      this.timeSinceLastPowerUp = -(this.powerUpInitialDelay * 2); // Extended initial delay
-      this.powerUpSystemReady = false;
-      this.earlyPowerUpCount = 0;
-      this.powerUpsInLastMinute = 0;
-      this.lastMinuteResetTime = 0;
-      
-      // Hard reset all power-up position tracking
-      this.lastPowerUpXPosition = 0;
-      
-      // Configure balanced power-up frequency
-      this.powerUpSpawnChance = 0.65; // Lower base chance (was 0.7)
-      this.maxPowerUpsPerMinute = 5; // Further reduced from 6
-      this.minPowerUpSpacing = 3000; // Significantly increased minimum spacing (was 1200)
-      this.minSpatialDistance = 500; // Increased minimum spatial distance (was 350)
-      
-      // Eliminate consecutive spawning completely
-      this.consecutivePowerupChance = 0;
-      this.isInConsecutiveSpawn = false;
+      this.resetPowerUpCounters();
       
       console.log("Power-up system reset with strict anti-clustering controls");
     } catch (err) {
@@ -1279,6 +1275,22 @@ export default class ObstacleManager {
     }
   }
   
+  // Put the power-up timers and limits back to the start of a run
+  private resetPowerUpCounters() {
+    // Start with a negative timer to enforce initial delay
+    this.timeSinceLastPowerUp = -(this.difficulty.powerUpInitialDelay * 2); // Extended initial delay
+    this.powerUpSystemReady = false;
+    this.earlyPowerUpCount = 0;
+    this.powerUpsInLastMinute = 0;
+    this.lastMinuteResetTime = 0;
+    
+    // Hard reset all power-up position tracking
+    this.lastPowerUpXPosition = 0;
+    
+    // No consecutive spawning
+    this.isInConsecutiveSpawn = false;
+  }
+  
   /**
    * Update method for powerup system - should be called from the main update
    * Handles all powerup timing, spawning decisions, and state updates
@@ -1314,11 +1326,11 @@ export default class ObstacleManager {
       if (!this.powerUpSystemReady) return;
       
       // Gate 2: Must not exceed maximum per minute
-      if (this.powerUpsInLastMinute >= this.maxPowerUpsPerMinute) return;
+      if (this.powerUpsInLastMinute >= this.difficulty.maxPowerUpsPerMinute) return;
       
       // Gate 3: Early game restrictions
-      const isEarlyGame = gameTime < this.easyModeTimer;
-      const isVeryEarlyGame = gameTime < this.easyModeTimer / 2;
+      const isEarlyGame = gameTime < this.difficulty.easyModeTimer;
+      const isVeryEarlyGame = gameTime < this.difficulty.easyModeTimer / 2;
       
       if (isEarlyGame && this.earlyPowerUpCount >= (isVeryEarlyGame ? 1 : 2)) {
         return;
@@ -1328,13 +1340,13 @@ export default class ObstacleManager {
       // Scale based on game progression
       let minTimeSpacing;
       if (isVeryEarlyGame) {
-        minTimeSpacing = this.minPowerUpSpacing * 3; // First 10 seconds: very sparse
+        minTimeSpacing = this.difficulty.minPowerUpSpacing * 3; // First 10 seconds: very sparse
       } else if (isEarlyGame) {
-        minTimeSpacing = this.minPowerUpSpacing * 2; // 10-20 seconds: sparse
+        minTimeSpacing = this.difficulty.minPowerUpSpacing * 2; // 10-20 seconds: sparse
       } else if (gameTime < 60000) {
-        minTimeSpacing = this.minPowerUpSpacing * 1.5; // 20-60 seconds: moderately spaced
+        minTimeSpacing = this.difficulty.minPowerUpSpacing * 1.5; // 20-60 seconds: moderately spaced
       } else {
-        minTimeSpacing = this.minPowerUpSpacing; // After 60 seconds: baseline spacing
+        minTimeSpacing = this.difficulty.minPowerUpSpacing; // After 60 seconds: baseline spacing
       }
       
       // INVARIANT: Never spawn before minimum time has passed
@@ -1361,7 +1373,7 @@ export default class ObstacleManager {
       // Only one path to spawning with consistent rules
       
       // Base chance that gradually increases over time since last spawn
-      const baseChance = this.powerUpSpawnChance;
+      const baseChance = this.difficulty.powerUpSpawnChance;
       const timeOverMinimum = this.timeSinceLastPowerUp - minTimeSpacing;
       
       // Calculate extra chance but very gradually
@@ -1387,7 +1399,7 @@ export default class ObstacleManager {
       }
       
       // Normal random spawn chance
-      if (Math.random() < finalChance) {
+      if (this.rng.next() < finalChance) {
         this.spawnPowerUp();
       }
     } catch (err) {
@@ -1406,14 +1418,14 @@ export default class ObstacleManager {
       
       // Calculate height with middle bias
       let height;
-      const heightRoll = Math.random();
+      const heightRoll = this.rng.next();
       
       if (heightRoll < 0.2) { // 20% chance for low powerup
-        height = this.powerUpMinHeight + Math.random() * 50;
+        height = this.powerUpMinHeight + this.rng.next() * 50;
       } else if (heightRoll < 0.9) { // 70% chance for middle range
-        height = this.powerUpMinHeight + 50 + Math.random() * 100;
+        height = this.powerUpMinHeight + 50 + this.rng.next() * 100;
       } else { // 10% chance for high powerup
-        height = this.powerUpMaxHeight - 50 + Math.random() * 50;
+        height = this.powerUpMaxHeight - 50 + this.rng.next() * 50;
       }
       
       // ENSURE PROPER SPATIAL DISTRIBUTION
@@ -1431,7 +1443,7 @@ export default class ObstacleManager {
           distanceFactor = 1.5; // Always maintain 1.5x spacing minimum
         }
         
-        const requiredDistance = this.minSpatialDistance * distanceFactor;
+        const requiredDistance = this.difficulty.minSpatialDistance * distanceFactor;
         
         // ENFORCE strict minimum distance
         if (spawnX - this.lastPowerUpXPosition < requiredDistance) {
@@ -1456,12 +1468,12 @@ export default class ObstacleManager {
       this.powerUpsInLastMinute++;
       
       // Update early game counter if applicable
-      if (this.totalGameTime < this.easyModeTimer) {
+      if (this.totalGameTime < this.difficulty.easyModeTimer) {
         this.earlyPowerUpCount++;
       }
       
       // Debug logging
-      console.log(`Power-up spawned at ${Math.round(this.totalGameTime/1000)}s, X=${Math.round(spawnX)}, Total: ${this.powerUpsInLastMinute}/${this.maxPowerUpsPerMinute} this minute`);
+      console.log(`Power-up spawned at ${Math.round(this.totalGameTime/1000)}s, X=${Math.round(spawnX)}, Total: ${this.powerUpsInLastMinute}/${this.difficulty.maxPowerUpsPerMinute} this minute`);
     } catch (err) {
       console.error('Error in ObstacleManager.spawnPowerUp:', err);
     }
@@ -1470,7 +1482,7 @@ export default class ObstacleManager {
   // Helper method to get a random trick type
   private getRandomTrickType(): TrickType {
     const trickTypes: TrickType[] = ['blockflip', 'hashspin', 'hodlgrab'];
-    return trickTypes[Math.floor(Math.random() * trickTypes.length)];
+    return this.rng.pick(trickTypes);
   }
   
   // Version that doesn't award sats for power-ups to avoid double scoring
@@ -0,0 +1,165 @@
+/**
+ * ObstaclePatterns.ts - Hand-made obstacle patterns the generator mixes in with random obstacles
+ *
+ * Patterns are plain data (obstaclePatterns.json), checked once when the game loads. Positions are
+ * along the course in px, from the start of the pattern.
+ */
+
+import type { ObstacleType } from './ObstacleManager';
+import patternData from './obstaclePatterns.json';
+
+const OBSTACLE_TYPES: ObstacleType[] = ['box', 'ramp', 'rail'];
+
+// Only boxes and ramps get stacked on things
+const STACK_TYPES: ObstacleType[] = ['box', 'ramp'];
+
+// An obstacle stacked on the one below it
+export interface PatternStackPiece {
+  type: ObstacleType;
+  width: number;
+  height: number;
+  offset: number;  // From the left edge of the bottom obstacle
+}
+
+// An obstacle on the ground, with anything stacked on it
+export interface PatternObstacle {
+  at: number;
+  type: ObstacleType;
+  width: number;
+  height: number;
+  stack?: PatternStackPiece[];
+}
+
+// A power-up floating above the course
+export interface PatternPowerUp {
+  at: number;
+  height: number;  // Top of the power-up above the ground
+}
+
+export interface ObstaclePattern {
+  name: string;
+  label: string;
+  unlockAt: number;  // Speed progress (0 to 1) the pattern starts showing up at
+  weight: number;    // How often it's picked compared to the others
+  obstacles: PatternObstacle[];
+  powerUps: PatternPowerUp[];
+}
+
+// Check a number, adding a problem to the list if it isn't one or is below the minimum
+const checkNumber = (errors: string[], value: unknown, path: string, min: number, max: number = Infinity): void => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a number`);
+  } else if (value < min || value > max) {
+    errors.push(max === Infinity ? `${path} must be at least ${min}` : `${path} must be between ${min} and ${max}`);
+  }
+};
+
+/**
+ * Check a list of pattern obstacles and power-ups - returns a list of problems (empty if they're
+ * valid)
+ */
+export const validatePatternItems = (obstacles: unknown, powerUps: unknown = []): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(obstacles)) {
+    errors.push('obstacles must be a list');
+  } else {
+    obstacles.forEach((data, i) => {
+      const obstacle = (data || {}) as Record<string, unknown>;
+      const path = `obstacles[${i}]`;
+      checkNumber(errors, obstacle.at, `${path}.at`, 0);
+      checkNumber(errors, obstacle.width, `${path}.width`, 1);
+      checkNumber(errors, obstacle.height, `${path}.height`, 1);
+      if (!OBSTACLE_TYPES.includes(obstacle.type as ObstacleType)) {
+        errors.push(`${path}.type must be one of ${OBSTACLE_TYPES.join(', ')}`);
+      }
+
+      if (obstacle.stack === undefined) return;
+      if (!Array.isArray(obstacle.stack)) {
+        errors.push(`${path}.stack must be a list`);
+        return;
+      }
+      obstacle.stack.forEach((pieceData, j) => {
+        const piece = (pieceData || {}) as Record<string, unknown>;
+        const piecePath = `${path}.stack[${j}]`;
+        checkNumber(errors, piece.width, `${piecePath}.width`, 1);
+        checkNumber(errors, piece.height, `${piecePath}.height`, 1);
+        checkNumber(errors, piece.offset, `${piecePath}.offset`, 0);
+        if (!STACK_TYPES.includes(piece.type as ObstacleType)) {
+          errors.push(`${piecePath}.type must be one of ${STACK_TYPES.join(', ')}`);
+        }
+      });
+    });
+  }
+
+  if (!Array.isArray(powerUps)) {
+    errors.push('powerUps must be a list');
+  } else {
+    powerUps.forEach((data, i) => {
+      const powerUp = (data || {}) as Record<string, unknown>;
+      checkNumber(errors, powerUp.at, `powerUps[${i}].at`, 0);
+      checkNumber(errors, powerUp.height, `powerUps[${i}].height`, 1);
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Check an obstacle pattern - returns a list of problems (empty if the pattern is valid)
+ */
+export const validateObstaclePattern = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object') return ['Pattern must be an object'];
+
+  const pattern = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof pattern.label !== 'string' || pattern.label.trim() === '') errors.push('label must be a name');
+  checkNumber(errors, pattern.unlockAt, 'unlockAt', 0, 1);
+  checkNumber(errors, pattern.weight, 'weight', 1);
+  errors.push(...validatePatternItems(pattern.obstacles, pattern.powerUps));
+  if (Array.isArray(pattern.obstacles) && pattern.obstacles.length === 0) errors.push('obstacles must not be empty');
+
+  return errors;
+};
+
+// Check every pattern once at startup - a broken pattern would spawn nonsense (and break every
+// replay check), so refuse to run with one
+const loadPatterns = (data: unknown): ObstaclePattern[] => {
+  return Object.entries((data || {}) as Record<string, unknown>).map(([name, pattern]) => {
+    const errors = validateObstaclePattern(pattern);
+    if (errors.length > 0) {
+      throw new Error(`Obstacle pattern "${name}" is invalid: ${errors.join(', ')}`);
+    }
+
+    const { label, unlockAt, weight, obstacles, powerUps } = pattern as ObstaclePattern;
+    return { name, label, unlockAt, weight, obstacles, powerUps: powerUps || [] };
+  });
+};
+
+export const OBSTACLE_PATTERNS: ObstaclePattern[] = loadPatterns(patternData);
+
+/**
+ * Get the patterns unlocked at a speed progress (0 to 1)
+ */
+export const getUnlockedPatterns = (progress: number): ObstaclePattern[] => {
+  return OBSTACLE_PATTERNS.filter(pattern => pattern.unlockAt <= progress);
+};
+
+/**
+ * Get the size of a pattern obstacle with everything stacked on it
+ */
+export const getPatternObstacleSize = (obstacle: PatternObstacle): { width: number; height: number } => {
+  const stack = obstacle.stack || [];
+  return {
+    width: Math.max(obstacle.width, ...stack.map(piece => piece.offset + piece.width)),
+    height: obstacle.height + stack.reduce((sum, piece) => sum + piece.height, 0)
+  };
+};
+
+/**
+ * Get how far a pattern stretches along the course (px)
+ */
+export const getPatternLength = (pattern: ObstaclePattern): number => {
+  return Math.max(...pattern.obstacles.map(obstacle => obstacle.at + obstacle.width));
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import ComboTracker, { COMBO_GROUND_TIMEOUT, MAX_MULTIPLIER } from '../ComboTracker';
+
+describe('ComboTracker', () => {
+  let combo: ComboTracker;
+
+  beforeEach(() => {
+    combo = new ComboTracker();
+  });
+
+  it('gives a lone trick its base sats', () => {
+    expect(combo.addTrick('blockflip')).toBe(5);
+    expect(combo.getChainLength()).toBe(1);
+    expect(combo.getMultiplier()).toBe(1.5);
+  });
+
+  it('builds the multiplier along a chain and rewards variety', () => {
+    combo.addTrick('blockflip');
+
+    // Repeat: 5 x1.5, rounded
+    expect(combo.addTrick('blockflip')).toBe(8);
+    // Different trick: (5 + 2) x2
+    expect(combo.addTrick('hashspin')).toBe(14);
+    // Grinds count too: (5 + 2) x2.5, rounded
+    expect(combo.addTrick('grind')).toBe(18);
+
+    expect(combo.getChainSats()).toBe(5 + 8 + 14 + 18);
+    expect(combo.bestChain).toBe(4);
+  });
+
+  it('caps the multiplier', () => {
+    for (let i = 0; i < 20; i++) combo.addTrick('hodlgrab');
+    expect(combo.getMultiplier()).toBe(MAX_MULTIPLIER);
+    expect(combo.addTrick('hodlgrab')).toBe(5 * MAX_MULTIPLIER);
+  });
+
+  it('ends the chain after too long on the ground', () => {
+    combo.addTrick('blockflip');
+
+    // Airtime doesn't count
+    combo.update(COMBO_GROUND_TIMEOUT * 2, false);
+    expect(combo.getChainLength()).toBe(1);
+
+    combo.update(COMBO_GROUND_TIMEOUT / 2, true);
+    expect(combo.getTimeLeft()).toBeCloseTo(0.5);
+    combo.update(COMBO_GROUND_TIMEOUT / 2, true);
+
+    expect(combo.getChainLength()).toBe(0);
+    expect(combo.getMultiplier()).toBe(1);
+    expect(combo.addTrick('hashspin')).toBe(5);
+  });
+
+  it('keeps the best chain until reset', () => {
+    combo.addTrick('blockflip');
+    combo.addTrick('hashspin');
+    combo.endChain();
+    expect(combo.bestChain).toBe(2);
+
+    combo.reset();
+    expect(combo.bestChain).toBe(0);
+  });
+});
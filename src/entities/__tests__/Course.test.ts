@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COURSE_VERSION,
+  Course,
+  createEmptyCourse,
+  findUnclearableObstacles,
+  getCourseLength,
+  parseCourse,
+  serializeCourse,
+  validateCourse
+} from '../Course';
+import { getJumpArcs, getJumpPhysics } from '../JumpArc';
+import { CRUISE_SPEED } from '../Player';
+import { COURSE_SCROLL_FACTOR } from '../ObstacleManager';
+import { createPlayer, SIMULATION_TIMESTEP } from '../../core/Simulation';
+
+describe('Course', () => {
+  const course: Course = {
+    version: COURSE_VERSION,
+    name: 'Test course',
+    obstacles: [
+      { at: 900, type: 'rail', width: 200, height: 20 },
+      { at: 200, type: 'box', width: 60, height: 45, stack: [{ type: 'ramp', width: 40, height: 30, offset: 10 }] }
+    ],
+    powerUps: [{ at: 1200, height: 150 }, { at: 500, height: 100 }]
+  };
+
+  const arcs = getJumpArcs(getJumpPhysics(createPlayer(), SIMULATION_TIMESTEP));
+  const approachSpeed = COURSE_SCROLL_FACTOR * CRUISE_SPEED * 200;
+
+  it('round-trips through JSON in the order things come up', () => {
+    const parsed = parseCourse(serializeCourse(course))!;
+
+    expect(parsed.name).toBe('Test course');
+    expect(parsed.obstacles.map(obstacle => obstacle.at)).toEqual([200, 900]);
+    expect(parsed.obstacles[0].stack).toHaveLength(1);
+    expect(parsed.powerUps.map(powerUp => powerUp.at)).toEqual([500, 1200]);
+    expect(getCourseLength(parsed)).toBe(1200);
+  });
+
+  it('rejects courses from another version or with broken items', () => {
+    expect(validateCourse(createEmptyCourse())).toEqual([]);
+    expect(validateCourse({ ...course, version: COURSE_VERSION + 1 })).toHaveLength(1);
+    expect(parseCourse('not json')).toBeNull();
+
+    const errors = validateCourse({ ...course, obstacles: [{ at: -5, type: 'wall', width: 60, height: 45 }] });
+    expect(errors).toEqual(expect.arrayContaining([
+      'obstacles[0].at must be at least 0',
+      'obstacles[0].type must be one of box, ramp, rail'
+    ]));
+  });
+
+  it('finds obstacles that are too big or too close together to clear', () => {
+    expect(findUnclearableObstacles(course, approachSpeed, arcs)).toEqual([]);
+
+    const tooTall = { at: 2000, type: 'box' as const, width: 60, height: 1000 };
+    const tooClose = { at: 350, type: 'box' as const, width: 60, height: 120 };
+    const broken = { ...course, obstacles: [...course.obstacles, tooTall, tooClose] };
+
+    expect(findUnclearableObstacles(broken, approachSpeed, arcs).sort()).toEqual([2, 3]);
+  });
+});
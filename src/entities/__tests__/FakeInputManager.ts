@@ -0,0 +1,55 @@
+/**
+ * FakeInputManager.ts - Input manager driven directly by tests instead of the keyboard
+ */
+
+import InputManager, { InputAction } from '../../core/InputManager';
+
+export default class FakeInputManager extends InputManager {
+  private down: Set<InputAction> = new Set();
+  private pressed: Set<InputAction> = new Set();
+  private released: Set<InputAction> = new Set();
+  private anyKeyPressed: boolean = false;
+
+  /**
+   * Press an action this tick (and hold it until released)
+   */
+  public press(action: InputAction): void {
+    this.down.add(action);
+    this.pressed.add(action);
+    this.anyKeyPressed = true;
+  }
+
+  /**
+   * Release a held action this tick
+   */
+  public release(action: InputAction): void {
+    this.down.delete(action);
+    this.released.add(action);
+  }
+
+  public isPressed(action: InputAction): boolean {
+    return this.down.has(action);
+  }
+
+  public wasJustPressed(action: InputAction): boolean {
+    return this.pressed.has(action);
+  }
+
+  public wasJustReleased(action: InputAction): boolean {
+    return this.released.has(action);
+  }
+
+  public hasAnyKeyJustPressed(): boolean {
+    return this.anyKeyPressed;
+  }
+
+  public bindKeys(): void {}
+
+  public bindTouchControls(): void {}
+
+  public update(): void {
+    this.pressed.clear();
+    this.released.clear();
+    this.anyKeyPressed = false;
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_HITBOX_DEFINITIONS,
+  getAlphaMaskDefinition,
+  getEntityHitbox,
+  getHitbox,
+  getHitboxDefinition,
+  hitboxesOverlap,
+  resetHitboxDefinitions,
+  setHitboxDefinition
+} from '../Hitbox';
+import PowerUp from '../PowerUp';
+import { createPlayer } from '../../core/Simulation';
+
+describe('Hitbox', () => {
+  afterEach(() => {
+    resetHitboxDefinitions();
+  });
+
+  it('places inset rectangles and circles inside the bounds', () => {
+    const bounds = { x: 100, y: 200, width: 50, height: 100 };
+
+    expect(getHitbox(bounds, { shape: 'rect', insetLeft: 0.25, insetRight: 0.25, insetTop: 0.25, insetBottom: 0 }))
+      .toEqual({ shape: 'rect', x: 112.5, y: 225, width: 25, height: 75 });
+    expect(getHitbox(bounds, { shape: 'circle', radius: 0.5 }))
+      .toEqual({ shape: 'circle', x: 125, y: 250, radius: 25 });
+  });
+
+  it('does not collide on the empty corners of a circle', () => {
+    const circle = getHitbox({ x: 0, y: 0, width: 40, height: 40 }, { shape: 'circle', radius: 0.5 });
+
+    // Inside the bounding box but off the circle's corner
+    expect(hitboxesOverlap({ shape: 'rect', x: 36, y: 36, width: 10, height: 10 }, circle)).toBe(false);
+    expect(hitboxesOverlap(circle, { shape: 'rect', x: 30, y: 15, width: 10, height: 10 })).toBe(true);
+  });
+
+  it('only collides under a slope', () => {
+    const slope = getHitbox({ x: 0, y: 0, width: 100, height: 100 }, { shape: 'slope' });
+
+    // Top-left of the bounds is above the slope, bottom-right is under it
+    expect(hitboxesOverlap({ shape: 'rect', x: 0, y: 0, width: 20, height: 20 }, slope)).toBe(false);
+    expect(hitboxesOverlap(slope, { shape: 'rect', x: 70, y: 70, width: 20, height: 20 })).toBe(true);
+  });
+
+  it('keeps the player out of the transparent edges of the sprite', () => {
+    const player = createPlayer();
+    const hitbox = getEntityHitbox(player, 'player');
+
+    expect(hitbox.shape).toBe('rect');
+    if (hitbox.shape !== 'rect') return;
+    expect(hitbox.x).toBeGreaterThan(player.x);
+    expect(hitbox.x + hitbox.width).toBeLessThan(player.x + player.width);
+    // Feet still on the bottom edge
+    expect(hitbox.y + hitbox.height).toBe(player.y + player.height);
+  });
+
+  it('lets a power-up be grazed at its corner without collecting it', () => {
+    const player = createPlayer();
+    const playerHitbox = getEntityHitbox(player, 'player');
+    if (playerHitbox.shape !== 'rect') throw new Error('Expected a rectangle');
+
+    // The power-up's bounding box just overlaps the top-right corner of the player's hitbox
+    const powerUp = new PowerUp({ x: playerHitbox.x + playerHitbox.width - 4, y: player.y - 40, type: 'blockflip' });
+    expect(powerUp.checkCollision(player)).toBe(false);
+
+    powerUp.y = player.y - 10;
+    powerUp.x = playerHitbox.x + playerHitbox.width - 20;
+    expect(powerUp.checkCollision(player)).toBe(true);
+  });
+
+  it('can change and reset the definitions', () => {
+    setHitboxDefinition('box', { shape: 'circle', radius: 0.3 });
+    expect(getHitboxDefinition('box')).toEqual({ shape: 'circle', radius: 0.3 });
+
+    resetHitboxDefinitions();
+    expect(getHitboxDefinition('box')).toEqual(DEFAULT_HITBOX_DEFINITIONS.box);
+  });
+
+  it('works out insets from a sprite alpha mask', () => {
+    // 4x2 sprite with only the middle two pixels of the bottom row opaque
+    const pixels = new Uint8ClampedArray(4 * 2 * 4);
+    pixels[(1 * 4 + 1) * 4 + 3] = 255;
+    pixels[(1 * 4 + 2) * 4 + 3] = 255;
+
+    expect(getAlphaMaskDefinition(pixels, 4, 2)).toEqual({
+      shape: 'rect',
+      insetLeft: 0.25,
+      insetRight: 0.25,
+      insetTop: 0.5,
+      insetBottom: 0
+    });
+    expect(getAlphaMaskDefinition(new Uint8ClampedArray(16), 2, 2)).toBeNull();
+  });
+});
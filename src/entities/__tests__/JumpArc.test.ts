@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canClearSequence,
+  getClearance,
+  getJumpArcs,
+  getJumpPhysics,
+  getMaxClearableHeight,
+  getMaxJumpHeight,
+  getRequiredGap
+} from '../JumpArc';
+import { createPlayer, SIMULATION_TIMESTEP } from '../../core/Simulation';
+
+describe('JumpArc', () => {
+  const arcs = getJumpArcs(getJumpPhysics(createPlayer(), SIMULATION_TIMESTEP));
+
+  it('traces a jump as high as the jump physics allow', () => {
+    // v² / 2g - a little over 100px for a plain jump
+    expect(Math.max(...arcs.single)).toBeCloseTo(500 * 500 / (2 * 1200), -1);
+    expect(getMaxJumpHeight(arcs)).toBeGreaterThan(Math.max(...arcs.single) + 40);
+  });
+
+  it('clears low obstacles with a jump and taller ones with a double jump', () => {
+    expect(getClearance({ width: 40, height: 40 }, 400, arcs)).toBe('jump');
+    expect(getClearance({ width: 40, height: 125 }, 400, arcs)).toBe('doubleJump');
+    expect(getClearance({ width: 40, height: 250 }, 400, arcs)).toBe('impossible');
+  });
+
+  it('needs more airtime for wider obstacles', () => {
+    expect(getClearance({ width: 100, height: 60 }, 400, arcs)).toBe('jump');
+    expect(getClearance({ width: 1000, height: 60 }, 400, arcs)).toBe('impossible');
+    expect(getMaxClearableHeight(300, 400, arcs)).toBeLessThan(getMaxClearableHeight(50, 400, arcs));
+  });
+
+  it('needs a wider gap between obstacles the faster they come', () => {
+    const box = { width: 50, height: 60 };
+
+    expect(getRequiredGap(box, box, 600, arcs)).toBeGreaterThan(getRequiredGap(box, box, 300, arcs));
+    expect(getRequiredGap(box, { width: 50, height: 250 }, 400, arcs)).toBe(Infinity);
+  });
+
+  it('clears two obstacles with a jump each or one jump over both', () => {
+    const box = { width: 50, height: 60 };
+    const tallBox = { width: 50, height: 120 };
+    const gap = getRequiredGap(tallBox, tallBox, 400, arcs);
+
+    expect(canClearSequence(tallBox, gap, tallBox, 400, arcs)).toBe(true);
+    expect(canClearSequence(tallBox, gap / 2, tallBox, 400, arcs)).toBe(false);
+    expect(canClearSequence(box, getRequiredGap(box, box, 400, arcs) / 2, box, 400, arcs)).toBe(true);
+  });
+});
@@ -0,0 +1,552 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Player, { CRUISE_SPEED, GRIND_SAT_INTERVAL } from '../Player';
+import ObstacleManager, { COURSE_LEAD_IN, COURSE_SCROLL_FACTOR, CollisionResult, Obstacle, POWER_UP_SCROLL_FACTOR } from '../ObstacleManager';
+import { OBSTACLE_PATTERNS } from '../ObstaclePatterns';
+import { COURSE_VERSION, Course } from '../Course';
+import { canClearSequence, getClearance, getJumpArcs, getJumpPhysics } from '../JumpArc';
+import Random from '../../core/Random';
+import { getDifficultyProfile } from '../../core/Difficulty';
+import { createPlayer, resetRun, stepSimulation, SIMULATION_TIMESTEP } from '../../core/Simulation';
+import FakeInputManager from './FakeInputManager';
+
+const SEED = 12345;
+
+describe('ObstacleManager', () => {
+  let player: Player;
+  let obstacleManager: ObstacleManager;
+  let input: FakeInputManager;
+
+  // Run one simulation tick, exactly like the game loop and the replay verifier
+  const step = (): CollisionResult => {
+    const result = stepSimulation(player, obstacleManager, input, SIMULATION_TIMESTEP);
+    input.update();
+    return result;
+  };
+
+  // Skate along for a number of ticks, collecting every result
+  const skate = (ticks: number): CollisionResult[] => {
+    const results: CollisionResult[] = [];
+    for (let i = 0; i < ticks; i++) results.push(step());
+    return results;
+  };
+
+  // Press and release jump over two ticks
+  const tapJump = (): CollisionResult[] => {
+    input.press('jump');
+    const results = [step()];
+    input.release('jump');
+    results.push(step());
+    return results;
+  };
+
+  // Step until the player is back on the ground
+  const land = (): CollisionResult[] => {
+    const results: CollisionResult[] = [];
+    for (let i = 0; i < 600 && !player.onGround; i++) results.push(step());
+    return results;
+  };
+
+  // Put a box on the ground at a distance ahead of the player
+  const placeBox = (distance: number, size: number = 30): Obstacle => {
+    const obstacle = new Obstacle(player.x + player.width + distance, 400 - size, size, size, 'box', new Random(1));
+    obstacleManager.obstacles.push(obstacle);
+    return obstacle;
+  };
+
+  // Jump, and on the way down put a rail right under the player's feet
+  const dropOntoRail = (width: number = 3000): Obstacle => {
+    tapJump();
+    for (let i = 0; i < 600 && player.velocityY <= 0; i++) step();
+    const rail = new Obstacle(player.x - 10, player.y + player.height + 4, width, 15, 'rail', new Random(1));
+    obstacleManager.obstacles.push(rail);
+    return rail;
+  };
+
+  // Ride the rail for a number of ticks, leaning against the balance meter
+  const ride = (ticks: number): CollisionResult[] => {
+    const results: CollisionResult[] = [];
+    for (let i = 0; i < ticks; i++) {
+      const lean = player.grindBalance > 0 ? 'left' : 'right';
+      input.release(lean === 'left' ? 'right' : 'left');
+      input.press(lean);
+      results.push(step());
+    }
+    input.release('left');
+    input.release('right');
+    return results;
+  };
+
+  beforeEach(() => {
+    player = createPlayer();
+    obstacleManager = new ObstacleManager(SEED);
+    input = new FakeInputManager();
+    resetRun(player, obstacleManager, SEED);
+
+    // Settle onto the ground
+    skate(2);
+  });
+
+  describe('jump scoring', () => {
+    it('awards no sats for jumps in the first second', () => {
+      tapJump();
+      land();
+
+      expect(player.sats).toBe(0);
+    });
+
+    it('awards exactly one sat per jump', () => {
+      skate(70);
+
+      const results = [...tapJump(), ...land()];
+
+      expect(player.sats).toBe(1);
+      expect(results.filter(r => r.type === 'sats')).toEqual([{ type: 'sats', points: 1 }]);
+    });
+
+    it('does not award a second sat for a double jump', () => {
+      skate(70);
+
+      tapJump();
+      skate(20);
+      tapJump();
+      expect(player.canDoubleJump).toBe(false);
+      land();
+
+      expect(player.sats).toBe(1);
+    });
+
+    it('awards one sat again for the next jump after landing', () => {
+      skate(70);
+
+      tapJump();
+      land();
+      skate(5);
+      tapJump();
+      land();
+
+      expect(player.sats).toBe(2);
+    });
+
+    it('awards trick sats instead of a jump sat for power-up jumps', () => {
+      skate(70);
+      player.currentPowerUp = 'hodlgrab';
+
+      input.press('trickHodlGrab');
+      step();
+      input.release('trickHodlGrab');
+      land();
+
+      // 5 for the trick, and no jump sat once the trick finishes mid-air
+      expect(player.sats).toBe(5);
+    });
+  });
+
+  describe('collisions', () => {
+    it('crashes the player when skating into an obstacle', () => {
+      const box = placeBox(40);
+
+      const results = skate(60);
+      const crash = results.find(r => r.type === 'crash');
+
+      expect(crash).toEqual({ type: 'crash', obstacle: box });
+      expect(player.crashed).toBe(true);
+      expect(player.state).toBe('crashed');
+    });
+
+    it('stops reporting results once the player has crashed', () => {
+      placeBox(40);
+      skate(60);
+
+      expect(skate(10).every(r => r.type === 'none')).toBe(true);
+    });
+
+    it('clears an obstacle that is jumped in time', () => {
+      const box = placeBox(400);
+
+      // Wait until the box is close, then jump it
+      for (let i = 0; i < 600 && box.x - (player.x + player.width) > 40; i++) step();
+      const results = [...tapJump(), ...land(), ...skate(30)];
+
+      expect(results.some(r => r.type === 'crash')).toBe(false);
+      expect(player.crashed).toBe(false);
+      expect(player.x).toBeGreaterThan(box.x + box.width);
+      expect(player.sats).toBe(1);
+    });
+  });
+
+  describe('ramps', () => {
+    // Put a ramp on the ground at a distance ahead of the player
+    const placeRamp = (distance: number, width: number = 80, height: number = 40): Obstacle => {
+      const ramp = new Obstacle(player.x + player.width + distance, 400 - height, width, height, 'ramp', new Random(1));
+      obstacleManager.obstacles.push(ramp);
+      return ramp;
+    };
+
+    it('launches the player higher than a jump when skating up the slope', () => {
+      const ramp = placeRamp(40);
+
+      const results: CollisionResult[] = [];
+      for (let i = 0; i < 120 && player.onGround; i++) results.push(step());
+
+      expect(results.filter(r => r.type !== 'none')).toEqual([{ type: 'launch', obstacle: ramp }]);
+      expect(player.state).toBe('jumping');
+      expect(player.launchRamp).toBe(ramp);
+      expect(player.velocityY).toBeLessThan(-player.jumpForce);
+    });
+
+    it('clears the ramp and lands safely after the launch', () => {
+      const ramp = placeRamp(40);
+      for (let i = 0; i < 120 && player.onGround; i++) step();
+      const results = [...land(), ...skate(10)];
+
+      expect(results.some(r => r.type === 'crash')).toBe(false);
+      expect(player.launchRamp).toBeNull();
+      expect(player.x).toBeGreaterThan(ramp.x + ramp.width);
+    });
+
+    it('only collides under the slope, not the whole box around it', () => {
+      const ramp = placeRamp(0, 200, 40);
+      ramp.x = player.x + player.width - 20;
+
+      // Feet 20px into the ramp's span, where the slope is 4px high - 10px above it is clear
+      player.y = 390 - player.height;
+      expect(ramp.checkCollision(player)).toEqual({ type: 'none' });
+
+      player.y = 398 - player.height;
+      expect(ramp.checkCollision(player)).toEqual({ type: 'launch', obstacle: ramp });
+    });
+
+    it('crashes into the steep back side', () => {
+      // The tall end of the ramp right where the player is standing
+      const ramp = placeRamp(0, 60, 60);
+      ramp.x = player.x + player.width - 60;
+
+      expect(ramp.checkCollision(player)).toEqual({ type: 'crash', obstacle: ramp });
+    });
+  });
+
+  describe('rails', () => {
+    it('crashes the player when skating into the side of a rail', () => {
+      const rail = new Obstacle(player.x + player.width + 40, 385, 120, 15, 'rail', new Random(1));
+      obstacleManager.obstacles.push(rail);
+
+      const results = skate(60);
+      expect(results.find(r => r.type === 'crash')).toEqual({ type: 'crash', obstacle: rail });
+    });
+
+    it('starts a grind when landing on top of a rail', () => {
+      const rail = dropOntoRail();
+      const results = skate(5);
+
+      expect(results.filter(r => r.type !== 'none')).toEqual([{ type: 'grind', obstacle: rail }]);
+      expect(player.state).toBe('grinding');
+      expect(player.onRail).toBe(true);
+      expect(player.grindRail).toBe(rail);
+      expect(player.y + player.height).toBe(rail.y);
+      expect(player.sats).toBe(5);
+    });
+
+    it('awards sats over time while the player keeps their balance', () => {
+      dropOntoRail();
+      const results = ride(120);
+
+      expect(results.some(r => r.type === 'crash')).toBe(false);
+      expect(player.state).toBe('grinding');
+      expect(player.grindTime).toBeGreaterThan(1500);
+      // 5 for the grind, then 1 for every 200ms on the rail
+      expect(player.sats).toBe(5 + Math.floor(player.grindTime / GRIND_SAT_INTERVAL));
+    });
+
+    it('falls off when the balance tips over', () => {
+      dropOntoRail();
+      const results = skate(180);
+
+      expect(results.some(r => r.type === 'crash')).toBe(true);
+      expect(player.crashed).toBe(true);
+      expect(player.bailed).toBe(true);
+    });
+
+    it('jumps off the rail and lands back on it', () => {
+      const rail = dropOntoRail();
+      ride(10);
+      tapJump();
+
+      expect(player.onRail).toBe(false);
+      expect(player.grindRail).toBeNull();
+      expect(player.state).toBe('jumping');
+
+      const results: CollisionResult[] = [];
+      for (let i = 0; i < 120 && !player.onRail; i++) results.push(step());
+      expect(results.filter(r => r.type !== 'none')).toEqual([{ type: 'grind', obstacle: rail }]);
+    });
+
+    it('rolls off the end of the rail', () => {
+      dropOntoRail(60);
+      const results = [...ride(30), ...land()];
+
+      expect(results.some(r => r.type === 'crash')).toBe(false);
+      expect(player.onRail).toBe(false);
+      expect(player.onGround).toBe(true);
+
+      // The rail is left behind - not grabbed again for a second grind award
+      expect(results.filter(r => r.type === 'grind')).toHaveLength(1);
+      expect(player.sats).toBe(5);
+    });
+  });
+
+  describe('difficulty', () => {
+    // Skate without jumping until the first obstacle appears, returning how long it took
+    const timeToFirstObstacle = (): number => {
+      let ticks = 0;
+      while (obstacleManager.obstacles.length === 0 && ticks < 60 * 60) {
+        step();
+        ticks++;
+      }
+      return ticks * SIMULATION_TIMESTEP;
+    };
+
+    it('uses the Normal preset by default', () => {
+      expect(obstacleManager.getDifficulty()).toEqual(getDifficultyProfile('normal'));
+      expect(obstacleManager.gameSpeed).toBe(getDifficultyProfile('normal').initialGameSpeed);
+    });
+
+    it('starts at the speed of the profile it is reset with', () => {
+      const chill = getDifficultyProfile('chill');
+      resetRun(player, obstacleManager, SEED);
+      obstacleManager.reset(SEED, chill);
+
+      expect(obstacleManager.getDifficulty()).toBe(chill);
+      expect(obstacleManager.gameSpeed).toBe(chill.initialGameSpeed);
+    });
+
+    it('brings the first obstacle in sooner on harder presets', () => {
+      const normalTime = timeToFirstObstacle();
+
+      obstacleManager = new ObstacleManager(SEED, getDifficultyProfile('degen'));
+      resetRun(player, obstacleManager, SEED);
+      const degenTime = timeToFirstObstacle();
+
+      expect(degenTime).toBeLessThan(normalTime);
+    });
+  });
+  
+  describe('clearable spawns', () => {
+    const arcs = () => getJumpArcs(getJumpPhysics(player, SIMULATION_TIMESTEP));
+    const speed = () => COURSE_SCROLL_FACTOR * player.speed * CRUISE_SPEED;
+    
+    // Size of an obstacle with everything stacked on it
+    const stackSize = (base: Obstacle) => {
+      const stack = obstacleManager.obstacles.filter(o => o === base || o.stackParent === base || o.stackParent?.stackParent === base);
+      const left = Math.min(...stack.map(o => o.x));
+      return {
+        left,
+        right: Math.max(...stack.map(o => o.x + o.width)),
+        size: { width: Math.max(...stack.map(o => o.x + o.width)) - left, height: 400 - Math.min(...stack.map(o => o.y)) }
+      };
+    };
+    
+    it('only spawns obstacles the player can jump over', () => {
+      for (let i = 0; i < 50; i++) {
+        obstacleManager.obstacles = [];
+        const obstacle = obstacleManager.createRandomObstacle(false, i % 2 === 0);
+        
+        // Nothing's in the way on an empty course, so every spawn gets made clearable rather than dropped
+        expect(obstacle).not.toBeNull();
+        expect(getClearance(stackSize(obstacle!).size, speed(), arcs())).not.toBe('impossible');
+      }
+    });
+    
+    it('pushes an obstacle back when it comes too soon after the last one', () => {
+      obstacleManager.obstacles = [];
+      const previous = new Obstacle(780 + obstacleManager.cameraOffset, 400 - 90, 60, 90, 'box', new Random(1));
+      obstacleManager.obstacles.push(previous);
+      
+      const obstacle = obstacleManager.createRandomObstacle(true);
+      expect(obstacle).not.toBeNull();
+      
+      const { left, size } = stackSize(obstacle!);
+      const gap = left - (previous.x + previous.width);
+      expect(gap).toBeGreaterThan(0);
+      expect(canClearSequence({ width: 60, height: 90 }, gap, size, speed(), arcs())).toBe(true);
+    });
+  });
+  
+  describe('patterns', () => {
+    const getPattern = (name: string) => OBSTACLE_PATTERNS.find(pattern => pattern.name === name)!;
+    
+    it('spawns a pattern with its stacks in order', () => {
+      obstacleManager.obstacles = [];
+      const spawned = obstacleManager.spawnPattern(getPattern('stairStep'));
+      
+      expect(spawned).toHaveLength(3);
+      expect(spawned.map(o => o.x)).toEqual([...spawned.map(o => o.x)].sort((a, b) => a - b));
+      expect(obstacleManager.obstacles.filter(o => o.stackParent)).toHaveLength(3);
+      expect(obstacleManager.obstacles.filter(o => o.stackParent === spawned[2])).toHaveLength(1);
+    });
+    
+    it('places power-ups so they reach the player with their part of the pattern', () => {
+      obstacleManager.obstacles = [];
+      obstacleManager.powerUps = [];
+      const [box] = obstacleManager.spawnPattern(getPattern('powerUpArch'));
+      const middle = obstacleManager.powerUps[1];
+      const playerX = obstacleManager.cameraOffset + 100;
+      
+      // Time until each one reaches the player
+      const boxTime = (box.x + box.width / 2 - playerX) / COURSE_SCROLL_FACTOR;
+      const powerUpTime = (middle.x + middle.width / 2 - playerX) / POWER_UP_SCROLL_FACTOR;
+      expect(obstacleManager.powerUps).toHaveLength(3);
+      expect(Math.abs(boxTime - powerUpTime)).toBeLessThan(20);
+    });
+    
+    it('keeps pattern power-ups within the per-minute limit', () => {
+      obstacleManager = new ObstacleManager(SEED, getDifficultyProfile('degen'));
+      resetRun(player, obstacleManager, SEED);
+      const limit = getDifficultyProfile('degen').maxPowerUpsPerMinute;
+      const minuteCount = () => (obstacleManager as unknown as { powerUpsInLastMinute: number }).powerUpsInLastMinute;
+      
+      // Drop an arch of power-ups every second for three minutes, counting what appears between
+      // resets of the minute counter
+      let spawnedThisMinute = 0;
+      let lastCount = 0;
+      for (let i = 0; i < 60 * 180; i++) {
+        const before = new Set(obstacleManager.powerUps);
+        if (i % 60 === 0) obstacleManager.spawnPattern(getPattern('powerUpArch'));
+        player.y = -10000;
+        step();
+        
+        if (minuteCount() < lastCount) spawnedThisMinute = 0;
+        lastCount = minuteCount();
+        spawnedThisMinute += obstacleManager.powerUps.filter(powerUp => !before.has(powerUp)).length;
+        
+        expect(minuteCount()).toBeLessThanOrEqual(limit);
+        expect(spawnedThisMinute).toBeLessThanOrEqual(limit);
+      }
+    });
+    
+    it('mixes patterns in once the game has sped up', () => {
+      const spawns: string[] = [];
+      const spawnPattern = obstacleManager.spawnPattern.bind(obstacleManager);
+      obstacleManager.spawnPattern = pattern => {
+        spawns.push(pattern.name);
+        return spawnPattern(pattern);
+      };
+      
+      // Stay clear of the obstacles while skating for five minutes
+      for (let i = 0; i < 60 * 300; i++) {
+        player.y = -10000;
+        step();
+      }
+      
+      expect(spawns.length).toBeGreaterThan(0);
+      expect(spawns.every((name, i) => i === 0 || name !== spawns[i - 1])).toBe(true);
+    });
+  });
+  
+  describe('courses', () => {
+    const course: Course = {
+      version: COURSE_VERSION,
+      name: 'Test course',
+      obstacles: [
+        { at: 1500, type: 'rail', width: 200, height: 20 },
+        { at: 300, type: 'box', width: 60, height: 45, stack: [{ type: 'box', width: 45, height: 30, offset: 5 }] },
+        { at: 2500, type: 'ramp', width: 90, height: 45 }
+      ],
+      powerUps: [{ at: 600, height: 150 }]
+    };
+    
+    beforeEach(() => {
+      obstacleManager.obstacles = [];
+      obstacleManager.powerUps = [];
+    });
+    
+    it('spawns the course ahead of the player as it comes up', () => {
+      obstacleManager.loadCourse(course);
+      step();
+      
+      // Only what's within reach so far, at its place along the course
+      const progress = obstacleManager.getCourseProgress();
+      const [box] = obstacleManager.obstacles;
+      expect(obstacleManager.obstacles).toHaveLength(2);
+      expect(obstacleManager.obstacles[1].stackParent).toBe(box);
+      expect(Math.abs(box.x - (player.x + 300 - progress))).toBeLessThan(COURSE_SCROLL_FACTOR * 10);
+      expect(obstacleManager.powerUps).toHaveLength(1);
+    });
+    
+    it('skips everything before the spot a run starts from', () => {
+      obstacleManager.loadCourse(course, 1000);
+      step();
+      
+      expect(obstacleManager.obstacles.map(o => o.type)).toEqual(['rail']);
+      expect(obstacleManager.powerUps).toHaveLength(0);
+      expect(obstacleManager.getCourseProgress()).toBeGreaterThanOrEqual(1000 - COURSE_LEAD_IN);
+    });
+    
+    it('starts a run with room before whatever is at the starting spot', () => {
+      obstacleManager.loadCourse(course, 1500);
+      step();
+      
+      // The rail right at the start spot comes up ahead of the player rather than on top of them
+      const [rail] = obstacleManager.obstacles;
+      expect(rail.type).toBe('rail');
+      expect(rail.x - (player.x + player.width)).toBeGreaterThan(COURSE_LEAD_IN / 2);
+      expect(skate(5).some(r => r.type === 'crash')).toBe(false);
+    });
+    
+    it('spawns nothing but the course', () => {
+      obstacleManager.loadCourse(course);
+      const types: string[] = [];
+      
+      // Stay clear of the obstacles while skating for a minute, noting each new one
+      for (let i = 0; i < 60 * 60; i++) {
+        player.y = -10000;
+        const before = new Set(obstacleManager.obstacles);
+        step();
+        obstacleManager.obstacles.filter(o => !before.has(o) && !o.stackParent).forEach(o => types.push(o.type));
+      }
+      
+      expect(obstacleManager.getCourseProgress()).toBeGreaterThan(2500);
+      expect(types).toEqual(['box', 'rail', 'ramp']);
+      
+      // Unloading it goes back to random obstacles
+      obstacleManager.loadCourse(null);
+      expect(obstacleManager.getCourse()).toBeNull();
+    });
+    
+    it('is complete once the player makes it past the end', () => {
+      obstacleManager.loadCourse(course, 2000);
+      expect(obstacleManager.isCourseComplete()).toBe(false);
+      
+      for (let i = 0; i < 60 * 60 && !obstacleManager.isCourseComplete(); i++) {
+        player.y = -10000;
+        step();
+      }
+      
+      expect(obstacleManager.isCourseComplete()).toBe(true);
+      expect(obstacleManager.getCourseProgress()).toBeGreaterThan(2500 + 90);
+      
+      // Starting the run over from the same spot
+      resetRun(player, obstacleManager);
+      obstacleManager.loadCourse(course, 2000);
+      expect(obstacleManager.isCourseComplete()).toBe(false);
+    });
+    
+    it('keeps course power-ups out of the random power-up limits', () => {
+      const minuteCount = () => (obstacleManager as unknown as { powerUpsInLastMinute: number }).powerUpsInLastMinute;
+      const log = vi.spyOn(console, 'log');
+      obstacleManager.spawnPattern(OBSTACLE_PATTERNS.find(pattern => pattern.name === 'powerUpArch')!);
+      expect(minuteCount()).toBeGreaterThan(0);
+      
+      // Loading a course starts the counters afresh, and its power-ups don't count
+      obstacleManager.loadCourse(course);
+      skate(2);
+      expect(obstacleManager.powerUps.length).toBeGreaterThan(0);
+      expect(minuteCount()).toBe(0);
+      
+      // Restarting the same course isn't announced again
+      obstacleManager.loadCourse(course);
+      obstacleManager.loadCourse(course, 1000);
+      expect(log.mock.calls.filter(([message]) => String(message).startsWith('Loaded course'))).toHaveLength(1);
+      log.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OBSTACLE_PATTERNS,
+  getPatternLength,
+  getUnlockedPatterns,
+  validateObstaclePattern
+} from '../ObstaclePatterns';
+
+describe('ObstaclePatterns', () => {
+  it('loads every pattern from the library', () => {
+    expect(OBSTACLE_PATTERNS.map(pattern => pattern.name)).toEqual(
+      expect.arrayContaining(['stairStep', 'railThenBox', 'doubleJumpGauntlet', 'powerUpArch'])
+    );
+    OBSTACLE_PATTERNS.forEach(pattern => {
+      expect(validateObstaclePattern(pattern)).toEqual([]);
+    });
+  });
+
+  it('unlocks more patterns as the game speeds up', () => {
+    const atStart = getUnlockedPatterns(0);
+
+    expect(atStart.length).toBeGreaterThan(0);
+    expect(atStart.length).toBeLessThan(getUnlockedPatterns(1).length);
+    expect(getUnlockedPatterns(1)).toHaveLength(OBSTACLE_PATTERNS.length);
+  });
+
+  it('measures a pattern to the end of its last obstacle', () => {
+    const pattern = OBSTACLE_PATTERNS.find(p => p.name === 'railThenBox')!;
+
+    expect(getPatternLength(pattern)).toBe(620 + 55);
+  });
+
+  it('reports broken obstacles, stacks and power-ups', () => {
+    expect(validateObstaclePattern({
+      label: 'Broken',
+      unlockAt: 2,
+      weight: 1,
+      obstacles: [
+        { at: 0, type: 'wall', width: 50, height: 40 },
+        { at: 100, type: 'box', width: 0, height: 40, stack: [{ type: 'rail', width: 20, height: 10, offset: 0 }] }
+      ],
+      powerUps: [{ at: -5, height: 100 }]
+    })).toEqual([
+      'unlockAt must be between 0 and 1',
+      'obstacles[0].type must be one of box, ramp, rail',
+      'obstacles[1].width must be at least 1',
+      'obstacles[1].stack[0].type must be one of box, ramp',
+      'powerUps[0].at must be at least 0'
+    ]);
+    expect(validateObstaclePattern({ label: 'Empty', unlockAt: 0, weight: 1, obstacles: [] }))
+      .toEqual(['obstacles must not be empty']);
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Player from '../Player';
+import { createPlayer, SIMULATION_TIMESTEP } from '../../core/Simulation';
+import FakeInputManager from './FakeInputManager';
+
+// Advance the player one tick, then clear the just-pressed input like the game loop does
+const step = (player: Player, input: FakeInputManager, deltaTime: number = SIMULATION_TIMESTEP): void => {
+  player.update(deltaTime, input);
+  input.update();
+};
+
+// Step until the player is standing on the ground
+const settle = (player: Player, input: FakeInputManager, deltaTime: number = SIMULATION_TIMESTEP): void => {
+  for (let i = 0; i < 600 && !player.onGround; i++) {
+    step(player, input, deltaTime);
+  }
+};
+
+describe('Player', () => {
+  let player: Player;
+  let input: FakeInputManager;
+
+  beforeEach(() => {
+    player = createPlayer();
+    player.state = 'skating';
+    input = new FakeInputManager();
+    settle(player, input);
+  });
+
+  describe('jumping', () => {
+    it('starts on the ground', () => {
+      expect(player.onGround).toBe(true);
+      expect(player.y).toBe(300);
+      expect(player.state).toBe('skating');
+    });
+
+    it('jumps off the ground with the full jump force', () => {
+      input.press('jump');
+      step(player, input);
+
+      expect(player.state).toBe('jumping');
+      expect(player.onGround).toBe(false);
+      expect(player.canDoubleJump).toBe(true);
+      expect(player.velocityY).toBeCloseTo(-500 + 1200 / 60);
+      expect(player.y).toBeLessThan(300);
+    });
+
+    it('ignores a second jump press during the jump cooldown', () => {
+      input.press('jump');
+      step(player, input);
+      input.release('jump');
+      step(player, input);
+
+      input.press('jump');
+      step(player, input);
+
+      // Still rising from the first jump only
+      expect(player.canDoubleJump).toBe(true);
+      expect(player.velocityY).toBeCloseTo(-500 + 3 * 1200 / 60);
+    });
+
+    it('double jumps once with 70% of the jump force', () => {
+      input.press('jump');
+      step(player, input);
+      input.release('jump');
+
+      // Wait out the 250ms jump cooldown
+      for (let i = 0; i < 15; i++) step(player, input);
+
+      input.press('jump');
+      step(player, input);
+      expect(player.canDoubleJump).toBe(false);
+      expect(player.velocityY).toBeCloseTo(-350 + 1200 / 60);
+
+      // No third jump
+      input.release('jump');
+      step(player, input);
+      input.press('jump');
+      step(player, input);
+      expect(player.velocityY).toBeCloseTo(-350 + 3 * 1200 / 60);
+    });
+  });
+
+  describe('landing', () => {
+    it('lands back on the ground and resets the double jump', () => {
+      input.press('jump');
+      step(player, input);
+      input.release('jump');
+
+      // Leave the ground first, then come back down
+      step(player, input);
+      settle(player, input);
+
+      expect(player.onGround).toBe(true);
+      expect(player.state).toBe('skating');
+      expect(player.y).toBe(300);
+      expect(player.velocityY).toBe(0);
+      expect(player.canDoubleJump).toBe(false);
+    });
+  });
+
+  describe('tricks', () => {
+    // 10ms ticks keep the trick timer on exact millisecond values
+    const TICK = 10;
+
+    beforeEach(() => {
+      player.currentPowerUp = 'blockflip';
+    });
+
+    it('does not start a trick from the jump key', () => {
+      input.press('jump');
+      step(player, input, TICK);
+
+      expect(player.currentTrick).toBe('none');
+      expect(player.currentPowerUp).toBe('blockflip');
+    });
+
+    it('starts the power-up trick and jumps on any other key', () => {
+      input.press('trickBlockflip');
+      step(player, input, TICK);
+
+      expect(player.currentTrick).toBe('blockflip');
+      expect(player.currentPowerUp).toBe('none');
+      expect(player.state).toBe('jumping');
+      expect(player.trickTimer).toBe(TICK);
+    });
+
+    it('awards sats at 250ms and completes the trick at 500ms without double counting', () => {
+      input.press('trickBlockflip');
+      step(player, input, TICK);
+
+      // Nothing yet at 240ms
+      for (let i = 1; i < 24; i++) step(player, input, TICK);
+      expect(player.trickTimer).toBe(240);
+      expect(player.sats).toBe(0);
+      expect(player.tricksLanded).toBe(0);
+
+      // awardTrickSats at 250ms
+      step(player, input, TICK);
+      expect(player.sats).toBe(5);
+      expect(player.trickCompleted).toBe(true);
+      expect(player.currentTrick).toBe('blockflip');
+
+      // Still animating at 490ms, no extra sats
+      for (let i = 25; i < 49; i++) step(player, input, TICK);
+      expect(player.currentTrick).toBe('blockflip');
+      expect(player.sats).toBe(5);
+
+      // completeTrick at 500ms
+      step(player, input, TICK);
+      expect(player.currentTrick).toBe('none');
+      expect(player.trickTimer).toBe(0);
+      expect(player.trickCompleted).toBe(false);
+      expect(player.sats).toBe(5);
+      expect(player.tricksLanded).toBe(1);
+
+      // Landing doesn't award anything more
+      settle(player, input, TICK);
+      expect(player.sats).toBe(5);
+    });
+
+    it('multiplies a trick chained soon after landing the last one', () => {
+      input.press('trickBlockflip');
+      step(player, input, TICK);
+      input.release('trickBlockflip');
+      settle(player, input, TICK);
+      expect(player.sats).toBe(5);
+
+      // Straight into a different trick: (5 + 2 variety) x1.5
+      player.currentPowerUp = 'hashspin';
+      input.press('trickHashSpin');
+      step(player, input, TICK);
+      input.release('trickHashSpin');
+      for (let i = 0; i < 30; i++) step(player, input, TICK);
+
+      expect(player.sats).toBe(5 + 11);
+      expect(player.combo.getChainLength()).toBe(2);
+    });
+
+    it('drops the combo on a crash', () => {
+      input.press('trickBlockflip');
+      step(player, input, TICK);
+      for (let i = 0; i < 30; i++) step(player, input, TICK);
+      expect(player.combo.getChainLength()).toBe(1);
+
+      player.crash();
+      expect(player.combo.getChainLength()).toBe(0);
+      expect(player.sats).toBe(5);
+    });
+
+    it('blocks jumping while a trick is in progress', () => {
+      input.press('trickBlockflip');
+      step(player, input, TICK);
+      input.release('trickBlockflip');
+
+      // Past the jump cooldown but still mid-trick
+      for (let i = 0; i < 30; i++) step(player, input, TICK);
+      const velocityY = player.velocityY;
+
+      input.press('jump');
+      step(player, input, TICK);
+      expect(player.velocityY).toBeCloseTo(velocityY + 1200 * TICK / 1000);
+    });
+
+    it('keeps the power-up when another key is pressed in the air', () => {
+      input.press('jump');
+      step(player, input, TICK);
+      input.release('jump');
+
+      input.press('right');
+      step(player, input, TICK);
+
+      expect(player.currentTrick).toBe('none');
+      expect(player.currentPowerUp).toBe('blockflip');
+      expect(player.powerUpMessageTimer).toBeGreaterThan(0);
+    });
+  });
+
+  describe('air tricks', () => {
+    const TICK = 10;
+
+    // Ticks a plain jump spends in the air
+    let airTicks: number;
+
+    // Jump, then press a trick key after the given number of ticks in the air
+    const trickAfter = (ticks: number, action: 'trickBlockflip' | 'trickHashSpin' | 'trickHodlGrab'): void => {
+      input.press('jump');
+      step(player, input, TICK);
+      input.release('jump');
+      for (let i = 1; i < ticks; i++) step(player, input, TICK);
+
+      input.press(action);
+      step(player, input, TICK);
+      input.release(action);
+    };
+
+    beforeEach(() => {
+      input.press('jump');
+      step(player, input, TICK);
+      input.release('jump');
+      for (airTicks = 1; !player.onGround; airTicks++) step(player, input, TICK);
+      for (let i = 0; i < 30; i++) step(player, input, TICK);
+    });
+
+    it('starts a trick from its key without a power-up or a boost', () => {
+      trickAfter(5, 'trickHashSpin');
+      const velocityY = player.velocityY;
+
+      expect(player.currentTrick).toBe('hashspin');
+      expect(player.trickPowered).toBe(false);
+      step(player, input, TICK);
+      expect(player.velocityY).toBeCloseTo(velocityY + 1200 * TICK / 1000);
+    });
+
+    it('uses up a matching power-up to power the trick', () => {
+      player.currentPowerUp = 'hodlgrab';
+      trickAfter(5, 'trickHodlGrab');
+
+      expect(player.currentTrick).toBe('hodlgrab');
+      expect(player.trickPowered).toBe(true);
+      expect(player.currentPowerUp).toBe('none');
+    });
+
+    it('keeps a power-up that does not match the trick', () => {
+      player.currentPowerUp = 'hodlgrab';
+      trickAfter(5, 'trickBlockflip');
+
+      expect(player.currentTrick).toBe('blockflip');
+      expect(player.trickPowered).toBe(false);
+      expect(player.currentPowerUp).toBe('hodlgrab');
+    });
+
+    it('lands a trick that finishes in the air', () => {
+      trickAfter(5, 'trickBlockflip');
+      settle(player, input, TICK);
+
+      expect(player.crashed).toBe(false);
+      expect(player.tricksLanded).toBe(1);
+      expect(player.sats).toBe(5);
+    });
+
+    it('bails when touching down too early in a trick', () => {
+      // About 300ms of air left - short of the normal landing window
+      trickAfter(airTicks - 30, 'trickBlockflip');
+      settle(player, input, TICK);
+
+      expect(player.crashed).toBe(true);
+      expect(player.bailed).toBe(true);
+      expect(player.tricksLanded).toBe(0);
+    });
+
+    it('gives powered tricks a wider landing window', () => {
+      player.currentPowerUp = 'blockflip';
+      trickAfter(airTicks - 30, 'trickBlockflip');
+      settle(player, input, TICK);
+
+      expect(player.crashed).toBe(false);
+      expect(player.tricksLanded).toBe(1);
+      expect(player.currentTrick).toBe('none');
+    });
+  });
+
+  describe('crashing', () => {
+    it('stops all movement and input after a crash', () => {
+      player.sats = 3;
+      player.crash();
+
+      expect(player.crashed).toBe(true);
+      expect(player.state).toBe('crashed');
+
+      const { x, y, frameCount } = player;
+      input.press('jump');
+      step(player, input);
+
+      expect(player.x).toBe(x);
+      expect(player.y).toBe(y);
+      expect(player.frameCount).toBe(frameCount);
+      expect(player.sats).toBe(3);
+    });
+
+    it('only crashes once', () => {
+      player.crash();
+      const { velocityX, velocityY } = player;
+
+      player.crash();
+      expect(player.velocityX).toBe(velocityX);
+      expect(player.velocityY).toBe(velocityY);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * HitboxRenderer.ts - Debug overlay outlining the collision shapes of everything on screen
+ */
+
+import Player from '../entities/Player';
+import ObstacleManager from '../entities/ObstacleManager';
+import { Hitbox, getEntityHitbox } from '../entities/Hitbox';
+
+// Outline colours by what the shape belongs to
+const PLAYER_COLOR = '#00FF88';
+const OBSTACLE_COLOR = '#FF3B3B';
+const POWER_UP_COLOR = '#3BA3FF';
+
+export default class HitboxRenderer {
+  /**
+   * Outline the hitboxes of the player, the obstacles and the power-ups
+   */
+  public draw(ctx: CanvasRenderingContext2D, player: Player, obstacleManager: ObstacleManager, playerCameraOffset: number): void {
+    try {
+      ctx.save();
+      ctx.lineWidth = 2;
+
+      obstacleManager.obstacles.forEach(obstacle => {
+        this.drawHitbox(ctx, obstacle.getHitbox(), obstacleManager.cameraOffset, OBSTACLE_COLOR);
+      });
+
+      obstacleManager.powerUps
+        .filter(powerUp => powerUp.active && !powerUp.collected)
+        .forEach(powerUp => {
+          this.drawHitbox(ctx, getEntityHitbox(powerUp, 'powerUp'), obstacleManager.cameraOffset, POWER_UP_COLOR);
+        });
+
+      this.drawHitbox(ctx, getEntityHitbox(player, 'player'), playerCameraOffset, PLAYER_COLOR);
+
+      ctx.restore();
+    } catch (err) {
+      console.error('Error in HitboxRenderer.draw:', err);
+    }
+  }
+
+  // Outline and lightly fill one hitbox
+  private drawHitbox(ctx: CanvasRenderingContext2D, hitbox: Hitbox, cameraOffset: number, color: string): void {
+    const x = hitbox.x - cameraOffset;
+
+    ctx.beginPath();
+    switch (hitbox.shape) {
+      case 'circle':
+        ctx.arc(x, hitbox.y, hitbox.radius, 0, Math.PI * 2);
+        break;
+      case 'slope':
+        ctx.moveTo(x, hitbox.y + hitbox.height);
+        ctx.lineTo(x + hitbox.width, hitbox.y);
+        ctx.lineTo(x + hitbox.width, hitbox.y + hitbox.height);
+        ctx.closePath();
+        break;
+      default:
+        ctx.rect(x, hitbox.y, hitbox.width, hitbox.height);
+    }
+
+    ctx.globalAlpha = 0.2;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = color;
+    ctx.stroke();
+  }
+}
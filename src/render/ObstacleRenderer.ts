@@ -0,0 +1,323 @@
+/**
+ * ObstacleRenderer.ts - Draws obstacles, power-ups and the course overlay
+ */
+
+import ObstacleManager, { Obstacle, bitcoinObstacleImages, fallbackObstacleImages } from '../entities/ObstacleManager';
+import PowerUpRenderer from './PowerUpRenderer';
+
+// A loaded obstacle image - name is the image actually shown, which changes if we fell back
+interface ObstacleImage {
+  image: HTMLImageElement;
+  name: string;
+}
+
+export default class ObstacleRenderer {
+  // Obstacle images by image name, shared by every obstacle showing the same image
+  private images: {[key: string]: ObstacleImage} = {};
+  
+  // Power-ups are drawn along with the obstacles
+  private powerUpRenderer: PowerUpRenderer = new PowerUpRenderer();
+  
+  constructor() {
+    this.preloadObstacleImages();
+  }
+  
+  // Preload obstacle images to improve performance
+  private preloadObstacleImages(): void {
+    try {
+      console.log('Preloading obstacle images...');
+      
+      // Preload a few Bitcoin images
+      const imagesToPreload = [...bitcoinObstacleImages.slice(0, 5), ...fallbackObstacleImages];
+      imagesToPreload.forEach(imageName => this.loadImage(imageName));
+    } catch (err) {
+      console.error('Error preloading obstacle images:', err);
+    }
+  }
+  
+  // Load an obstacle image (once per image name)
+  private loadImage(imageName: string): ObstacleImage {
+    if (this.images[imageName]) {
+      return this.images[imageName];
+    }
+    
+    const img = new Image();
+    
+    // Improve image rendering quality for crisp display during movement
+    img.style.imageRendering = 'crisp-edges';
+    
+    // Enable crossOrigin to avoid CORS issues when processing
+    img.crossOrigin = 'anonymous';
+    
+    const entry: ObstacleImage = { image: img, name: imageName };
+    this.images[imageName] = entry;
+    
+    img.onload = () => {
+      console.log(`Loaded obstacle image: ${img.src}`);
+    };
+    
+    img.onerror = (err) => {
+      console.error(`Failed to load image: ${img.src}`, err);
+      
+      // Bitcoin images fall back to one of the guaranteed fallback images
+      if (bitcoinObstacleImages.includes(imageName)) {
+        const fallbackImage = fallbackObstacleImages[Math.floor(Math.random() * fallbackObstacleImages.length)];
+        console.log(`Trying fallback Bitcoin image: ${fallbackImage}`);
+        
+        const fallback = this.loadImage(fallbackImage);
+        entry.image = fallback.image;
+        entry.name = fallback.name;
+      }
+    };
+    
+    // Bitcoin images live in the Obstacles folder, fallbacks in their own folder
+    img.src = bitcoinObstacleImages.includes(imageName)
+      ? `/images/Obstacles/${imageName}`
+      : `/images/${imageName}`;
+    
+    return entry;
+  }
+  
+  // Get the image to draw for an obstacle (null image until it has loaded)
+  private getImage(imageName: string): { image: HTMLImageElement | null, name: string } {
+    const entry = this.loadImage(imageName);
+    const loaded = entry.image.complete && entry.image.naturalWidth > 0;
+    return { image: loaded ? entry.image : null, name: entry.name };
+  }
+  
+  // Draw all obstacles and power-ups with camera offset
+  public draw(ctx: CanvasRenderingContext2D, obstacleManager: ObstacleManager): void {
+    try {
+      // Draw obstacles
+      obstacleManager.obstacles.forEach(obstacle => {
+        this.drawObstacle(ctx, obstacle, obstacleManager.cameraOffset);
+      });
+      
+      // Draw power-ups
+      obstacleManager.powerUps.forEach(powerUp => {
+        this.powerUpRenderer.draw(ctx, powerUp, obstacleManager.cameraOffset);
+      });
+      
+      // Draw ground - simple line across the bottom
+      ctx.strokeStyle = '#333';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(0, obstacleManager.groundY);
+      ctx.lineTo(800, obstacleManager.groundY);
+      ctx.stroke();
+      
+      // Draw distance indicator in debug mode
+      if (window.DEBUG_MODE) {
+        ctx.fillStyle = 'white';
+        ctx.font = '12px Arial';
+        ctx.textAlign = 'right';
+        ctx.fillText(`Distance: ${Math.floor(obstacleManager.totalDistance)}m`, 790, 15);
+        ctx.fillText(`Camera offset: ${Math.floor(obstacleManager.cameraOffset)}px`, 790, 30);
+        ctx.fillText(`Obstacles: ${obstacleManager.obstacles.length}`, 790, 45);
+      }
+    } catch (err) {
+      console.error('Error in ObstacleRenderer.draw:', err);
+    }
+  }
+  
+  // Trace an obstacle's outline - ramps are triangles sloping up to the right (matching their collision),
+  // boxes and rails are rectangles
+  private traceShape(ctx: CanvasRenderingContext2D, obstacle: Obstacle, drawX: number): void {
+    ctx.beginPath();
+    if (obstacle.type === 'ramp') {
+      ctx.moveTo(drawX, obstacle.y + obstacle.height);
+      ctx.lineTo(drawX + obstacle.width, obstacle.y);
+      ctx.lineTo(drawX + obstacle.width, obstacle.y + obstacle.height);
+      ctx.closePath();
+    } else {
+      ctx.rect(drawX, obstacle.y, obstacle.width, obstacle.height);
+    }
+  }
+  
+  // Draw obstacle
+  public drawObstacle(ctx: CanvasRenderingContext2D, obstacle: Obstacle, cameraOffset: number = 0): void {
+    try {
+      const drawX = obstacle.x - cameraOffset;
+      
+      // Skip drawing if obstacle is off-screen
+      if (drawX + obstacle.width < 0 || drawX > ctx.canvas.width) {
+        return;
+      }
+      
+      // Draw obstacle image if it's loaded
+      const { image, name } = this.getImage(obstacle.imageName);
+      if (image) {
+        // If hit, draw with reduced opacity
+        if (obstacle.hit) {
+          ctx.globalAlpha = 0.5;
+        }
+        
+        // Draw a background box for the obstacle - solid white for better contrast
+        ctx.fillStyle = 'rgba(255, 255, 255, 1.0)';
+        
+        // Add a subtle shadow for depth and better visibility
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+        ctx.shadowBlur = 4;
+        ctx.shadowOffsetY = 2;
+        
+        this.traceShape(ctx, obstacle, drawX);
+        ctx.fill();
+        
+        // Create a more subtle border
+        ctx.shadowBlur = 0; // Remove shadow for border
+        ctx.strokeStyle = 'rgba(255, 140, 0, 0.8)'; // Orange border with slightly reduced opacity
+        ctx.lineWidth = 1.5; // Reduced from 3px to 1.5px
+        ctx.stroke();
+        
+        // Keep the image and label inside the shape (ramps are triangles)
+        ctx.save();
+        this.traceShape(ctx, obstacle, drawX);
+        ctx.clip();
+        
+        // Calculate dimensions that preserve aspect ratio
+        const originalWidth = image.width || 100;
+        const originalHeight = image.height || 100;
+        
+        // Scale image to fit but leave room for the label
+        let scale = Math.min(
+          (obstacle.width * 0.95) / originalWidth,
+          (obstacle.height * 0.8) / originalHeight // Reduced slightly to leave room for label
+        );
+        
+        // Calculate new dimensions
+        const scaledWidth = originalWidth * scale;
+        const scaledHeight = originalHeight * scale;
+        
+        // Calculate centered position
+        const centerX = drawX + (obstacle.width - scaledWidth) / 2;
+        const centerY = obstacle.y + (obstacle.height * 0.45 - scaledHeight / 2); // Positioned higher to make room for label
+        
+        // Remove shadow for image drawing
+        ctx.shadowColor = 'transparent';
+        
+        // Set image rendering to crisp-edges to reduce blur during movement
+        if (image.style) {
+          image.style.imageRendering = 'crisp-edges';
+        }
+        
+        // Boost contrast before drawing the image
+        ctx.globalAlpha = obstacle.hit ? 0.5 : 1.0;
+        
+        // Draw the image with preserved aspect ratio
+        ctx.drawImage(
+          image,
+          centerX,
+          centerY,
+          scaledWidth,
+          scaledHeight
+        );
+        
+        // Add a label below the image to help identify it
+        if (!obstacle.stackParent) { // Only add label to base obstacles
+          ctx.fillStyle = '#000000';
+          ctx.font = `${Math.min(12, obstacle.width * 0.14)}px Arial`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          
+          // Extract name from image path
+          let labelText = this.getLabelText(name);
+          ctx.fillText(labelText, drawX + obstacle.width / 2, obstacle.y + obstacle.height * 0.85);
+        }
+        
+        ctx.restore();
+        
+        // Reset opacity and shadow effects
+        ctx.globalAlpha = 1.0;
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetY = 0;
+      } else {
+        // Updated fallback to always show Bitcoin-themed elements
+        // Use consistent Bitcoin orange for all obstacles
+        ctx.fillStyle = '#F7931A'; // Bitcoin orange
+        
+        // Add shadow for 3D effect
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+        ctx.shadowBlur = 5;
+        ctx.shadowOffsetY = 2;
+        
+        // Draw base shape
+        this.traceShape(ctx, obstacle, drawX);
+        ctx.fill();
+        
+        // Add Bitcoin symbol on all obstacles - increased size
+        ctx.fillStyle = '#FFFFFF'; // White Bitcoin symbol
+        ctx.font = `${Math.min(obstacle.width, obstacle.height) * 0.6}px Arial`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('₿', drawX + obstacle.width/2, obstacle.y + obstacle.height/2 - (obstacle.height * 0.1));
+        
+        // Add a generic label
+        if (!obstacle.stackParent) {
+          ctx.fillStyle = '#000000';
+          ctx.font = `${Math.min(12, obstacle.width * 0.14)}px Arial`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText('Bitcoin', drawX + obstacle.width / 2, obstacle.y + obstacle.height * 0.85);
+        }
+        
+        // Reset shadow
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetY = 0;
+      }
+      
+      // For debugging hitboxes
+      if (window.DEBUG_MODE) {
+        ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(drawX, obstacle.y, obstacle.width, obstacle.height);
+        
+        // Add label if debug mode
+        ctx.fillStyle = 'white';
+        ctx.font = '10px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(obstacle.type, drawX + obstacle.width / 2, obstacle.y - 5);
+      }
+    } catch (err) {
+      console.error('Error in ObstacleRenderer.drawObstacle:', err);
+    }
+  }
+  
+  // Helper method to get appropriate label text from image name
+  private getLabelText(imageName: string): string {
+    try {
+      if (!imageName) return 'Bitcoin';
+      
+      // Clean up the file name to make it more readable
+      let name = imageName.replace(/\.\w+$/, ''); // Remove file extension
+      
+      const nameMap: {[key: string]: string} = {
+        '3ac': '3AC',
+        'bitcoinetf': 'BTC ETF',
+        'btcenergy': 'BTC Energy',
+        'china_pboc': 'China PBOC',
+        'elsalvador': 'El Salvador',
+        'ftx': 'FTX',
+        'halving': 'Halving',
+        'luna': 'Luna',
+        'MicroStrategy': 'MicroStrategy',
+        'mtgox': 'Mt. Gox',
+        'pizza': 'BTC Pizza',
+        'sec_logo': 'SEC',
+        'segwit': 'SegWit',
+        'silk_road': 'Silk Road',
+        'tesla': 'Tesla',
+        'bitcoin-logo': 'Bitcoin',
+        'bitcoin-symbol': 'Bitcoin',
+        'btc-icon': 'Bitcoin',
+        'bitcoin-fallback': 'Bitcoin'
+      };
+      
+      return nameMap[name] || name;
+    } catch (err) {
+      console.error('Error getting label text:', err);
+      return 'Bitcoin';
+    }
+  }
+}
@@ -0,0 +1,598 @@
+/**
+ * PlayerRenderer.ts - Draws the player, the skateboard and the player HUD
+ */
+
+import Player from '../entities/Player';
+import { getTrickColor } from './trickColors';
+
+export default class PlayerRenderer {
+  // Draw state labels and the collision box above the player
+  public debug: boolean = false;
+  
+  // Images for player and skateboard
+  private playerImages: {[key: string]: HTMLImageElement} = {};
+  private skateboardImage: HTMLImageElement | null = null;
+  private imagesLoaded: boolean = false;
+  
+  constructor() {
+    // Load player images
+    this.loadImages();
+  }
+  
+  /**
+   * Load all required player images
+   */
+  private loadImages(): void {
+    // Load player state images
+    const states = ['idle', 'skating', 'jumping', 'falling', 'grinding', 'crashed'];
+    
+    states.forEach(state => {
+      const img = new Image();
+      img.src = `/images/player-${state}.png`;
+      this.playerImages[state] = img;
+      
+      img.onload = () => {
+        console.log(`Loaded player image: ${state}`);
+      };
+      
+      img.onerror = (err) => {
+        console.error(`Failed to load player image: ${state}`, err);
+      };
+    });
+    
+    // Load skateboard image
+    this.skateboardImage = new Image();
+    this.skateboardImage.src = '/images/skateboard.png';
+    
+    this.skateboardImage.onload = () => {
+      console.log('Loaded skateboard image');
+      this.imagesLoaded = true;
+    };
+    
+    this.skateboardImage.onerror = (err) => {
+      console.error('Failed to load skateboard image', err);
+    };
+  }
+  
+  /**
+   * Draw the player
+   */
+  public draw(ctx: CanvasRenderingContext2D, player: Player, cameraOffset: number = 0): void {
+    try {
+      // Calculate screen position with camera offset
+      const screenX = player.x - cameraOffset;
+      
+      // Simple animation for skating
+      let yOffset = 0;
+      if (player.state === 'skating' && player.onGround) {
+        // Simple bobbing animation
+        yOffset = Math.sin(player.frameCount * 0.2) * 2;
+      }
+      
+      // Save context for transformations
+      ctx.save();
+      
+      // Determine which player image to use
+      let playerImageKey = player.state;
+      
+      // Apply rotation for tricks or crash
+      if (player.currentTrick !== 'none' || player.state === 'crashed') {
+        const centerX = screenX + player.width / 2;
+        const centerY = player.y + player.height / 2;
+        ctx.translate(centerX, centerY);
+        
+        if (player.currentTrick !== 'none') {
+          // Different rotation based on trick type
+          let rotationAmount = (player.trickTimer / 500) * Math.PI;
+          
+          switch (player.currentTrick) {
+            case 'blockflip':
+              // Side flip - rotate around X axis (appears as scaling in 2D)
+              ctx.scale(1, Math.cos(rotationAmount * 2));
+              break;
+            case 'hodlgrab':
+              // Opposite side flip
+              ctx.rotate(-rotationAmount);
+              break;
+            case 'hashspin':
+              // Full rotation with a twist - 360 degrees rotation with some scaling
+              ctx.rotate(rotationAmount * 2);
+              // Add a slight wave effect for the 360 flip to make it look different
+              const scaleX = 1 + 0.2 * Math.sin(rotationAmount * 3);
+              const scaleY = 1 + 0.2 * Math.cos(rotationAmount * 3);
+              ctx.scale(scaleX, scaleY);
+              break;
+          }
+        } else if (player.state === 'crashed') {
+          // Random-ish tumble effect when crashed
+          ctx.rotate(Math.sin(player.frameCount * 0.1) * 0.5);
+        }
+        
+        ctx.translate(-centerX, -centerY);
+      }
+      
+      // Draw player with image if loaded, otherwise fall back to rectangle
+      if (this.imagesLoaded && this.playerImages[playerImageKey]) {
+        // Draw player image
+        ctx.drawImage(
+          this.playerImages[playerImageKey],
+          screenX,
+          player.y + yOffset,
+          player.width,
+          player.height
+        );
+      } else {
+        // Fallback to rectangle if image not loaded
+        // Determine color based on state
+        let color;
+        switch (player.state) {
+          case 'idle':
+            color = '#777';
+            break;
+          case 'skating':
+            color = '#3498db';
+            break;
+          case 'jumping':
+          case 'falling':
+            color = '#2ecc71';
+            break;
+          case 'grinding':
+            color = '#f1c40f';
+            break;
+          case 'crashed':
+            color = '#e74c3c';
+            break;
+          default:
+            color = '#3498db';
+        }
+        
+        // Draw player body with offset
+        ctx.fillStyle = color;
+        ctx.fillRect(screenX, player.y + yOffset, player.width, player.height - 10);
+        
+        // Draw head
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(screenX + player.width / 2, player.y + 10 + yOffset, 10, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      
+      // Draw skateboard
+      if (player.currentTrick !== 'none') {
+        // Draw skateboard with trick animation
+        // Increase skateboard dimensions for better visibility
+        const boardWidth = player.width + 20; // Increased from +10 to +20
+        const boardHeight = 10; // Increased from 5 to 10
+        const boardX = screenX - 10; // Adjust position for the width increase
+        const boardY = player.y + player.height - 15 + yOffset; // Raised by 10px to better align with player's feet
+        
+        ctx.save();
+        ctx.translate(boardX + boardWidth / 2, boardY + boardHeight / 2);
+        
+        switch (player.currentTrick) {
+          case 'blockflip':
+            // Kickflip: rotate board around its long axis
+            ctx.rotate(Math.PI * (player.trickTimer / 500) * 1.5);
+            ctx.scale(1, Math.abs(Math.cos(Math.PI * (player.trickTimer / 500) * 1.5)));
+            break;
+          case 'hodlgrab':
+            // Heelflip: opposite rotation
+            ctx.rotate(-Math.PI * (player.trickTimer / 500) * 1.5);
+            ctx.scale(1, Math.abs(Math.cos(Math.PI * (player.trickTimer / 500) * 1.5)));
+            break;
+          case 'hashspin':
+            // 360 flip: combination of flip and rotation
+            ctx.rotate(Math.PI * 2 * (player.trickTimer / 500));
+            ctx.scale(1, Math.abs(Math.cos(Math.PI * (player.trickTimer / 500) * 2)));
+            break;
+        }
+        
+        if (this.imagesLoaded && this.skateboardImage) {
+          // Draw skateboard image with increased dimensions
+          ctx.drawImage(
+            this.skateboardImage,
+            -boardWidth / 2,
+            -boardHeight / 2,
+            boardWidth,
+            boardHeight * 3 // Triple height for better visibility (increased from double)
+          );
+        } else {
+          // Improved fallback skateboard with more detail
+          // Main deck
+          ctx.fillStyle = '#222';
+          ctx.fillRect(-boardWidth / 2, -boardHeight / 2, boardWidth, boardHeight);
+          
+          // Add grip tape texture
+          ctx.fillStyle = '#111';
+          const gripSize = 1;
+          for (let i = -boardWidth / 2 + 2; i < boardWidth / 2 - 2; i += 3) {
+            ctx.fillRect(i, -boardHeight / 2 + 1, gripSize, boardHeight - 2);
+          }
+          
+          // Add trucks detail (metallic part that holds the wheels)
+          ctx.fillStyle = '#555';
+          const truckWidth = 8;
+          ctx.fillRect(-boardWidth / 2 + boardWidth * 0.15 - truckWidth/2, -boardHeight/2, truckWidth, boardHeight * 2);
+          ctx.fillRect(boardWidth / 2 - boardWidth * 0.15 - truckWidth/2, -boardHeight/2, truckWidth, boardHeight * 2);
+          
+          // Add wheels
+          ctx.fillStyle = 'white';
+          const wheelRadius = 4;
+          // Front and back wheels on both sides
+          ctx.beginPath();
+          ctx.arc(-boardWidth / 2 + boardWidth * 0.15, boardHeight * 0.75, wheelRadius, 0, Math.PI * 2);
+          ctx.arc(boardWidth / 2 - boardWidth * 0.15, boardHeight * 0.75, wheelRadius, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        
+        ctx.restore();
+      } else {
+        // Regular skateboard when not doing tricks
+        // Increase skateboard dimensions for better visibility
+        const boardWidth = player.width + 20; // Increased from +10 to +20
+        const boardHeight = 10; // Increased from 5 to 10
+        const boardX = screenX - 10; // Adjust position for the width increase
+        const boardY = player.y + player.height - 15 + yOffset; // Raised by 10px to better align with player's feet
+        
+        if (this.imagesLoaded && this.skateboardImage) {
+          // Draw skateboard image with increased dimensions
+          ctx.drawImage(
+            this.skateboardImage,
+            boardX,
+            boardY,
+            boardWidth,
+            boardHeight * 3 // Triple height for better visibility (increased from double)
+          );
+        } else {
+          // Improved fallback skateboard with more detail
+          // Main deck
+          ctx.fillStyle = '#222';
+          ctx.fillRect(boardX, boardY, boardWidth, boardHeight);
+          
+          // Add grip tape texture
+          ctx.fillStyle = '#111';
+          const gripSize = 1;
+          for (let i = boardX + 2; i < boardX + boardWidth - 2; i += 3) {
+            ctx.fillRect(i, boardY + 1, gripSize, boardHeight - 2);
+          }
+          
+          // Add 3D perspective with deck sides
+          ctx.fillStyle = '#8B4513'; // Wood color for sides
+          ctx.fillRect(boardX, boardY + boardHeight, boardWidth, 2);
+          
+          // Draw wheels with 3D perspective
+          ctx.fillStyle = 'white';
+          // Front wheels
+          ctx.fillRect(screenX - 3, player.y + player.height, 8, 5);
+          // Back wheels
+          ctx.fillRect(screenX + player.width - 5, player.y + player.height, 8, 5);
+          
+          // Add trucks (metal parts that hold the wheels)
+          ctx.fillStyle = '#555';
+          ctx.fillRect(screenX - 5, player.y + player.height - 1, 12, 2);
+          ctx.fillRect(screenX + player.width - 7, player.y + player.height - 1, 12, 2);
+          
+          // Add shadow for depth
+          ctx.fillStyle = 'rgba(0,0,0,0.3)';
+          ctx.fillRect(boardX + 5, boardY + boardHeight + 5, boardWidth - 10, 2);
+        }
+      }
+      
+      // Reset transformations
+      ctx.restore();
+      
+      // Show state-based effects
+      if (player.state === 'grinding') {
+        // Spark effect for grinding
+        ctx.fillStyle = 'yellow';
+        for (let i = 0; i < 3; i++) {
+          const sparkX = screenX + Math.random() * player.width;
+          const sparkY = player.y + player.height + 2 + Math.random() * 3;
+          const sparkSize = 1 + Math.random() * 2;
+          ctx.beginPath();
+          ctx.arc(sparkX, sparkY, sparkSize, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      } else if (player.state === 'jumping' || player.state === 'falling') {
+        // Motion lines for jumping/falling
+        ctx.strokeStyle = 'rgba(255,255,255,0.3)';
+        ctx.lineWidth = 1;
+        for (let i = 0; i < 3; i++) {
+          const lineY = player.y + 10 + (i * 15);
+          ctx.beginPath();
+          ctx.moveTo(screenX - 10, lineY);
+          ctx.lineTo(screenX - 5, lineY);
+          ctx.stroke();
+        }
+      }
+      
+      // Debug info
+      if (this.debug) {
+        ctx.fillStyle = 'white';
+        ctx.font = '12px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText(`State: ${player.state}`, screenX, player.y - 35);
+        ctx.fillText(`Vel: ${player.velocityX.toFixed(1)}, ${player.velocityY.toFixed(1)}`, screenX, player.y - 20);
+        
+        if (player.currentTrick !== 'none') {
+          ctx.fillStyle = 'yellow';
+          ctx.fillText(`Trick: ${player.currentTrick} (${player.trickTimer.toFixed(0)}ms)`, screenX, player.y - 50);
+        }
+        
+        // Draw collision bounding box
+        ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
+        ctx.strokeRect(screenX, player.y, player.width, player.height);
+      }
+    } catch (err) {
+      console.error('Error in PlayerRenderer.draw:', err);
+    }
+  }
+  
+  /**
+   * Draw player HUD (sats, combo)
+   */
+  public drawHUD(ctx: CanvasRenderingContext2D, player: Player, width: number, height: number): void {
+    try {
+      // Sats display - removed the title to avoid duplication
+      ctx.fillStyle = 'white';
+      ctx.font = '24px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(`Sats: ${player.sats}`, 20, 30);
+
+      // Live combo - shown once two or more tricks are chained
+      const chainLength = player.combo.getChainLength();
+      if (chainLength > 1) {
+        ctx.save();
+
+        // Multiplier the chain has built (what the next trick gets)
+        ctx.fillStyle = '#f7931a';
+        ctx.font = 'bold 20px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText(`${chainLength} TRICK COMBO  x${player.combo.getMultiplier()}`, 20, 58);
+
+        ctx.fillStyle = 'white';
+        ctx.font = '14px Arial';
+        ctx.fillText(`+${player.combo.getChainSats()} sats`, 20, 78);
+
+        // Bar showing how long the player can stay grounded before the combo ends
+        const barWidth = 140;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+        ctx.fillRect(20, 86, barWidth, 4);
+        ctx.fillStyle = '#f7931a';
+        ctx.fillRect(20, 86, barWidth * player.combo.getTimeLeft(), 4);
+
+        ctx.restore();
+      }
+
+      // Balance meter while grinding - keep the needle in the middle
+      if (player.onRail) {
+        ctx.save();
+        
+        const meterWidth = 160;
+        const meterX = width / 2 - meterWidth / 2;
+        const meterY = 90;
+        const balance = Math.max(-1, Math.min(1, player.grindBalance));
+        
+        ctx.fillStyle = 'rgba(15, 20, 25, 0.8)';
+        this.roundRect(ctx, meterX - 6, meterY - 22, meterWidth + 12, 36, 6);
+        
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 12px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText('BALANCE', width / 2, meterY - 8);
+        
+        // Track - red towards the ends where the player falls off
+        const track = ctx.createLinearGradient(meterX, 0, meterX + meterWidth, 0);
+        track.addColorStop(0, '#e74c3c');
+        track.addColorStop(0.3, '#f1c40f');
+        track.addColorStop(0.5, '#2ecc71');
+        track.addColorStop(0.7, '#f1c40f');
+        track.addColorStop(1, '#e74c3c');
+        ctx.fillStyle = track;
+        ctx.fillRect(meterX, meterY, meterWidth, 6);
+        
+        // Needle
+        const needleX = width / 2 + balance * meterWidth / 2;
+        ctx.fillStyle = 'white';
+        ctx.fillRect(needleX - 2, meterY - 4, 4, 14);
+        
+        ctx.restore();
+      }
+      
+      // Enhanced power-up indicator
+      if (player.currentPowerUp !== 'none') {
+        // Draw power-up indicator
+        ctx.save();
+        
+        // Position in top-right corner
+        const indicatorX = width - 70;
+        const indicatorY = 40;
+        const radius = 28; // Larger size for better visibility
+        
+        // Add attention-grabbing outer glow that pulses
+        const glowSize = 6 + Math.sin(player.frameCount * 0.15) * 4;
+        ctx.shadowColor = getTrickColor(player.currentPowerUp);
+        ctx.shadowBlur = glowSize;
+        ctx.globalAlpha = 0.8 + Math.sin(player.frameCount * 0.2) * 0.2;
+        
+        // Draw outer ring
+        ctx.strokeStyle = getTrickColor(player.currentPowerUp);
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(indicatorX, indicatorY, radius + 4 + Math.sin(player.frameCount * 0.15) * 2, 0, Math.PI * 2);
+        ctx.stroke();
+        
+        // Clean background with slight transparency for modern look
+        ctx.globalAlpha = 0.95;
+        ctx.fillStyle = 'rgba(15, 20, 25, 0.9)'; // Dark transparent background
+        ctx.beginPath();
+        ctx.arc(indicatorX, indicatorY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        
+        // Choose color based on trick type - cleaner, modern colors
+        let trickColor = getTrickColor(player.currentPowerUp);
+        
+        // Inner colored circle
+        ctx.globalAlpha = 0.9 + player.powerUpIndicatorAlpha * 0.1; // More pronounced pulsing
+        ctx.fillStyle = trickColor;
+        ctx.beginPath();
+        ctx.arc(indicatorX, indicatorY, radius - 6, 0, Math.PI * 2);
+        ctx.fill();
+        
+        // Trick label/icon with clean typography
+        ctx.globalAlpha = 1.0;
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 20px Arial'; // Larger font for better visibility
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        
+        let label = 'K';
+        if (player.currentPowerUp === 'hashspin') label = '3';
+        if (player.currentPowerUp === 'hodlgrab') label = 'H';
+        
+        ctx.fillText(label, indicatorX, indicatorY);
+        
+        // Attention-grabbing "USE" instruction
+        ctx.font = '13px Arial';
+        ctx.fillStyle = 'white';
+        ctx.globalAlpha = 0.7 + Math.sin(player.frameCount * 0.15) * 0.3; // Pulsing text
+        ctx.textAlign = 'center';
+        
+        // Animated instruction text
+        const pulseScale = 1 + Math.sin(player.frameCount * 0.15) * 0.1;
+        ctx.save();
+        ctx.translate(indicatorX, indicatorY + radius + 14);
+        ctx.scale(pulseScale, pulseScale);
+        ctx.fillText('PRESS ANY KEY!', 0, 0);
+        ctx.restore();
+        
+        // Draw small attention indicators around the power-up
+        const arrowCount = 3;
+        for (let i = 0; i < arrowCount; i++) {
+          const angle = Math.PI/2 - Math.PI/8 + (i - 1) * Math.PI/8;
+          const arrowX = indicatorX + Math.cos(angle) * (radius + 12);
+          const arrowY = indicatorY + Math.sin(angle) * (radius + 12);
+          const alpha = 0.6 + Math.sin(player.frameCount * 0.15 + i) * 0.4;
+          
+          ctx.save();
+          ctx.globalAlpha = alpha;
+          ctx.translate(arrowX, arrowY);
+          ctx.rotate(angle + Math.PI/2);
+          
+          // Draw small arrow
+          ctx.fillStyle = 'white';
+          ctx.beginPath();
+          ctx.moveTo(0, -4);
+          ctx.lineTo(3, 0);
+          ctx.lineTo(-3, 0);
+          ctx.closePath();
+          ctx.fill();
+          
+          ctx.restore();
+        }
+        
+        ctx.restore();
+      }
+      
+      // Show power-up collection message - cleaner notification
+      if (player.powerUpMessageTimer > 0) {
+        ctx.save();
+        
+        // Fade in/out smoothly
+        const fadeInDuration = 300;
+        const fadeOutStart = 1500;
+        let alpha = 1.0;
+        
+        if (player.powerUpMessageTimer > 2000 - fadeInDuration) {
+          // Fade in
+          alpha = (2000 - player.powerUpMessageTimer) / fadeInDuration;
+        } else if (player.powerUpMessageTimer < fadeOutStart) {
+          // Fade out
+          alpha = player.powerUpMessageTimer / fadeOutStart;
+        }
+        
+        ctx.globalAlpha = alpha;
+        
+        // Clean, modern notification background
+        const notifWidth = 220;
+        const notifHeight = 50;
+        const notifX = width / 2 - notifWidth / 2;
+        const notifY = height / 2 - 50 - notifHeight / 2;
+        
+        // Rounded rectangle with shadow
+        ctx.shadowColor = 'rgba(0,0,0,0.3)';
+        ctx.shadowBlur = 10;
+        ctx.shadowOffsetY = 3;
+        ctx.fillStyle = 'rgba(15, 20, 25, 0.85)';
+        
+        // Draw rounded rectangle
+        this.roundRect(ctx, notifX, notifY, notifWidth, notifHeight, 8);
+        
+        // Message text
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetY = 0;
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 16px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        
+        if (player.currentPowerUp !== 'none') {
+          if (!player.onGround && !player.onRail) {
+            ctx.fillText(`${player.currentPowerUp.toUpperCase()} READY`, width / 2, notifY + 16);
+            ctx.font = '14px Arial';
+            ctx.fillText('Do its trick in the air to power it up', width / 2, notifY + 36);
+          } else {
+            ctx.fillText(`${player.currentPowerUp.toUpperCase()} COLLECTED`, width / 2, notifY + 16);
+            ctx.font = '14px Arial';
+            ctx.fillText('Press any key (except SPACE) to jump & trick', width / 2, notifY + 36);
+          }
+        }
+        
+        ctx.restore();
+      }
+      
+      // Current trick - only show the current trick now
+      if (player.currentTrick !== 'none') {
+        // Text content and position
+        const trickText = player.currentTrick.toUpperCase();
+        const trickX = width / 2 - 50;
+        const trickY = height / 2;
+        
+        // Text measurements for background
+        ctx.font = '24px Arial'; // Assuming we're using the same font as the sats display
+        ctx.textAlign = 'left';
+        const textWidth = ctx.measureText(trickText).width;
+        
+        // Draw background
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'; // Semi-transparent black background
+        ctx.fillRect(trickX - 5, trickY - 20, textWidth + 10, 28); // Add padding around the text
+        
+        // Draw text
+        ctx.fillStyle = 'cyan';
+        ctx.fillText(trickText, trickX, trickY);
+      }
+      
+    } catch (err) {
+      console.error('Error in PlayerRenderer.drawHUD:', err);
+    }
+  }
+  
+  /**
+   * Helper function to draw rounded rectangles
+   */
+  private roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.lineTo(x + width - radius, y);
+    ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+    ctx.lineTo(x + width, y + height - radius);
+    ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+    ctx.lineTo(x + radius, y + height);
+    ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+    ctx.lineTo(x, y + radius);
+    ctx.quadraticCurveTo(x, y, x + radius, y);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
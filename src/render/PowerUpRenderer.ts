@@ -0,0 +1,291 @@
+/**
+ * PowerUpRenderer.ts - Draws trick power-ups and their collection particles
+ */
+
+import PowerUp from '../entities/PowerUp';
+import { TrickType } from '../entities/Player';
+import { getTrickColor } from './trickColors';
+
+// A collection particle - its motion is derived from how far the collection animation has run
+interface CollectionParticle {
+  angle: number;
+  size: number;
+  speed: number;
+  color: string;
+}
+
+// Create a fallback canvas-based image for power-ups
+const createFallbackPowerUpImage = (type: TrickType): HTMLImageElement => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  // Set canvas size to match power-up dimensions
+  canvas.width = 44;
+  canvas.height = 44;
+
+  if (ctx) {
+    // Get color based on trick type
+    const color = getTrickColor(type);
+
+    // Draw a circular background
+    ctx.fillStyle = '#222';
+    ctx.beginPath();
+    ctx.arc(canvas.width/2, canvas.height/2, canvas.width/2, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Draw an inner colored circle
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(canvas.width/2, canvas.height/2, canvas.width/2 - 4, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Draw text label
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 20px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    let label = 'K';
+    if (type === 'hashspin') label = '3';
+    if (type === 'hodlgrab') label = 'H';
+
+    ctx.fillText(label, canvas.width/2, canvas.height/2);
+
+    // Add a glowing effect
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(canvas.width/2, canvas.height/2, canvas.width/2 - 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  // Convert canvas to image
+  const img = new Image();
+  img.src = canvas.toDataURL();
+  return img;
+};
+
+export default class PowerUpRenderer {
+  // Loaded power-up images by trick type (fallbacks replace images that fail to load)
+  private images: {[key: string]: HTMLImageElement} = {};
+  private fallbackImages: {[key: string]: HTMLImageElement} = {};
+
+  // Particles of power-ups being collected - purely visual, so they live here and not in the simulation
+  private collectionParticles: WeakMap<PowerUp, CollectionParticle[]> = new WeakMap();
+
+  /**
+   * Get the image for a power-up type, loading it on first use
+   */
+  private getImage(type: TrickType): HTMLImageElement | null {
+    const cacheKey = `powerup-${type}`;
+
+    if (!this.images[cacheKey]) {
+      const img = new Image();
+      img.src = `/images/powerup-${type}.png`;
+      this.images[cacheKey] = img;
+
+      img.onload = () => {
+        console.log(`Loaded power-up image: ${type}`);
+      };
+
+      img.onerror = (err) => {
+        console.error(`Failed to load power-up image: ${type}`, err);
+        // Replace with fallback image
+        this.images[cacheKey] = this.getFallbackImage(type);
+      };
+    }
+
+    const img = this.images[cacheKey];
+    return img.complete && img.naturalWidth > 0 ? img : null;
+  }
+
+  /**
+   * Get the canvas-drawn fallback image for a power-up type (created once per type)
+   */
+  private getFallbackImage(type: TrickType): HTMLImageElement {
+    if (!this.fallbackImages[type]) {
+      this.fallbackImages[type] = createFallbackPowerUpImage(type);
+    }
+    return this.fallbackImages[type];
+  }
+
+  /**
+   * Draw the power-up
+   */
+  public draw(ctx: CanvasRenderingContext2D, powerUp: PowerUp, cameraOffset: number = 0): void {
+    try {
+      // If not active, don't draw
+      if (!powerUp.active) {
+        return;
+      }
+
+      const screenX = powerUp.x - cameraOffset;
+
+      // Skip drawing if off-screen (optimization)
+      if (screenX + powerUp.width < 0 || screenX > ctx.canvas.width) {
+        return;
+      }
+
+      // Draw the collection effects if being collected
+      if (powerUp.isCollecting) {
+        this.drawCollectionEffects(ctx, powerUp, screenX);
+        return;
+      }
+
+      // Save context state
+      ctx.save();
+
+      // Check if image is loaded, use it or draw a fallback
+      const image = this.getImage(powerUp.type);
+      if (image) {
+        // Add floating animation
+        const floatOffset = Math.sin(powerUp.frameCount * 0.1) * 5;
+
+        // Add pulsing scale
+        const scale = 1 + Math.sin(powerUp.frameCount * 0.1) * 0.1;
+
+        // Set up transformation for animation
+        ctx.translate(screenX + powerUp.width / 2, powerUp.y + powerUp.height / 2 + floatOffset);
+        ctx.scale(scale, scale);
+
+        // Draw with a slight rotation
+        ctx.rotate(Math.sin(powerUp.frameCount * 0.05) * 0.1);
+
+        // Draw the image
+        ctx.drawImage(
+          image,
+          -powerUp.width / 2,
+          -powerUp.height / 2,
+          powerUp.width,
+          powerUp.height
+        );
+
+        // Draw sparkles
+        this.drawSparkles(ctx, powerUp, 0, 0);
+
+      } else {
+        // Fallback: Draw directly without waiting for image to load
+        const fallbackImage = this.getFallbackImage(powerUp.type);
+
+        // Add floating animation
+        const floatOffset = Math.sin(powerUp.frameCount * 0.1) * 5;
+
+        // Draw the fallback image
+        ctx.translate(screenX + powerUp.width / 2, powerUp.y + powerUp.height / 2 + floatOffset);
+        ctx.drawImage(
+          fallbackImage,
+          -powerUp.width / 2,
+          -powerUp.height / 2,
+          powerUp.width,
+          powerUp.height
+        );
+
+        // Draw sparkles
+        this.drawSparkles(ctx, powerUp, 0, 0);
+      }
+
+      // Restore context state
+      ctx.restore();
+
+    } catch (err) {
+      console.error('Error drawing power-up:', err);
+    }
+  }
+
+  /**
+   * Draw sparkle effects around the power-up
+   */
+  private drawSparkles(ctx: CanvasRenderingContext2D, powerUp: PowerUp, x: number, y: number): void {
+    // Fewer, more elegant sparkles
+    const sparkCount = 3;
+    const radius = powerUp.width * 0.8;
+    const color = getTrickColor(powerUp.type);
+
+    for (let i = 0; i < sparkCount; i++) {
+      // Slower rotation for more elegant movement
+      const angle = (powerUp.frameCount * 0.05) + (i * (Math.PI * 2 / sparkCount));
+      const sparkX = x + powerUp.width / 2 + Math.cos(angle) * radius;
+      const sparkY = y + powerUp.height / 2 + Math.sin(angle) * radius;
+
+      // Smaller, more subtle sparkles
+      const sparkSize = 2 + Math.sin(powerUp.frameCount * 0.1 + i) * 1;
+
+      ctx.save();
+
+      // Subtle glow
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 3;
+      ctx.globalAlpha = 0.7;
+
+      // Use the same color as the trick but with transparency
+      ctx.fillStyle = color;
+
+      // Draw a small circle
+      ctx.beginPath();
+      ctx.arc(sparkX, sparkY, sparkSize, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Get the collection particles of a power-up, creating them the first time it's drawn being collected
+   */
+  private getCollectionParticles(powerUp: PowerUp): CollectionParticle[] {
+    let particles = this.collectionParticles.get(powerUp);
+
+    if (!particles) {
+      // Create elegant collection particle effects
+      const particleCount = 12; // Fewer particles for cleaner look
+      particles = [];
+
+      for (let i = 0; i < particleCount; i++) {
+        particles.push({
+          angle: (Math.PI * 2 / particleCount) * i,
+          size: 3 + Math.random() * 2, // Smaller particles
+          speed: 1 + Math.random() * 1.5, // Slower movement
+          color: getTrickColor(powerUp.type)
+        });
+      }
+
+      this.collectionParticles.set(powerUp, particles);
+    }
+
+    return particles;
+  }
+
+  /**
+   * Draw collection effects (particles)
+   */
+  private drawCollectionEffects(ctx: CanvasRenderingContext2D, powerUp: PowerUp, screenX: number): void {
+    try {
+      // Floating animation
+      const floatOffset = Math.sin(powerUp.frameCount * 0.05) * 6;
+
+      // Particles drift outwards and fade as the collection animation runs down
+      const steps = (PowerUp.COLLECTION_DURATION - powerUp.collectionTimer) / 16;
+
+      // Draw collection particles
+      for (const particle of this.getCollectionParticles(powerUp)) {
+        const size = particle.size - 0.15 * steps; // Slower fade
+        const alpha = 0.8 - 0.015 * steps; // Slower fade
+        if (size <= 0 || alpha <= 0) continue;
+
+        // Smoother outward motion
+        const x = powerUp.width / 2 + particle.speed * Math.cos(particle.angle) * steps;
+        const y = powerUp.height / 2 + particle.speed * Math.sin(particle.angle) * steps;
+
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.fillStyle = particle.color;
+        ctx.beginPath();
+        ctx.arc(screenX + x, powerUp.y + floatOffset + y, size, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+      }
+    } catch (err) {
+      console.error('Error drawing collection effects:', err);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * trickColors.ts - Colors used to draw each trick (power-ups, HUD indicators, particles)
+ */
+
+import { TrickType } from '../entities/Player';
+
+/**
+ * Get color based on trick type - clean, vibrant colors
+ */
+export const getTrickColor = (trickType: TrickType): string => {
+  switch (trickType) {
+    case 'blockflip':
+      return '#4dabf7'; // Clean blue
+    case 'hashspin':
+      return '#da77f2'; // Clean purple
+    case 'hodlgrab':
+      return '#69db7c'; // Clean green
+    default:
+      return '#fcc419'; // Clean yellow
+  }
+};
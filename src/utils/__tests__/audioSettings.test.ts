@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_AUDIO_SETTINGS } from '../../core/SoundManager';
+import { parseAudioSettings } from '../audioSettings';
+
+describe('audioSettings', () => {
+  describe('parseAudioSettings', () => {
+    it('reads saved settings back', () => {
+      const settings = { masterVolume: 0.8, musicVolume: 0.2, sfxVolume: 1, muted: true };
+      expect(parseAudioSettings(JSON.stringify(settings))).toEqual(settings);
+    });
+
+    it('falls back to the default for each missing or invalid value', () => {
+      expect(parseAudioSettings({ musicVolume: 0.3, sfxVolume: 4, masterVolume: 'loud' })).toEqual({
+        ...DEFAULT_AUDIO_SETTINGS,
+        musicVolume: 0.3
+      });
+    });
+
+    it('uses the defaults for data that is not settings at all', () => {
+      expect(parseAudioSettings('not json')).toEqual(DEFAULT_AUDIO_SETTINGS);
+      expect(parseAudioSettings(null)).toEqual(DEFAULT_AUDIO_SETTINGS);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_KEY_BINDINGS, KeyBinding } from '../../core/InputManager';
+import {
+  findKeyConflict,
+  formatActionKeys,
+  getKeyLabel,
+  parseKeyBindings
+} from '../keyBindings';
+
+describe('keyBindings', () => {
+  describe('parseKeyBindings', () => {
+    it('accepts the default bindings', () => {
+      expect(parseKeyBindings(JSON.stringify(DEFAULT_KEY_BINDINGS))).toEqual(
+        DEFAULT_KEY_BINDINGS.map(binding => ({ ...binding, key: undefined }))
+      );
+    });
+
+    it('keeps the typed character of rebound keys', () => {
+      // AZERTY: the key in the QWERTY "Q" position types "a"
+      const bindings: KeyBinding[] = DEFAULT_KEY_BINDINGS.map(binding => {
+        if (binding.code === 'KeyQ') return { code: 'KeyF', key: 'f', action: binding.action };
+        if (binding.code === 'KeyA') return { code: 'KeyQ', key: 'a', action: binding.action };
+        return binding;
+      });
+
+      const parsed = parseKeyBindings(bindings);
+      expect(parsed).not.toBeNull();
+      expect(parsed?.find(binding => binding.code === 'KeyQ')).toEqual({ code: 'KeyQ', key: 'a', action: 'left' });
+    });
+
+    it('rejects a key bound to two actions', () => {
+      const bindings = [...DEFAULT_KEY_BINDINGS, { code: 'Space', action: 'left' }];
+      expect(parseKeyBindings(bindings)).toBeNull();
+    });
+
+    it('rejects bindings that leave an action without a key', () => {
+      const bindings = DEFAULT_KEY_BINDINGS.filter(binding => binding.action !== 'trickHodlGrab');
+      expect(parseKeyBindings(bindings)).toBeNull();
+    });
+
+    it('rejects the pause keys', () => {
+      const bindings = [...DEFAULT_KEY_BINDINGS, { code: 'KeyP', action: 'jump' }];
+      expect(parseKeyBindings(bindings)).toBeNull();
+    });
+
+    it('rejects malformed data', () => {
+      expect(parseKeyBindings('not json')).toBeNull();
+      expect(parseKeyBindings({ code: 'Space', action: 'jump' })).toBeNull();
+      expect(parseKeyBindings([...DEFAULT_KEY_BINDINGS, { code: 'KeyZ', action: 'fly' }])).toBeNull();
+    });
+  });
+
+  describe('findKeyConflict', () => {
+    it('finds the other action a key is bound to', () => {
+      expect(findKeyConflict(DEFAULT_KEY_BINDINGS, 'KeyQ', 'jump')).toBe('trickBlockflip');
+    });
+
+    it('ignores keys already bound to the same action or unbound', () => {
+      expect(findKeyConflict(DEFAULT_KEY_BINDINGS, 'KeyW', 'jump')).toBeNull();
+      expect(findKeyConflict(DEFAULT_KEY_BINDINGS, 'KeyK', 'jump')).toBeNull();
+    });
+  });
+
+  describe('labels', () => {
+    it('labels keys by the character they type', () => {
+      expect(getKeyLabel({ code: 'Space', action: 'jump' })).toBe('SPACE');
+      expect(getKeyLabel({ code: 'ArrowUp', action: 'jump' })).toBe('↑');
+      expect(getKeyLabel({ code: 'KeyW', action: 'jump' })).toBe('W');
+      expect(getKeyLabel({ code: 'KeyW', key: 'z', action: 'jump' })).toBe('Z');
+      expect(getKeyLabel({ code: 'Numpad0', key: 'Insert', action: 'jump' })).toBe('NUM 0');
+    });
+
+    it('joins every key of an action', () => {
+      expect(formatActionKeys(DEFAULT_KEY_BINDINGS, 'jump')).toBe('SPACE/W/↑');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for the player's audio settings (volumes and mute)
+ */
+
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from '../core/SoundManager';
+
+// localStorage key for the player's audio settings
+const AUDIO_SETTINGS_STORAGE_KEY = 'skatewithbitcoinAudioSettings';
+
+// Check a stored volume - null unless it's a number from 0 to 1
+const parseVolume = (value: unknown): number | null => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1 ? value : null;
+};
+
+/**
+ * Check settings loaded from storage - anything missing or invalid falls back to its default
+ */
+export const parseAudioSettings = (data: unknown): AudioSettings => {
+  try {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!parsed || typeof parsed !== 'object') return { ...DEFAULT_AUDIO_SETTINGS };
+
+    return {
+      masterVolume: parseVolume(parsed.masterVolume) ?? DEFAULT_AUDIO_SETTINGS.masterVolume,
+      musicVolume: parseVolume(parsed.musicVolume) ?? DEFAULT_AUDIO_SETTINGS.musicVolume,
+      sfxVolume: parseVolume(parsed.sfxVolume) ?? DEFAULT_AUDIO_SETTINGS.sfxVolume,
+      muted: typeof parsed.muted === 'boolean' ? parsed.muted : DEFAULT_AUDIO_SETTINGS.muted
+    };
+  } catch (err) {
+    console.error('Error parsing audio settings:', err);
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+};
+
+/**
+ * Load the player's audio settings (the defaults if none were saved)
+ */
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY);
+    return saved ? parseAudioSettings(saved) : { ...DEFAULT_AUDIO_SETTINGS };
+  } catch (err) {
+    console.error('Error loading audio settings from localStorage:', err);
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+};
+
+/**
+ * Save the player's audio settings
+ */
+export const saveAudioSettings = (settings: AudioSettings): void => {
+  try {
+    localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Error saving audio settings to localStorage:', err);
+  }
+};
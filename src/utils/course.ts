@@ -0,0 +1,32 @@
+/**
+ * Utility functions for the course being built in the editor
+ */
+
+import { Course, createEmptyCourse, parseCourse, serializeCourse } from '../entities/Course';
+
+// localStorage key for the course being edited
+const COURSE_STORAGE_KEY = 'skatewithbitcoinCourse';
+
+/**
+ * Load the course being edited (an empty one if none was saved)
+ */
+export const loadCourseDraft = (): Course => {
+  try {
+    const saved = localStorage.getItem(COURSE_STORAGE_KEY);
+    return (saved && parseCourse(saved)) || createEmptyCourse();
+  } catch (err) {
+    console.error('Error loading course from localStorage:', err);
+    return createEmptyCourse();
+  }
+};
+
+/**
+ * Save the course being edited
+ */
+export const saveCourseDraft = (course: Course): void => {
+  try {
+    localStorage.setItem(COURSE_STORAGE_KEY, serializeCourse(course));
+  } catch (err) {
+    console.error('Error saving course to localStorage:', err);
+  }
+};
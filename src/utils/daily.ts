@@ -0,0 +1,59 @@
+/**
+ * Utility functions for the Daily Run challenge
+ */
+
+// Game modes - classic runs get a random course, daily runs share one course per UTC day
+export type GameMode = 'classic' | 'daily';
+
+/**
+ * Get the key of the UTC day a date falls on (e.g. "2024-05-21")
+ */
+export const getDailyKey = (date: Date = new Date()): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Get the course seed for a UTC day - everyone playing that day gets the same course
+ */
+export const getDailySeed = (date: Date = new Date()): number => {
+  // FNV-1a hash of the day key, so consecutive days get unrelated seeds
+  const key = `skatewithbitcoin-daily:${getDailyKey(date)}`;
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+};
+
+// localStorage key for the best Daily Run score on this device
+const DAILY_BEST_STORAGE_KEY = 'skatewithbitcoinDailyHighScore';
+
+/**
+ * Load this device's best Daily Run score for a day (0 if none was saved that day)
+ */
+export const loadDailyBest = (day: string): number => {
+  try {
+    const saved = localStorage.getItem(DAILY_BEST_STORAGE_KEY);
+    if (!saved) return 0;
+
+    const parsed = JSON.parse(saved) as { day?: string; sats?: number };
+    return parsed.day === day && typeof parsed.sats === 'number' ? parsed.sats : 0;
+  } catch (err) {
+    console.error('Error loading daily best from localStorage:', err);
+    return 0;
+  }
+};
+
+/**
+ * Save this device's best Daily Run score for a day (older days are overwritten)
+ */
+export const saveDailyBest = (day: string, sats: number): void => {
+  try {
+    localStorage.setItem(DAILY_BEST_STORAGE_KEY, JSON.stringify({ day, sats }));
+  } catch (err) {
+    console.error('Error saving daily best to localStorage:', err);
+  }
+};
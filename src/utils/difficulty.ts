@@ -0,0 +1,32 @@
+/**
+ * Utility functions for the player's chosen difficulty preset
+ */
+
+import { DEFAULT_DIFFICULTY, DifficultyPreset, isDifficultyPreset } from '../core/Difficulty';
+
+// localStorage key for the player's difficulty preset
+const DIFFICULTY_STORAGE_KEY = 'skatewithbitcoinDifficulty';
+
+/**
+ * Load the player's difficulty preset (Normal if none was saved)
+ */
+export const loadDifficulty = (): DifficultyPreset => {
+  try {
+    const saved = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+    return isDifficultyPreset(saved) ? saved : DEFAULT_DIFFICULTY;
+  } catch (err) {
+    console.error('Error loading difficulty from localStorage:', err);
+    return DEFAULT_DIFFICULTY;
+  }
+};
+
+/**
+ * Save the player's difficulty preset
+ */
+export const saveDifficulty = (difficulty: DifficultyPreset): void => {
+  try {
+    localStorage.setItem(DIFFICULTY_STORAGE_KEY, difficulty);
+  } catch (err) {
+    console.error('Error saving difficulty to localStorage:', err);
+  }
+};
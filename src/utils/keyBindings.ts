@@ -0,0 +1,153 @@
+/**
+ * Utility functions for player-rebindable controls
+ */
+
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, InputAction, KeyBinding } from '../core/InputManager';
+
+// localStorage key for the player's key bindings
+const KEY_BINDINGS_STORAGE_KEY = 'skatewithbitcoinKeyBindings';
+
+// Keys the game itself listens for (pause, hitbox overlay) - they can't be bound to actions
+export const RESERVED_KEY_CODES = ['Escape', 'KeyP', 'Backquote'];
+
+// Names of the actions as shown in the settings
+export const ACTION_LABELS: Record<InputAction, string> = {
+  jump: 'Jump',
+  left: 'Slow down',
+  right: 'Speed up',
+  trickBlockflip: 'Blockflip',
+  trickHashSpin: 'Hash Spin',
+  trickHodlGrab: 'HODL Grab'
+};
+
+/**
+ * Find the action (other than the given one) a key code is already bound to
+ */
+export const findKeyConflict = (
+  bindings: KeyBinding[],
+  code: string,
+  action: InputAction
+): InputAction | null => {
+  const conflict = bindings.find(binding => binding.code === code && binding.action !== action);
+  return conflict ? conflict.action : null;
+};
+
+/**
+ * Check bindings loaded from storage - returns null unless every action has a key,
+ * no key is bound to two actions and no reserved key is used
+ */
+export const parseKeyBindings = (data: unknown): KeyBinding[] | null => {
+  try {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!Array.isArray(parsed)) return null;
+
+    const bindings: KeyBinding[] = [];
+    for (const entry of parsed) {
+      if (!entry || typeof entry.code !== 'string' || !INPUT_ACTIONS.includes(entry.action)) return null;
+      if (RESERVED_KEY_CODES.includes(entry.code)) return null;
+      if (findKeyConflict(bindings, entry.code, entry.action)) return null;
+
+      // Skip exact duplicates
+      if (bindings.some(binding => binding.code === entry.code)) continue;
+
+      bindings.push({
+        code: entry.code,
+        key: typeof entry.key === 'string' ? entry.key : undefined,
+        action: entry.action
+      });
+    }
+
+    // Every action needs at least one key or the game can't be played
+    if (!INPUT_ACTIONS.every(action => bindings.some(binding => binding.action === action))) return null;
+
+    return bindings;
+  } catch (err) {
+    console.error('Error parsing key bindings:', err);
+    return null;
+  }
+};
+
+/**
+ * Load the player's key bindings (the defaults if none were saved or they're invalid)
+ */
+export const loadKeyBindings = (): KeyBinding[] => {
+  try {
+    const saved = localStorage.getItem(KEY_BINDINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_KEY_BINDINGS;
+
+    const bindings = parseKeyBindings(saved);
+    if (!bindings) {
+      console.warn('Saved key bindings are invalid, using defaults');
+      return DEFAULT_KEY_BINDINGS;
+    }
+
+    return bindings;
+  } catch (err) {
+    console.error('Error loading key bindings from localStorage:', err);
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+/**
+ * Save the player's key bindings
+ */
+export const saveKeyBindings = (bindings: KeyBinding[]): void => {
+  try {
+    localStorage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.error('Error saving key bindings to localStorage:', err);
+  }
+};
+
+/**
+ * Forget the player's key bindings and go back to the defaults
+ */
+export const resetKeyBindings = (): KeyBinding[] => {
+  try {
+    localStorage.removeItem(KEY_BINDINGS_STORAGE_KEY);
+  } catch (err) {
+    console.error('Error resetting key bindings in localStorage:', err);
+  }
+  return DEFAULT_KEY_BINDINGS;
+};
+
+/**
+ * Get a short label for a bound key (e.g. "SPACE", "W", "↑")
+ */
+export const getKeyLabel = (binding: KeyBinding): string => {
+  const arrows: {[code: string]: string} = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→'
+  };
+  if (arrows[binding.code]) return arrows[binding.code];
+  if (binding.code === 'Space') return 'SPACE';
+
+  // Prefer the character the key typed, so AZERTY players see their own layout
+  if (binding.key && binding.key.trim().length === 1) return binding.key.toUpperCase();
+
+  return binding.code
+    .replace(/^Key/, '')
+    .replace(/^Digit/, '')
+    .replace(/^Numpad/, 'NUM ')
+    .toUpperCase();
+};
+
+/**
+ * Get the labels of every key bound to an action joined with slashes (e.g. "SPACE/W/↑")
+ */
+export const formatActionKeys = (bindings: KeyBinding[], action: InputAction): string => {
+  return bindings
+    .filter(binding => binding.action === action)
+    .map(getKeyLabel)
+    .join('/');
+};
+
+/**
+ * Get the label of the first key bound to an action (e.g. "SPACE" for "Press SPACE to start")
+ */
+export const getPrimaryKeyLabel = (bindings: KeyBinding[], action: InputAction): string => {
+  const binding = bindings.find(binding => binding.action === action);
+  return binding ? getKeyLabel(binding) : '?';
+};
@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src')
+    }
+  },
+  test: {
+    // The simulation is plain TypeScript - no browser needed
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // The game logs every jump and spawn; only let errors through
+    onConsoleLog: (_log, type) => type === 'stderr'
+  }
+});